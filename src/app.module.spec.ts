@@ -0,0 +1,47 @@
+import { DynamicModule, Type } from '@nestjs/common';
+import { MODULE_METADATA } from '@nestjs/common/constants';
+import { AppModule } from './app.module';
+import { JobsModule } from './jobs/jobs.module';
+import { ScheduledJobsModule } from './scheduled-jobs/scheduled-jobs.module';
+
+// @octokit/rest sólo se distribuye como ESM y jest no lo transforma
+jest.mock('@octokit/rest', () => ({ Octokit: jest.fn() }));
+
+type ModuleImport = Type | DynamicModule;
+
+/**
+ * Orden en que Nest registra los módulos (y por tanto sus rutas):
+ * recorrido en profundidad de los imports, cada módulo la primera vez que aparece
+ */
+const registrationOrder = (
+  root: ModuleImport,
+  visited: Type[] = [],
+): Type[] => {
+  const metatype = 'module' in root ? root.module : root;
+  if (visited.includes(metatype)) {
+    return visited;
+  }
+  visited.push(metatype);
+
+  const imports: ModuleImport[] = [
+    ...((Reflect.getMetadata(MODULE_METADATA.IMPORTS, metatype) as
+      | ModuleImport[]
+      | undefined) ?? []),
+    ...('module' in root ? (root.imports ?? []) : []),
+  ] as ModuleImport[];
+  for (const child of imports) {
+    registrationOrder(child, visited);
+  }
+  return visited;
+};
+
+describe('AppModule', () => {
+  it('should register /jobs/scheduled before /jobs/:id', () => {
+    const order = registrationOrder(AppModule);
+
+    expect(order.indexOf(ScheduledJobsModule)).toBeGreaterThan(-1);
+    expect(order.indexOf(ScheduledJobsModule)).toBeLessThan(
+      order.indexOf(JobsModule),
+    );
+  });
+});
@@ -1,11 +1,18 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ProjectsModule } from './projects/projects.module';
 import { InfraModule } from './infra/infra.module';
 import { NginxModule } from './nginx/nginx.module';
 import { DeployModule } from './deploy/deploy.module';
+import { JobsModule } from './jobs/jobs.module';
+import { RegistriesModule } from './registries/registries.module';
+import { ScheduledJobsModule } from './scheduled-jobs/scheduled-jobs.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { ManifestsModule } from './manifests/manifests.module';
+import { StacksModule } from './stacks/stacks.module';
 
 @Module({
   imports: [
@@ -13,10 +20,20 @@ import { DeployModule } from './deploy/deploy.module';
       isGlobal: true, // Hace que ConfigModule esté disponible en toda la app
       envFilePath: '.env',
     }),
+    ScheduleModule.forRoot(),
+    // Nest registra las rutas en el orden en que recorre los imports: ScheduledJobsModule tiene que
+    // aparecer antes que cualquier módulo que importe JobsModule (DeployModule, InfraModule...),
+    // o GET /jobs/:id capturaría /jobs/scheduled. Lo comprueba app.module.spec.ts
+    ScheduledJobsModule,
     ProjectsModule,
     InfraModule,
     NginxModule,
     DeployModule,
+    JobsModule,
+    RegistriesModule,
+    NotificationsModule,
+    ManifestsModule,
+    StacksModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ContainerEventsService,
+  DockerEventMessage,
+} from './container-events.service';
+
+describe('ContainerEventsService', () => {
+  let service: ContainerEventsService;
+  const now = Math.floor(Date.now() / 1000);
+
+  const dockerEvent = (
+    action: string,
+    containerId = 'abc',
+    attributes: Record<string, string> = {},
+  ): DockerEventMessage => ({
+    Type: 'container',
+    Action: action,
+    Actor: {
+      ID: containerId,
+      Attributes: {
+        name: `container-cliente1-${containerId}`,
+        'orchestrator.subdomain': 'cliente1',
+        ...attributes,
+      },
+    },
+    time: now,
+  });
+
+  beforeEach(async () => {
+    const config: Record<string, string> = {
+      DEPLOY_CRASH_WINDOW_SECONDS: '600',
+      DEPLOY_CRASH_LOOP_RESTARTS: '3',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContainerEventsService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ContainerEventsService>(ContainerEventsService);
+  });
+
+  it('should tell crashes apart from requested stops', () => {
+    service.handleDockerEvent(dockerEvent('kill'));
+    expect(
+      service.handleDockerEvent(dockerEvent('die', 'abc', { exitCode: '0' })),
+    ).toMatchObject({ type: 'stop', exitCode: 0 });
+
+    expect(
+      service.handleDockerEvent(dockerEvent('die', 'abc', { exitCode: '1' })),
+    ).toMatchObject({ type: 'crash', exitCode: 1 });
+    expect(service.getHealth('cliente1').state).toBe('degraded');
+  });
+
+  it('should mark the deployment as crash-looping past the threshold', () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      service.handleDockerEvent(dockerEvent('die', 'abc', { exitCode: '1' }));
+      service.handleDockerEvent(dockerEvent('start'));
+    }
+
+    expect(service.getHealth('cliente1')).toMatchObject({
+      state: 'crash-looping',
+      crashes: 3,
+    });
+    expect(
+      service.listEvents('cliente1', 2).map((event) => event.type),
+    ).toEqual(['start', 'crash']);
+  });
+
+  it('should only count the events of the current containers', () => {
+    service.handleDockerEvent(dockerEvent('oom', 'viejo'));
+    service.handleDockerEvent(dockerEvent('die', 'viejo', { exitCode: '137' }));
+
+    expect(service.getHealth('cliente1').state).toBe('degraded');
+    expect(service.getHealth('cliente1', ['nuevo'])).toMatchObject({
+      state: 'healthy',
+      crashes: 0,
+      oomKills: 0,
+    });
+  });
+
+  it('should ignore unmanaged containers and unrelated actions', () => {
+    expect(
+      service.handleDockerEvent({
+        Type: 'container',
+        Action: 'die',
+        Actor: { ID: 'otro', Attributes: { name: 'postgres' } },
+      }),
+    ).toBeNull();
+    expect(service.handleDockerEvent(dockerEvent('exec_start: sh'))).toBeNull();
+    expect(service.listEvents('cliente1')).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LABEL_SUBDOMAIN } from './deploy.constants';
+import {
+  ContainerEventRecord,
+  ContainerEventType,
+  DeploymentHealth,
+  DeploymentHealthState,
+} from './deploy.types';
+
+// Un `die` hasta este tiempo después de un `kill` se considera una parada pedida, no un crash
+const KILL_GRACE_MS = 60 * 1000;
+
+/**
+ * Mensaje del stream de eventos de Docker (GET /events) para un contenedor
+ */
+export interface DockerEventMessage {
+  Type?: string;
+  Action?: string;
+  // Formato antiguo de la API
+  status?: string;
+  id?: string;
+  Actor?: {
+    ID?: string;
+    Attributes?: Record<string, string>;
+  };
+  // Timestamp Unix en segundos
+  time?: number;
+}
+
+/**
+ * Historial de eventos de los contenedores gestionados y salud de cada despliegue
+ * Con `RestartPolicy: unless-stopped` Docker reinicia en silencio los contenedores que fallan:
+ * aquí se cuentan los crashes, OOM kills y HEALTHCHECK unhealthy dentro de una ventana de
+ * tiempo para marcar los despliegues como `degraded` o `crash-looping`.
+ * El historial vive en memoria y se pierde al reiniciar el orquestador.
+ */
+@Injectable()
+export class ContainerEventsService {
+  private readonly logger = new Logger(ContainerEventsService.name);
+  // Eventos por subdominio, del más reciente al más antiguo
+  private readonly events = new Map<string, ContainerEventRecord[]>();
+  // Última orden de parada por contenedor
+  private readonly kills = new Map<string, number>();
+  // Último estado del HEALTHCHECK por contenedor
+  private readonly healthStatus = new Map<string, 'healthy' | 'unhealthy'>();
+  // Último estado de salud notificado por subdominio
+  private readonly states = new Map<string, DeploymentHealthState>();
+  private readonly windowSeconds: number;
+  private readonly degradedRestarts: number;
+  private readonly crashLoopRestarts: number;
+  private readonly historyLimit: number;
+
+  constructor(private configService: ConfigService) {
+    this.windowSeconds = Number(
+      this.configService.get('DEPLOY_CRASH_WINDOW_SECONDS') || 600,
+    );
+    this.degradedRestarts = Number(
+      this.configService.get('DEPLOY_DEGRADED_RESTARTS') || 1,
+    );
+    this.crashLoopRestarts = Number(
+      this.configService.get('DEPLOY_CRASH_LOOP_RESTARTS') || 3,
+    );
+    this.historyLimit = Number(
+      this.configService.get('DEPLOY_EVENTS_HISTORY') || 100,
+    );
+  }
+
+  /**
+   * Registra un evento de Docker de un contenedor gestionado
+   * @returns El evento normalizado, o null si no es relevante
+   */
+  handleDockerEvent(message: DockerEventMessage): ContainerEventRecord | null {
+    const attributes = message.Actor?.Attributes ?? {};
+    const subdomain = attributes[LABEL_SUBDOMAIN];
+    const containerId = message.Actor?.ID ?? message.id;
+    const action = message.Action ?? message.status ?? '';
+
+    if (
+      (message.Type && message.Type !== 'container') ||
+      !subdomain ||
+      !containerId
+    ) {
+      return null;
+    }
+
+    const at = message.time ? message.time * 1000 : Date.now();
+    let type: ContainerEventType;
+
+    switch (action) {
+      case 'kill':
+        this.kills.set(containerId, at);
+        return null;
+      case 'destroy':
+        this.kills.delete(containerId);
+        this.healthStatus.delete(containerId);
+        return null;
+      case 'die': {
+        const killedAt = this.kills.get(containerId);
+        this.kills.delete(containerId);
+        type =
+          killedAt !== undefined && at - killedAt <= KILL_GRACE_MS
+            ? 'stop'
+            : 'crash';
+        break;
+      }
+      case 'oom':
+        type = 'oom';
+        break;
+      case 'start':
+        type = 'start';
+        break;
+      case 'health_status: unhealthy':
+        type = 'unhealthy';
+        this.healthStatus.set(containerId, 'unhealthy');
+        break;
+      case 'health_status: healthy':
+        type = 'healthy';
+        this.healthStatus.set(containerId, 'healthy');
+        break;
+      default:
+        return null;
+    }
+
+    const event: ContainerEventRecord = {
+      type,
+      subdomain,
+      containerId,
+      containerName: attributes.name ?? containerId,
+      exitCode:
+        (type === 'crash' || type === 'stop') &&
+        attributes.exitCode !== undefined
+          ? Number(attributes.exitCode)
+          : null,
+      at: new Date(at).toISOString(),
+    };
+
+    const history = [event, ...(this.events.get(subdomain) ?? [])];
+    this.events.set(subdomain, history.slice(0, this.historyLimit));
+
+    if (type === 'crash' || type === 'oom') {
+      this.logger.warn(
+        `${event.containerName} (${subdomain}): ${type === 'oom' ? 'sin memoria (OOM kill)' : `terminó inesperadamente con código ${event.exitCode}`}`,
+      );
+    }
+    this.notifyStateChange(subdomain);
+
+    return event;
+  }
+
+  /**
+   * Salud de un despliegue en la ventana DEPLOY_CRASH_WINDOW_SECONDS
+   * @param containerIds - Contenedores actuales del despliegue; los eventos de versiones anteriores no cuentan
+   */
+  getHealth(subdomain: string, containerIds?: string[]): DeploymentHealth {
+    const relevant = (this.events.get(subdomain) ?? []).filter(
+      (event) => !containerIds || containerIds.includes(event.containerId),
+    );
+    const cutoff = Date.now() - this.windowSeconds * 1000;
+    const recent = relevant.filter((event) => Date.parse(event.at) >= cutoff);
+
+    const crashes = recent.filter((event) => event.type === 'crash').length;
+    const oomKills = recent.filter((event) => event.type === 'oom').length;
+    const containers = containerIds ?? [
+      ...new Set(relevant.map((event) => event.containerId)),
+    ];
+    const unhealthyContainers = containers.filter(
+      (id) => this.healthStatus.get(id) === 'unhealthy',
+    ).length;
+
+    let state: DeploymentHealthState = 'healthy';
+    if (crashes >= this.crashLoopRestarts) {
+      state = 'crash-looping';
+    } else if (
+      crashes >= this.degradedRestarts ||
+      oomKills > 0 ||
+      unhealthyContainers > 0
+    ) {
+      state = 'degraded';
+    }
+
+    return {
+      state,
+      crashes,
+      oomKills,
+      unhealthyContainers,
+      windowSeconds: this.windowSeconds,
+      lastCrashAt: relevant.find((event) => event.type === 'crash')?.at ?? null,
+    };
+  }
+
+  /**
+   * Eventos recientes de un subdominio, del más reciente al más antiguo
+   */
+  listEvents(subdomain: string, limit = 50): ContainerEventRecord[] {
+    return (this.events.get(subdomain) ?? []).slice(0, limit);
+  }
+
+  /**
+   * Olvida el historial de un despliegue eliminado
+   */
+  clear(subdomain: string) {
+    for (const event of this.events.get(subdomain) ?? []) {
+      this.kills.delete(event.containerId);
+      this.healthStatus.delete(event.containerId);
+    }
+    this.events.delete(subdomain);
+    this.states.delete(subdomain);
+  }
+
+  private notifyStateChange(subdomain: string) {
+    const { state, crashes } = this.getHealth(subdomain);
+    const previous = this.states.get(subdomain) ?? 'healthy';
+    if (state === previous) {
+      return;
+    }
+
+    this.states.set(subdomain, state);
+    if (state === 'healthy') {
+      this.logger.log(`${subdomain} vuelve a estar sano`);
+    } else {
+      this.logger.warn(
+        `${subdomain} pasa a ${state} (${crashes} crash(es) en ${this.windowSeconds}s)`,
+      );
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { LOCAL_BUILD_HOST } from '../registries/registry-host.util';
+
+/**
+ * Constantes compartidas por el módulo de despliegue
+ * Los labels permiten identificar los contenedores gestionados por el orquestador
+ * sin depender del nombre del contenedor
+ */
+export const CONTAINER_PREFIX = 'container-';
+// Contenedores efímeros de las tareas programadas
+export const TASK_CONTAINER_PREFIX = 'task-';
+
+export const LABEL_MANAGED = 'orchestrator.managed';
+export const LABEL_SUBDOMAIN = 'orchestrator.subdomain';
+export const LABEL_COLOR = 'orchestrator.color';
+export const LABEL_REPLICA = 'orchestrator.replica';
+export const LABEL_VOLUME = 'orchestrator.volume';
+export const LABEL_TASK = 'orchestrator.task';
+
+/**
+ * Colores usados para los despliegues blue/green
+ * Cada redeploy crea el contenedor del color contrario al que está sirviendo
+ */
+export type DeploymentColor = 'blue' | 'green';
+
+/**
+ * Nombre del contenedor de una réplica
+ * La primera réplica conserva el nombre `container-<subdominio>-<color>`; el resto añade su índice
+ */
+export const getContainerName = (
+  subdomain: string,
+  color: DeploymentColor,
+  replica = 0,
+) => `${CONTAINER_PREFIX}${subdomain}-${getReplicaSlot(color, replica)}`;
+
+/**
+ * Slot de una réplica dentro del subdominio (también identifica su reserva de puerto)
+ */
+export const getReplicaSlot = (color: DeploymentColor, replica = 0) =>
+  replica === 0 ? color : `${color}-${replica}`;
+
+/**
+ * Nombre del volumen de Docker de un volumen declarado en el despliegue
+ */
+export const getVolumeName = (subdomain: string, volume: string) =>
+  `${subdomain}-${volume}`;
+
+/**
+ * Red privada de un grupo de despliegues (la red común si no hay grupo)
+ * Dentro de la red, cada contenedor responde a su subdominio como alias DNS
+ */
+export const getNetworkName = (baseNetwork: string, group?: string) =>
+  group ? `${baseNetwork}-${group}` : baseNetwork;
+
+/**
+ * Repositorio local de las imágenes construidas en el host para un subdominio
+ */
+export const getBuildRepository = (subdomain: string) =>
+  `${LOCAL_BUILD_HOST}/${subdomain}`;
@@ -1,10 +1,106 @@
-import { Controller, Post, Delete, Get, Body, Param, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Get,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  HttpException,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiHeader,
+  ApiProduces,
+  ApiQuery,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import type { Request, Response } from 'express';
 import { DeployService } from './deploy.service';
+import { ReconcilerService } from './reconciler.service';
 import { GithubService } from './github.service';
 import { DeployDto } from './dto/deploy.dto';
+import { BuildDeployDto } from './dto/build.dto';
 import { CreateRepoDto } from './dto/create-repo.dto';
+import { RollbackDto } from './dto/rollback.dto';
+import { UpdateEnvDto } from './dto/update-env.dto';
+import { LogsQueryDto } from './dto/logs-query.dto';
+import { RemoveDeploymentQueryDto } from './dto/remove-deployment.dto';
+import { ScaleDto } from './dto/scale.dto';
+import { CanaryDto, CanaryWeightDto } from './dto/canary.dto';
+import { ExecDto } from './dto/exec.dto';
+import { parseLogsSince } from './docker-logs.util';
 import { OrchestratorTokenGuard } from './guards/orchestrator-token.guard';
+import { JobsService } from '../jobs/jobs.service';
+
+// Respuesta de los endpoints que encolan un trabajo
+const JOB_REFERENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    jobId: { type: 'string', format: 'uuid' },
+    type: { type: 'string', example: 'deploy' },
+    key: { type: 'string', example: 'cliente1' },
+    description: { type: 'string' },
+    status: { type: 'string', example: 'queued' },
+  },
+};
+
+// Resumen de un despliegue en los listados
+const DEPLOYMENT_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    subdomain: { type: 'string' },
+    kind: { type: 'string', enum: ['web', 'worker'] },
+    url: { type: 'string', nullable: true },
+    internalUrl: { type: 'string', nullable: true },
+    containerId: { type: 'string' },
+    containerName: { type: 'string' },
+    image: { type: 'string' },
+    imageDigest: { type: 'string', nullable: true },
+    status: { type: 'string' },
+    state: { type: 'string' },
+    health: { type: 'string', enum: ['healthy', 'degraded', 'crash-looping'] },
+    hostPort: { type: 'number', nullable: true },
+    internalPort: { type: 'number', nullable: true },
+    replicas: { type: 'number' },
+    revision: { type: 'number' },
+    deployedBy: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+// Respuesta de los listados de volúmenes
+const VOLUMES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      subdomain: { type: 'string', example: 'cliente1' },
+      name: { type: 'string', example: 'data' },
+      volumeName: { type: 'string', example: 'cliente1-data' },
+      mountPath: { type: 'string', nullable: true, example: '/app/data' },
+      readOnly: { type: 'boolean' },
+      sizeBytes: { type: 'number', nullable: true },
+      containers: { type: 'number', nullable: true },
+    },
+  },
+};
 
 @ApiTags('deploy')
 @Controller('deploy')
@@ -12,63 +108,187 @@ export class DeployController {
   constructor(
     private readonly deployService: DeployService,
     private readonly githubService: GithubService,
+    private readonly jobsService: JobsService,
+    private readonly reconcilerService: ReconcilerService,
   ) {}
 
   @Post()
   @UseGuards(OrchestratorTokenGuard)
-  @HttpCode(HttpStatus.CREATED)
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Desplegar un microservicio desde una imagen de Docker' })
+  @ApiOperation({
+    summary: 'Desplegar un microservicio desde una imagen de Docker',
+    description:
+      'Encola el despliegue y responde de inmediato con el ID del trabajo. ' +
+      'El estado se consulta en GET /jobs/:id y el progreso en vivo en GET /jobs/:id/events (SSE). ' +
+      'Los despliegues de un mismo subdominio se ejecutan de uno en uno.',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién lanza el despliegue (usuario o pipeline). Se guarda en el historial de revisiones',
+    required: false,
+  })
   @ApiResponse({
     status: 401,
     description: 'Token de autorización inválido o faltante',
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'La imagen no cumple la política de despliegue. La respuesta indica la regla incumplida (rule) y todas las violaciones',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Despliegue encolado',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Error en los datos proporcionados',
+  })
+  deployMicroservice(
+    @Body() deployDto: DeployDto,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.queueDeploy(
+      {
+        imageName: deployDto.imageName,
+        subdomain: deployDto.subdomain,
+        internalPort: deployDto.internalPort,
+        kind: deployDto.kind,
+        healthCheck: deployDto.healthCheck,
+        resources: deployDto.resources,
+        replicas: deployDto.replicas,
+        loadBalancing: deployDto.loadBalancing,
+        env: deployDto.env,
+        secrets: deployDto.secrets,
+        volumes: deployDto.volumes,
+        network: deployDto.network,
+        public: deployDto.public,
+        preSwitch: deployDto.preSwitch,
+      },
+      { deployedBy: deployedBy || 'api' },
+    );
+  }
+
+  @Post('build')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Construir una imagen desde el código fuente y desplegarla',
+    description:
+      'Encola un trabajo que ejecuta docker build en el host a partir de un repositorio Git (repository y ref) ' +
+      'o de un contexto subido con POST /deploy/build/contexts, etiqueta la imagen como ' +
+      'orchestrator.local/<subdominio>:<build> y la despliega igual que POST /deploy, sin pasar por ningún registro. ' +
+      'El log de la build se emite en GET /jobs/:id/events (SSE). Las builds de un subdominio reutilizan la caché ' +
+      'de la anterior salvo con noCache=true. Las imágenes base (FROM) deben cumplir los registros y namespaces ' +
+      'permitidos: si una no los cumple, la build se cancela y el trabajo falla con la regla incumplida.',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién lanza la build (usuario o pipeline). Se guarda en el historial de builds y de revisiones',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Build y despliegue encolados',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Origen de la build inválido (repository y contextId son excluyentes) o datos del despliegue inválidos',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Las builds están desactivadas (DEPLOY_ALLOW_BUILDS=false, o sin definir con registros o namespaces permitidos) ' +
+      'o el subdominio está vinculado a otro repositorio',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El contexto subido no existe o ha caducado',
+  })
+  buildAndDeploy(
+    @Body() buildDto: BuildDeployDto,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.queueBuild(
+      {
+        subdomain: buildDto.subdomain,
+        internalPort: buildDto.internalPort,
+        kind: buildDto.kind,
+        healthCheck: buildDto.healthCheck,
+        resources: buildDto.resources,
+        replicas: buildDto.replicas,
+        loadBalancing: buildDto.loadBalancing,
+        env: buildDto.env,
+        secrets: buildDto.secrets,
+        volumes: buildDto.volumes,
+        network: buildDto.network,
+        public: buildDto.public,
+        preSwitch: buildDto.preSwitch,
+      },
+      {
+        source: buildDto.source,
+        dockerfile: buildDto.dockerfile,
+        buildArgs: buildDto.buildArgs,
+        noCache: buildDto.noCache,
+      },
+      { deployedBy: deployedBy || 'api' },
+    );
+  }
+
+  @Post('build/contexts')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Subir un contexto de construcción',
+    description:
+      'Recibe un tarball (tar o tar.gz) con el Dockerfile y el código. Devuelve el contextId que se indica ' +
+      'en source.contextId de POST /deploy/build. El contexto se borra al usarse o al caducar ' +
+      '(BUILD_CONTEXT_TTL_MINUTES). Tamaño máximo: BUILD_CONTEXT_MAX_MB (50)',
+  })
+  @ApiConsumes('application/x-tar', 'application/gzip')
+  @ApiBody({ schema: { type: 'string', format: 'binary' } })
   @ApiResponse({
     status: 201,
-    description: 'Microservicio desplegado exitosamente',
+    description: 'Contexto guardado',
     schema: {
       type: 'object',
       properties: {
-        success: { type: 'boolean' },
-        url: { type: 'string', example: 'https://cliente1.boogiepop.cloud' },
-        containerId: { type: 'string' },
-        containerName: { type: 'string' },
-        hostPort: { type: 'number' },
-        internalPort: { type: 'number' },
-        imageName: { type: 'string' },
+        contextId: { type: 'string', format: 'uuid' },
+        sizeBytes: { type: 'number' },
+        expiresAt: { type: 'string', format: 'date-time' },
       },
     },
   })
+  @ApiResponse({ status: 400, description: 'El cuerpo no es un tarball' })
   @ApiResponse({
-    status: 400,
-    description: 'Error en los datos proporcionados o durante el despliegue',
+    status: 413,
+    description: 'El contexto supera BUILD_CONTEXT_MAX_MB',
   })
-  async deployMicroservice(@Body() deployDto: DeployDto) {
-    return await this.deployService.deploy(
-      deployDto.imageName,
-      deployDto.subdomain,
-      deployDto.internalPort,
-    );
+  uploadBuildContext(@Body() body: Buffer) {
+    return this.deployService.saveBuildContext(body);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Listar todos los microservicios desplegados' })
+  @ApiOperation({
+    summary:
+      'Listar todos los microservicios desplegados (servicios web y workers por separado)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Lista de despliegues',
     schema: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          containerId: { type: 'string' },
-          containerName: { type: 'string' },
-          subdomain: { type: 'string' },
-          image: { type: 'string' },
-          status: { type: 'string' },
-          hostPort: { type: 'number' },
-          createdAt: { type: 'number' },
-        },
+      type: 'object',
+      properties: {
+        services: { type: 'array', items: DEPLOYMENT_SUMMARY_SCHEMA },
+        workers: { type: 'array', items: DEPLOYMENT_SUMMARY_SCHEMA },
       },
     },
   })
@@ -77,28 +297,50 @@ export class DeployController {
   }
 
   @Delete(':subdomain')
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Eliminar un despliegue de microservicio' })
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Eliminar un despliegue de microservicio',
+    description:
+      'Encola la eliminación y responde de inmediato con el ID del trabajo. Se ejecuta en serie con los ' +
+      'despliegues del mismo subdominio; si no hay ningún despliegue, el trabajo falla.',
+  })
   @ApiParam({
     name: 'subdomain',
-    description: 'El subdominio del despliegue a eliminar (sin el dominio base)',
+    description:
+      'El subdominio del despliegue a eliminar (sin el dominio base)',
     example: 'cliente1',
   })
   @ApiResponse({
-    status: 200,
-    description: 'Despliegue eliminado exitosamente',
+    status: 202,
+    description: 'Eliminación encolada',
+    schema: JOB_REFERENCE_SCHEMA,
   })
   @ApiResponse({
     status: 400,
-    description: 'No se encontró un despliegue para el subdominio especificado',
+    description:
+      'El subdominio es un servicio de un stack: se elimina con DELETE /stacks/:name',
   })
-  async removeDeployment(@Param('subdomain') subdomain: string) {
-    return this.deployService.removeDeployment(subdomain);
+  @ApiResponse({
+    status: 401,
+    description: 'Token de autorización inválido o faltante',
+  })
+  removeDeployment(
+    @Param('subdomain') subdomain: string,
+    @Query() query: RemoveDeploymentQueryDto,
+  ) {
+    return this.deployService.queueRemoveDeployment(
+      subdomain,
+      query.purgeVolumes ?? false,
+    );
   }
 
   @Post('repo')
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Crear un repositorio de GitHub con pipeline de CI/CD configurado' })
+  @ApiOperation({
+    summary: 'Crear un repositorio de GitHub con pipeline de CI/CD configurado',
+  })
   @ApiResponse({
     status: 201,
     description: 'Repositorio creado y pipeline configurado exitosamente',
@@ -106,7 +348,10 @@ export class DeployController {
       type: 'object',
       properties: {
         success: { type: 'boolean' },
-        url: { type: 'string', example: 'https://github.com/usuario/mi-microservicio' },
+        url: {
+          type: 'string',
+          example: 'https://github.com/usuario/mi-microservicio',
+        },
         full_name: { type: 'string', example: 'usuario/mi-microservicio' },
         name: { type: 'string', example: 'mi-microservicio' },
         subdomain: { type: 'string', example: 'cliente1.boogiepop.cloud' },
@@ -116,7 +361,8 @@ export class DeployController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Error en los datos proporcionados o durante la creación del repositorio',
+    description:
+      'Error en los datos proporcionados o durante la creación del repositorio',
   })
   async createNewProject(@Body() createRepoDto: CreateRepoDto) {
     return await this.githubService.createRepoAndSetupPipeline(
@@ -153,4 +399,881 @@ export class DeployController {
   async verifyToken() {
     return this.githubService.verifyToken();
   }
+
+  @Get('policy')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Política de imágenes vigente',
+    description:
+      'Se configura con variables de entorno (DEPLOY_ALLOWED_REGISTRIES, DEPLOY_ALLOWED_NAMESPACES, ' +
+      'DEPLOY_REQUIRE_TAG, DEPLOY_REQUIRE_DIGEST, DEPLOY_BLOCK_LATEST, DEPLOY_MAX_IMAGE_SIZE_MB, ' +
+      'DEPLOY_SUBDOMAIN_BINDINGS y DEPLOY_ALLOW_BUILDS) y no se puede cambiar desde la API.',
+  })
+  getPolicy() {
+    return this.deployService.getPolicy();
+  }
+
+  @Get('networks')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Redes privadas gestionadas por el orquestador y los subdominios conectados',
+  })
+  listNetworks() {
+    return this.deployService.listNetworks();
+  }
+
+  @Get('volumes')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Volúmenes persistentes de todos los despliegues con su uso de disco',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Volúmenes gestionados por el orquestador',
+    schema: VOLUMES_SCHEMA,
+  })
+  listVolumes() {
+    return this.deployService.listVolumes();
+  }
+
+  @Get('reconcile')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Diferencias entre los despliegues y las configuraciones de Nginx',
+    description:
+      'Detecta configuraciones huérfanas (orphan-config), configuraciones que faltan (missing-config), ' +
+      'modo proxy/mantenimiento distinto al estado (mode-mismatch), puertos distintos a los de las réplicas ' +
+      '(port-mismatch), réplicas detenidas detrás del proxy (dead-upstream) y contenedores gestionados sin ' +
+      'despliegue (orphan-container). Los puertos de Nginx se leen de los archivos .conf en disco. No cambia nada. ' +
+      'Los subdominios con trabajos en curso se omiten (skipped).',
+  })
+  @ApiResponse({ status: 200, description: 'Informe de diferencias' })
+  inspectDrift() {
+    return this.reconcilerService.inspect();
+  }
+
+  @Post('reconcile')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Reparar las diferencias entre los despliegues y Nginx',
+    description:
+      'Encola un trabajo por subdominio que reescribe la configuración de Nginx a partir del despliegue ' +
+      'o elimina la configuración huérfana. Las réplicas detenidas (dead-upstream) sólo se informan: ' +
+      'se corrigen redesplegando o con rollback; los contenedores sin despliegue (orphan-container), con ' +
+      'DELETE /deploy/:subdomain. También se ejecuta periódicamente ' +
+      '(RECONCILE_INTERVAL_SECONDS) si RECONCILE_AUTO_REPAIR=true.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Informe de diferencias y trabajos de reparación encolados',
+  })
+  reconcile() {
+    return this.reconcilerService.reconcile();
+  }
+
+  @Get(':subdomain')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Detalle de un despliegue con su historial de revisiones',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Registro del despliegue, configuración de proxy y revisiones (de la más reciente a la más antigua)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Token de autorización inválido o faltante',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  async getDeployment(@Param('subdomain') subdomain: string) {
+    return this.deployService.getDeployment(subdomain);
+  }
+
+  @Get(':subdomain/revisions')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Historial de revisiones de un despliegue' })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Revisiones de la más reciente a la más antigua, con el digest de la imagen de cada una',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          revision: { type: 'number' },
+          imageName: { type: 'string' },
+          imageDigest: { type: 'string', nullable: true },
+          status: { type: 'string', enum: ['active', 'superseded', 'failed'] },
+          deployedBy: { type: 'string' },
+          deployedAt: { type: 'string', format: 'date-time' },
+          rollbackOf: { type: 'number', nullable: true },
+          error: { type: 'string', nullable: true },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Token de autorización inválido o faltante',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  listRevisions(@Param('subdomain') subdomain: string) {
+    return this.deployService.listRevisions(subdomain);
+  }
+
+  @Get(':subdomain/builds')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Historial de builds de un subdominio',
+    description:
+      'Builds lanzadas con POST /deploy/build, de la más reciente a la más antigua, con su estado, ' +
+      'la imagen resultante y las últimas líneas del log. Los valores de los build args no se guardan',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  listBuilds(@Param('subdomain') subdomain: string) {
+    return this.deployService.listBuilds(subdomain);
+  }
+
+  @Get(':subdomain/volumes')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Volúmenes persistentes de un despliegue con su uso de disco',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Volúmenes del subdominio, incluidos los que ya no declara el despliegue actual',
+    schema: VOLUMES_SCHEMA,
+  })
+  listSubdomainVolumes(@Param('subdomain') subdomain: string) {
+    return this.deployService.listVolumes(subdomain);
+  }
+
+  @Get(':subdomain/events')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Eventos recientes de los contenedores de un despliegue y su salud',
+    description:
+      'El monitor escucha los eventos de Docker: crashes (el contenedor terminó sin una orden de parada), OOM kills y ' +
+      'cambios del HEALTHCHECK. Con crashes en la ventana DEPLOY_CRASH_WINDOW_SECONDS el despliegue pasa a `degraded`, ' +
+      'y a `crash-looping` al alcanzar DEPLOY_CRASH_LOOP_RESTARTS. El historial se pierde al reiniciar el orquestador.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Número máximo de eventos (por defecto 50)',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Salud del despliegue y eventos, del más reciente al más antiguo',
+    schema: {
+      type: 'object',
+      properties: {
+        subdomain: { type: 'string' },
+        health: {
+          type: 'object',
+          properties: {
+            state: {
+              type: 'string',
+              enum: ['healthy', 'degraded', 'crash-looping'],
+            },
+            crashes: { type: 'number' },
+            oomKills: { type: 'number' },
+            unhealthyContainers: { type: 'number' },
+            windowSeconds: { type: 'number' },
+            lastCrashAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        events: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: ['start', 'stop', 'crash', 'oom', 'unhealthy', 'healthy'],
+              },
+              containerName: { type: 'string' },
+              exitCode: { type: 'number', nullable: true },
+              at: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  getContainerEvents(
+    @Param('subdomain') subdomain: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.deployService.getContainerEvents(subdomain, limit);
+  }
+
+  @Get(':subdomain/logs')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Logs (stdout y stderr) del contenedor que sirve un despliegue',
+    description:
+      'Sin `follow` devuelve las últimas líneas en JSON. Con `follow=true` responde con Server-Sent Events: ' +
+      'un evento `log` por línea ({ stream, line }) y un evento `end` cuando el contenedor se detiene.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description: 'Líneas de log del contenedor',
+    schema: {
+      type: 'object',
+      properties: {
+        subdomain: { type: 'string' },
+        containerName: { type: 'string' },
+        lines: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Valor de `since` inválido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un contenedor para el subdominio especificado',
+  })
+  async getLogs(
+    @Param('subdomain') subdomain: string,
+    @Query() query: LogsQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const since = query.since ? parseLogsSince(query.since) : undefined;
+    if (since === null) {
+      throw new BadRequestException(`Valor de since inválido: ${query.since}`);
+    }
+
+    const options = {
+      tail: query.tail,
+      since,
+      timestamps: query.timestamps,
+      replica: query.replica,
+    };
+
+    if (!query.follow) {
+      res.json(await this.deployService.getLogs(subdomain, options));
+      return;
+    }
+
+    const logs = await this.deployService.followLogs(subdomain, options);
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Evita que Nginx acumule el stream en su buffer
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const writeEvent = (event: string, data: unknown) =>
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // Comentario periódico para que los proxies no corten la conexión en silencio
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+    const subscription = logs.subscribe({
+      next: (line) => writeEvent('log', line),
+      error: (error: Error) => {
+        clearInterval(heartbeat);
+        writeEvent('error', { message: error.message });
+        res.end();
+      },
+      complete: () => {
+        clearInterval(heartbeat);
+        writeEvent('end', { subdomain });
+        res.end();
+      },
+    });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    });
+  }
+
+  @Post(':subdomain/stop')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Detener un despliegue y servir la página de mantenimiento',
+    description:
+      'Nginx pasa a responder 503 con la página de mantenimiento antes de detener el contenedor. El registro, el puerto y el entorno se conservan.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Acción encolada; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  stopDeployment(@Param('subdomain') subdomain: string) {
+    return this.deployService.queueLifecycle(subdomain, 'stop');
+  }
+
+  @Post(':subdomain/start')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Arrancar un despliegue detenido o en pausa y restaurar su proxy',
+    description:
+      'El proxy de Nginx se restaura cuando el contenedor vuelve a estar listo (health check o puerto).',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Acción encolada; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  startDeployment(@Param('subdomain') subdomain: string) {
+    return this.deployService.queueLifecycle(subdomain, 'start');
+  }
+
+  @Post(':subdomain/restart')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Reiniciar el contenedor activo de un despliegue',
+    description:
+      'Reinicia el contenedor en su mismo puerto; el servicio no responde durante el reinicio. Para un cambio sin cortes, usa un redespliegue.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Acción encolada; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  restartDeployment(@Param('subdomain') subdomain: string) {
+    return this.deployService.queueLifecycle(subdomain, 'restart');
+  }
+
+  @Post(':subdomain/pause')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Pausar un despliegue y servir la página de mantenimiento',
+    description:
+      'Congela los procesos del contenedor sin detenerlo. Se reanuda con POST /deploy/:subdomain/start.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Acción encolada; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  pauseDeployment(@Param('subdomain') subdomain: string) {
+    return this.deployService.queueLifecycle(subdomain, 'pause');
+  }
+
+  @Post(':subdomain/scale')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cambiar el número de réplicas sin redesplegar la imagen',
+    description:
+      'Las réplicas nuevas usan la imagen activa (fijada por digest) y entran en el upstream de Nginx cuando están listas. ' +
+      'Al reducir, las réplicas sobrantes salen del upstream antes de drenarlas.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Escalado encolado; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Número de réplicas fuera del rango permitido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  scale(@Param('subdomain') subdomain: string, @Body() scaleDto: ScaleDto) {
+    return this.deployService.queueScale(subdomain, scaleDto.replicas);
+  }
+
+  @Post(':subdomain/exec')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Ejecutar un comando puntual en un despliegue (migraciones, seeds, consolas)',
+    description:
+      'Con mode=exec el comando se ejecuta dentro del contenedor en marcha; con mode=run, en un contenedor desechable ' +
+      'con la misma imagen, entorno y red. Se encola en serie con los despliegues del subdominio y la salida se emite ' +
+      'línea a línea como eventos `log` en GET /jobs/:id/events (SSE). Con `wait=true` la respuesta espera al resultado.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiQuery({
+    name: 'wait',
+    required: false,
+    description:
+      'Esperar a que termine el comando y devolver su código de salida y su salida',
+    example: 'true',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién lanza el comando (usuario o pipeline). Se registra en los logs del orquestador',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Comando encolado (sin `wait`)',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado del comando (con `wait=true`)',
+    schema: {
+      type: 'object',
+      properties: {
+        subdomain: { type: 'string' },
+        mode: { type: 'string', enum: ['exec', 'run'] },
+        containerName: { type: 'string' },
+        command: { type: 'array', items: { type: 'string' } },
+        exitCode: { type: 'number', nullable: true },
+        timedOut: { type: 'boolean' },
+        durationMs: { type: 'number' },
+        output: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'El comando terminó con un código distinto de 0 o superó el tiempo máximo (la respuesta incluye la salida)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  async exec(
+    @Param('subdomain') subdomain: string,
+    @Body() execDto: ExecDto,
+    @Res({ passthrough: true }) res: Response,
+    @Query('wait') wait?: string,
+    @Headers('x-deployed-by') requestedBy?: string,
+  ) {
+    const reference = this.deployService.queueExec(
+      subdomain,
+      execDto,
+      requestedBy || 'api',
+    );
+    if (wait !== 'true') {
+      res.status(HttpStatus.ACCEPTED);
+      return reference;
+    }
+
+    const job = await this.jobsService.wait(reference.jobId);
+    if (job.error) {
+      throw new HttpException(
+        (job.error.details as Record<string, unknown> | undefined) ??
+          job.error.message,
+        job.error.statusCode ?? HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+    return job.result;
+  }
+
+  @Post(':subdomain/canary')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Iniciar un canary: una nueva imagen recibe un porcentaje del tráfico',
+    description:
+      'El canary arranca en el color libre con la especificación del despliegue estable y, cuando está listo, ' +
+      'Nginx le envía `weight`% de las peticiones. Mientras esté activo no se permiten despliegues, rollbacks, ' +
+      'escalados ni acciones de ciclo de vida: hay que promoverlo o abortarlo.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién lanza el canary. Se guarda en la revisión si se promueve',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Canary encolado; se ejecuta en serie con los despliegues del subdominio',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Ya hay un canary activo para el subdominio',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  startCanary(
+    @Param('subdomain') subdomain: string,
+    @Body() canaryDto: CanaryDto,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.queueCanary(
+      subdomain,
+      {
+        imageName: canaryDto.imageName,
+        weight: canaryDto.weight ?? 10,
+        env: canaryDto.env,
+        healthCheck: canaryDto.healthCheck,
+      },
+      deployedBy || 'api',
+    );
+  }
+
+  @Patch(':subdomain/canary')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cambiar el porcentaje del tráfico que recibe el canary',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Cambio de peso encolado',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El subdominio no existe o no tiene un canary activo',
+  })
+  updateCanaryWeight(
+    @Param('subdomain') subdomain: string,
+    @Body() weightDto: CanaryWeightDto,
+  ) {
+    return this.deployService.queueCanaryWeight(subdomain, weightDto.weight);
+  }
+
+  @Post(':subdomain/canary/promote')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Promover el canary: su imagen pasa a servir todo el tráfico',
+    description:
+      'Retira el canary y despliega su imagen (fijada por digest) con blue/green y el número de réplicas del estable. ' +
+      'El resultado queda registrado como una nueva revisión.',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién promueve el canary. Se guarda en el historial de revisiones',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Promoción encolada',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El subdominio no existe o no tiene un canary activo',
+  })
+  promoteCanary(
+    @Param('subdomain') subdomain: string,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.queueCanaryPromotion(
+      subdomain,
+      deployedBy || 'api',
+    );
+  }
+
+  @Delete(':subdomain/canary')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Abortar el canary: todo el tráfico vuelve a las réplicas estables',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Aborto encolado',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El subdominio no existe o no tiene un canary activo',
+  })
+  abortCanary(@Param('subdomain') subdomain: string) {
+    return this.deployService.queueCanaryAbort(subdomain);
+  }
+
+  @Post(':subdomain/rollback')
+  @UseGuards(OrchestratorTokenGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Volver a desplegar una revisión anterior (por defecto, la previa a la activa)',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién lanza el rollback. Se guarda en el historial de revisiones',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Rollback encolado. Al completarse crea una nueva revisión a partir de la restaurada',
+    schema: JOB_REFERENCE_SCHEMA,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'La revisión no existe, falló en su momento o ya es la activa',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No se encontró un despliegue para el subdominio especificado',
+  })
+  rollback(
+    @Param('subdomain') subdomain: string,
+    @Body() rollbackDto: RollbackDto,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.queueRollback(
+      subdomain,
+      rollbackDto.revision,
+      deployedBy || 'api',
+    );
+  }
+
+  @Get(':subdomain/env')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Variables de entorno y secrets de un despliegue (sin los valores de los secrets)',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Variables en texto plano y nombres de los secrets',
+    schema: {
+      type: 'object',
+      properties: {
+        subdomain: { type: 'string' },
+        env: { type: 'object', additionalProperties: { type: 'string' } },
+        secrets: { type: 'array', items: { type: 'string' } },
+        updatedAt: { type: 'string', format: 'date-time', nullable: true },
+      },
+    },
+  })
+  getEnv(@Param('subdomain') subdomain: string) {
+    return this.deployService.getEnv(subdomain);
+  }
+
+  @Put(':subdomain/env')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Añadir o reemplazar variables y secrets, y encolar el redespliegue de la imagen actual',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Entorno actualizado. Si el subdominio está desplegado, `job` referencia el redespliegue encolado',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Nombres de variables inválidos',
+  })
+  updateEnv(
+    @Param('subdomain') subdomain: string,
+    @Body() updateEnvDto: UpdateEnvDto,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.updateEnv(
+      subdomain,
+      updateEnvDto.env,
+      updateEnvDto.secrets,
+      deployedBy || 'api',
+    );
+  }
+
+  @Delete(':subdomain/env/:key')
+  @UseGuards(OrchestratorTokenGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Eliminar una variable o secret y encolar el redespliegue de la imagen actual',
+  })
+  @ApiParam({
+    name: 'subdomain',
+    description: 'El subdominio del despliegue (sin el dominio base)',
+    example: 'cliente1',
+  })
+  @ApiParam({
+    name: 'key',
+    description: 'Nombre de la variable o secret',
+    example: 'LOG_LEVEL',
+  })
+  @ApiResponse({ status: 200, description: 'Variable eliminada' })
+  @ApiResponse({
+    status: 404,
+    description: 'La variable no existe para el subdominio',
+  })
+  removeEnv(
+    @Param('subdomain') subdomain: string,
+    @Param('key') key: string,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    return this.deployService.removeEnv(subdomain, key, deployedBy || 'api');
+  }
 }
@@ -1,14 +1,42 @@
 import { Module } from '@nestjs/common';
 import { DeployService } from './deploy.service';
 import { GithubService } from './github.service';
+import { HealthCheckService } from './health-check.service';
+import { PortLeaseService } from './port-lease.service';
+import { ResourceLimitsService } from './resource-limits.service';
+import { ContainerEventsService } from './container-events.service';
+import { ReconcilerService } from './reconciler.service';
 import { DeployController } from './deploy.controller';
 import { OrchestratorTokenGuard } from './guards/orchestrator-token.guard';
 import { NginxModule } from '../nginx/nginx.module';
+import { StoreModule } from '../store/store.module';
+import { SecretsModule } from '../secrets/secrets.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { RegistriesModule } from '../registries/registries.module';
+import { PolicyModule } from '../policy/policy.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [NginxModule], // Importar NginxModule para usar NginxService
+  imports: [
+    NginxModule,
+    StoreModule,
+    SecretsModule,
+    JobsModule,
+    RegistriesModule,
+    PolicyModule,
+    NotificationsModule,
+  ], // Importar NginxModule para usar NginxService
   controllers: [DeployController],
-  providers: [DeployService, GithubService, OrchestratorTokenGuard],
+  providers: [
+    DeployService,
+    GithubService,
+    HealthCheckService,
+    PortLeaseService,
+    ResourceLimitsService,
+    ContainerEventsService,
+    ReconcilerService,
+    OrchestratorTokenGuard,
+  ],
   exports: [DeployService, GithubService], // Exportar para que otros módulos puedan usarlos
 })
 export class DeployModule {}
@@ -0,0 +1,450 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeployService } from './deploy.service';
+import { DeploySpec } from './deploy.types';
+import {
+  HealthCheckFailedError,
+  HealthCheckService,
+} from './health-check.service';
+import { PortLeaseService } from './port-lease.service';
+import { ResourceLimitsService } from './resource-limits.service';
+import { ContainerEventsService } from './container-events.service';
+import { NginxService } from '../nginx/nginx.service';
+import { StoreService } from '../store/store.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import { SecretsService } from '../secrets/secrets.service';
+import { JobsService } from '../jobs/jobs.service';
+import { RegistriesService } from '../registries/registries.service';
+import { PolicyService } from '../policy/policy.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { JobContext } from '../jobs/jobs.types';
+
+interface FakeContainer {
+  id: string;
+  name: string;
+  image: string;
+  labels: Record<string, string>;
+  state: 'created' | 'running' | 'exited';
+  removed: boolean;
+}
+
+// Daemon de Docker simulado: contenedores e imágenes en memoria
+const mockDocker = {
+  containers: [] as FakeContainer[],
+  images: {} as Record<string, { Id: string; RepoDigests: string[] }>,
+  pulled: [] as string[],
+  created: [] as { Image: string; name: string }[],
+};
+
+const notFound = () => Object.assign(new Error('no such'), { statusCode: 404 });
+
+const containerHandle = (idOrName: string) => {
+  const find = () =>
+    mockDocker.containers.find(
+      (item) =>
+        !item.removed && (item.id === idOrName || item.name === idOrName),
+    );
+  return {
+    id: idOrName,
+    inspect: () => {
+      const container = find();
+      return container
+        ? Promise.resolve({
+            Id: container.id,
+            State: {
+              Status: container.state,
+              Running: container.state === 'running',
+              Restarting: false,
+              ExitCode: 0,
+            },
+          })
+        : Promise.reject(notFound());
+    },
+    start: () => {
+      find()!.state = 'running';
+      return Promise.resolve();
+    },
+    stop: () => {
+      find()!.state = 'exited';
+      return Promise.resolve();
+    },
+    remove: () => {
+      const container = find();
+      if (container) {
+        container.removed = true;
+      }
+      return Promise.resolve();
+    },
+    logs: () => Promise.resolve(Buffer.alloc(0)),
+  };
+};
+
+jest.mock('dockerode', () =>
+  jest.fn(() => ({
+    ping: () => Promise.resolve('OK'),
+    listContainers: () =>
+      Promise.resolve(
+        mockDocker.containers
+          .filter((container) => !container.removed)
+          .map((container) => ({
+            Id: container.id,
+            Names: [`/${container.name}`],
+            Image: container.image,
+            Labels: container.labels,
+            State: container.state,
+            Status: container.state,
+            Ports: [],
+          })),
+      ),
+    getContainer: containerHandle,
+    createContainer: (options: {
+      Image: string;
+      name: string;
+      Labels: Record<string, string>;
+    }) => {
+      const id = `container-${mockDocker.containers.length + 1}`;
+      mockDocker.created.push({ Image: options.Image, name: options.name });
+      mockDocker.containers.push({
+        id,
+        name: options.name,
+        image: options.Image,
+        labels: options.Labels,
+        state: 'created',
+        removed: false,
+      });
+      return Promise.resolve(containerHandle(id));
+    },
+    getImage: (imageRef: string) => ({
+      inspect: () =>
+        imageRef in mockDocker.images
+          ? Promise.resolve({ ...mockDocker.images[imageRef], Size: 1024 })
+          : Promise.reject(notFound()),
+    }),
+    pull: (
+      imageRef: string,
+      _options: unknown,
+      callback: (error: Error | null, stream: unknown) => void,
+    ) => {
+      mockDocker.pulled.push(imageRef);
+      callback(null, {});
+    },
+    modem: {
+      followProgress: (
+        _stream: unknown,
+        onFinished: (error: Error | null) => void,
+      ) => onFinished(null),
+    },
+    getNetwork: () => ({ inspect: () => Promise.resolve({}) }),
+    listVolumes: () => Promise.resolve({ Volumes: [] }),
+    df: () => Promise.resolve({ Volumes: [] }),
+  })),
+);
+
+describe('DeployService', () => {
+  let service: DeployService;
+  let deploymentStore: DeploymentStoreService;
+  let healthCheckService: HealthCheckService;
+  let dataDir: string;
+  let nginxService: {
+    createProxyConfig: jest.Mock;
+    removeProxyConfig: jest.Mock;
+  };
+  let secretsService: {
+    resolveContainerEnv: jest.Mock;
+    upsert: jest.Mock;
+    removeAll: jest.Mock;
+  };
+  let jobs: ((job: JobContext) => Promise<unknown>)[];
+  let enqueue: jest.Mock;
+  const jobContext: JobContext = {
+    id: 'job-1',
+    step: jest.fn(),
+    progress: jest.fn(),
+    log: jest.fn(),
+  };
+
+  const spec = (imageName: string): DeploySpec => ({
+    imageName,
+    subdomain: 'app',
+    internalPort: 3000,
+    healthCheck: { path: '/health' },
+  });
+
+  // Imagen de un registro con su digest inmutable
+  const publishImage = (tag: string, digest: string) => {
+    const info = {
+      Id: `sha256:id-${tag}`,
+      RepoDigests: [`usuario/app@sha256:${digest}`],
+    };
+    mockDocker.images[`usuario/app:${tag}`] = info;
+    mockDocker.images[`usuario/app@sha256:${digest}`] = info;
+  };
+
+  const liveContainers = () =>
+    mockDocker.containers
+      .filter((container) => !container.removed)
+      .map((container) => container.name);
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      DEPLOY_DRAIN_SECONDS: '0',
+    };
+    mockDocker.containers = [];
+    mockDocker.images = {};
+    mockDocker.pulled = [];
+    mockDocker.created = [];
+    jobs = [];
+    publishImage('v1', 'aaa');
+    publishImage('v2', 'bbb');
+
+    nginxService = {
+      createProxyConfig: jest.fn().mockResolvedValue(undefined),
+      removeProxyConfig: jest.fn().mockResolvedValue(undefined),
+    };
+    enqueue = jest.fn(
+      (options: { run: (job: JobContext) => Promise<unknown> }) => {
+        jobs.push(options.run);
+        return { id: 'job-1' };
+      },
+    );
+    secretsService = {
+      resolveContainerEnv: jest.fn(() => []),
+      upsert: jest.fn(() => ({})),
+      removeAll: jest.fn(),
+    };
+    let nextPort = 10000;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeployService,
+        HealthCheckService,
+        ResourceLimitsService,
+        StoreService,
+        DeploymentStoreService,
+        { provide: NginxService, useValue: nginxService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: SecretsService, useValue: secretsService },
+        {
+          provide: JobsService,
+          useValue: {
+            enqueue,
+            toReference: jest.fn((job: { id: string }) => ({
+              jobId: job.id,
+            })),
+          },
+        },
+        {
+          provide: PortLeaseService,
+          useValue: {
+            acquire: jest.fn(() => Promise.resolve(nextPort++)),
+            release: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: RegistriesService,
+          useValue: { resolveAuth: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: PolicyService,
+          useValue: {
+            assertAllowed: jest.fn(),
+            assertImageSize: jest.fn(),
+            getPolicy: () => ({ maxImageSizeMb: null }),
+          },
+        },
+        { provide: ContainerEventsService, useValue: { clear: jest.fn() } },
+        { provide: NotificationsService, useValue: { notify: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DeployService>(DeployService);
+    deploymentStore = module.get<DeploymentStoreService>(
+      DeploymentStoreService,
+    );
+    healthCheckService = module.get<HealthCheckService>(HealthCheckService);
+    jest
+      .spyOn(healthCheckService, 'waitForHealthy')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should switch nginx to the new color and drain the previous one', async () => {
+    const first = await service.deploy(spec('usuario/app:v1'));
+    const second = await service.deploy(spec('usuario/app:v2'));
+
+    expect(nginxService.createProxyConfig.mock.calls).toEqual([
+      ['app', [first.hostPort], 'round_robin', { requireReload: true }],
+      ['app', [second.hostPort], 'round_robin', { requireReload: true }],
+    ]);
+    expect(liveContainers()).toEqual([second.containerName]);
+    expect(deploymentStore.getDeployment('app')).toMatchObject({
+      imageName: 'usuario/app:v2',
+      imageDigest: 'usuario/app@sha256:bbb',
+      revision: 2,
+    });
+  });
+
+  it('should not switch nginx and remove the new color when it fails its readiness check', async () => {
+    const first = await service.deploy(spec('usuario/app:v1'));
+    nginxService.createProxyConfig.mockClear();
+    jest
+      .spyOn(healthCheckService, 'waitForHealthy')
+      .mockRejectedValue(
+        new HealthCheckFailedError('GET /health respondió 500', 3, '500'),
+      );
+
+    await expect(service.deploy(spec('usuario/app:v2'))).rejects.toThrow(
+      BadRequestException,
+    );
+
+    expect(nginxService.createProxyConfig).not.toHaveBeenCalled();
+    expect(mockDocker.created).toHaveLength(2);
+    expect(liveContainers()).toEqual([first.containerName]);
+    expect(deploymentStore.getDeployment('app')).toMatchObject({
+      imageName: 'usuario/app:v1',
+      containerId: first.containerId,
+      revision: 1,
+    });
+    expect(deploymentStore.listRevisions('app')).toMatchObject([
+      { revision: 2, status: 'failed', error: 'GET /health respondió 500' },
+      { revision: 1, status: 'active' },
+    ]);
+  });
+
+  it('should keep the previous color serving when nginx rejects the switch', async () => {
+    const first = await service.deploy(spec('usuario/app:v1'));
+    nginxService.createProxyConfig.mockRejectedValueOnce(
+      new Error('No se pudo aplicar la configuración de Nginx para app'),
+    );
+
+    await expect(service.deploy(spec('usuario/app:v2'))).rejects.toThrow(
+      BadRequestException,
+    );
+
+    expect(liveContainers()).toEqual([first.containerName]);
+    expect(deploymentStore.getDeployment('app')).toMatchObject({
+      imageName: 'usuario/app:v1',
+      revision: 1,
+    });
+  });
+
+  it('should keep the new color once traffic has moved even if recording the deploy fails', async () => {
+    const first = await service.deploy(spec('usuario/app:v1'));
+    jest.spyOn(deploymentStore, 'saveDeployment').mockImplementationOnce(() => {
+      throw new Error('EACCES: permission denied');
+    });
+
+    await expect(service.deploy(spec('usuario/app:v2'))).rejects.toThrow(
+      BadRequestException,
+    );
+
+    const [, switchedTo] = nginxService.createProxyConfig.mock.calls.at(-1) as [
+      string,
+      number[],
+    ];
+    const serving = mockDocker.containers.find(
+      (container) => container.id !== first.containerId,
+    );
+    expect(serving).toMatchObject({ removed: false, state: 'running' });
+    expect(switchedTo).not.toEqual([first.hostPort]);
+    // Sin confirmar el registro no se drena: la réplica anterior sigue disponible
+    expect(liveContainers()).toHaveLength(2);
+  });
+
+  it('should not treat the replicas of another subdomain as legacy containers', async () => {
+    // La réplica azul de `app` se llama igual que el contenedor legacy de `app-blue`
+    await service.deploy(spec('usuario/app:v1'));
+    const app = await service.deploy(spec('usuario/app:v2'));
+    const appBlue = await service.deploy({
+      ...spec('usuario/app:v1'),
+      subdomain: 'app-blue',
+    });
+
+    expect(liveContainers()).toEqual([
+      app.containerName,
+      appBlue.containerName,
+    ]);
+  });
+
+  it('should add a new secret to an explicit secrets list before redeploying', async () => {
+    await service.deploy({
+      ...spec('usuario/app:v1'),
+      env: { LOG_LEVEL: 'info', API_KEY: 'en-claro' },
+      secrets: ['DB_PASSWORD'],
+    });
+
+    service.updateEnv('app', undefined, { API_KEY: 'secreto' });
+    await jobs[0](jobContext);
+
+    expect(deploymentStore.getDeployment('app')?.spec).toMatchObject({
+      env: { LOG_LEVEL: 'info' },
+      secrets: ['DB_PASSWORD', 'API_KEY'],
+    });
+    expect(secretsService.resolveContainerEnv).toHaveBeenLastCalledWith(
+      'app',
+      { LOG_LEVEL: 'info' },
+      ['DB_PASSWORD', 'API_KEY'],
+    );
+  });
+
+  it('should queue the removal under the subdomain key and refuse stack services', async () => {
+    const { containerName } = await service.deploy(spec('usuario/app:v1'));
+
+    service.queueRemoveDeployment('app');
+    expect(liveContainers()).toEqual([containerName]);
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'remove', key: 'app' }),
+    );
+
+    await jobs[0](jobContext);
+    expect(liveContainers()).toEqual([]);
+    expect(deploymentStore.getDeployment('app')).toBeNull();
+
+    await service.deploy({
+      ...spec('usuario/app:v1'),
+      subdomain: 'tienda-api',
+      stack: { name: 'tienda', service: 'api', exposed: false },
+    });
+    expect(() => service.queueRemoveDeployment('tienda-api')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should roll back to the recorded digest without pulling it again', async () => {
+    await service.deploy(spec('usuario/app:v1'));
+    await service.deploy(spec('usuario/app:v2'));
+    // El tag v1 ya apunta a otra imagen en el registro: el rollback no debe usarlo
+    delete mockDocker.images['usuario/app:v1'];
+    mockDocker.pulled = [];
+
+    service.queueRollback('app', undefined, 'ci');
+    await jobs[0](jobContext);
+
+    expect(mockDocker.pulled).toEqual([]);
+    expect(mockDocker.created.at(-1)?.Image).toBe('usuario/app@sha256:aaa');
+    expect(deploymentStore.getDeployment('app')).toMatchObject({
+      imageName: 'usuario/app:v1',
+      imageDigest: 'usuario/app@sha256:aaa',
+      revision: 3,
+      deployedBy: 'ci',
+    });
+    expect(deploymentStore.listRevisions('app')[0]).toMatchObject({
+      revision: 3,
+      status: 'active',
+      rollbackOf: 1,
+    });
+  });
+});
@@ -1,26 +1,165 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as Docker from 'dockerode';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PassThrough, Readable } from 'stream';
+import { Observable } from 'rxjs';
 import { NginxService } from '../nginx/nginx.service';
+import {
+  CONTAINER_PREFIX,
+  DeploymentColor,
+  getBuildRepository,
+  getContainerName,
+  getNetworkName,
+  getReplicaSlot,
+  getVolumeName,
+  LABEL_COLOR,
+  LABEL_MANAGED,
+  LABEL_REPLICA,
+  LABEL_SUBDOMAIN,
+  LABEL_TASK,
+  LABEL_VOLUME,
+  TASK_CONTAINER_PREFIX,
+} from './deploy.constants';
+import {
+  BuildSource,
+  BuildSpec,
+  CanarySpec,
+  CommandResult,
+  ContainerEventRecord,
+  ContainerLogLine,
+  ContainerLogsOptions,
+  DeployOptions,
+  DeploySpec,
+  DockerPullEvent,
+  ExecSpec,
+  ExpectedProxy,
+  HealthCheckSpec,
+  LifecycleAction,
+  ResolvedDeploySpec,
+  ResourceLimits,
+  TaskContainerResult,
+  TaskContainerSpec,
+  VolumeMount,
+} from './deploy.types';
+import {
+  HealthCheckFailedError,
+  HealthCheckService,
+} from './health-check.service';
+import {
+  ContainerEventsService,
+  DockerEventMessage,
+} from './container-events.service';
+import { demuxDockerLogs } from './docker-logs.util';
+import { createBaseImageReader } from './dockerfile.util';
+import { PortLeaseService } from './port-lease.service';
+import { ResourceLimitsService } from './resource-limits.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import {
+  BuildRecord,
+  CanaryRecord,
+  DeploymentRecord,
+  ReplicaRecord,
+} from '../store/store.types';
+import { SecretsService } from '../secrets/secrets.service';
+import { JobsService } from '../jobs/jobs.service';
+import { RegistriesService } from '../registries/registries.service';
+import { PolicyService } from '../policy/policy.service';
+import { PolicyInput } from '../policy/policy.types';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LOCAL_BUILD_HOST } from '../registries/registry-host.util';
+import { JobContext, JobReference } from '../jobs/jobs.types';
+
+// Texto de cada acción de ciclo de vida en trabajos y logs
+const LIFECYCLE_DESCRIPTIONS: Record<LifecycleAction, string> = {
+  stop: 'Detener',
+  start: 'Arrancar',
+  restart: 'Reiniciar',
+  pause: 'Pausar',
+};
+
+// Líneas de salida que se conservan de un comando ejecutado en un contenedor
+const EXEC_OUTPUT_LINES = 500;
+// Espera antes de reconectar al stream de eventos de Docker
+const EVENTS_RETRY_MS = 10 * 1000;
+// Líneas del log de una build que se conservan en su registro
+const BUILD_LOG_LINES = 200;
+
+/**
+ * Origen de una build traducido a lo que espera la API de Docker
+ */
+interface ResolvedBuildSource {
+  // Repositorio y ref, o el contexto subido (sin credenciales)
+  description: string;
+  // URL remota `<repositorio>.git#<ref>:<ruta>` que descarga el daemon
+  remote?: string;
+  // Tarball subido con POST /deploy/build/contexts
+  contextPath?: string;
+  // Token incluido en la URL remota, que se oculta en el log
+  secret?: string;
+}
+
+/**
+ * Error del hook previo a la conmutación (conserva la salida del comando para el diagnóstico)
+ */
+class PreSwitchHookFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly output: string[],
+  ) {
+    super(message);
+    this.name = 'PreSwitchHookFailedError';
+  }
+}
 
 @Injectable()
-export class DeployService {
+export class DeployService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(DeployService.name);
   private docker: Docker;
+  // Stream de eventos de Docker del monitor de contenedores
+  private eventsStream: Readable | null = null;
+  private eventsRetry: NodeJS.Timeout | undefined;
+  private destroyed = false;
 
   constructor(
     private nginxService: NginxService,
     private configService: ConfigService,
+    private healthCheckService: HealthCheckService,
+    private deploymentStore: DeploymentStoreService,
+    private secretsService: SecretsService,
+    private jobsService: JobsService,
+    private portLeases: PortLeaseService,
+    private resourceLimits: ResourceLimitsService,
+    private registries: RegistriesService,
+    private policy: PolicyService,
+    private containerEvents: ContainerEventsService,
+    private notifications: NotificationsService,
   ) {
     // Inicializar Docker client
     // Detectar la configuración correcta según el sistema operativo
     // Nota: En desarrollo (Windows) usará Docker Desktop, en producción (EC2 Linux) usará el socket Unix
-    const dockerSocketPath = this.configService.get('DOCKER_SOCKET_PATH');
-    const dockerHost = this.configService.get('DOCKER_HOST');
-    
+    const dockerSocketPath =
+      this.configService.get<string>('DOCKER_SOCKET_PATH');
+    const dockerHost = this.configService.get<string>('DOCKER_HOST');
+
     if (dockerSocketPath) {
       // Si está configurado explícitamente, usarlo (útil para override en producción)
-      this.logger.log(`Usando socket de Docker configurado: ${dockerSocketPath}`);
+      this.logger.log(
+        `Usando socket de Docker configurado: ${dockerSocketPath}`,
+      );
       this.docker = new Docker({ socketPath: dockerSocketPath });
     } else if (dockerHost) {
       // Si está configurado DOCKER_HOST (para TCP o remote), usarlo
@@ -29,305 +168,3492 @@ export class DeployService {
     } else {
       // Detectar automáticamente según el sistema operativo
       const isWindows = process.platform === 'win32';
-      const defaultSocket = isWindows 
+      const defaultSocket = isWindows
         ? '\\\\.\\pipe\\docker_engine' // Named pipe de Docker Desktop en Windows
         : '/var/run/docker.sock'; // Unix socket en Linux (EC2)
-      
+
       this.logger.log(
         `Sistema detectado: ${process.platform} (${isWindows ? 'Windows - Desarrollo' : 'Linux - Producción'}), ` +
-        `usando socket: ${defaultSocket}`
+          `usando socket: ${defaultSocket}`,
       );
       this.docker = new Docker({ socketPath: defaultSocket });
     }
   }
 
   /**
-   * Despliega un microservicio desde una imagen de Docker
-   * @param imageName - Nombre de la imagen (ej: 'usuario/imagen:tag')
-   * @param subdomain - Subdominio para el proxy (ej: 'cliente1')
-   * @param internalPort - Puerto interno del contenedor
+   * Despliega un microservicio desde una imagen de Docker usando blue/green:
+   * el contenedor nuevo arranca junto al actual en otro puerto del host y el tráfico
+   * sólo se conmuta cuando está listo. Si algo falla, el contenedor actual sigue sirviendo.
+   * @param spec - Imagen, subdominio, puerto interno y health check opcional
+   * @param options - Autor del despliegue y, en rollbacks, la imagen fijada por digest
    * @returns Información del despliegue
    */
-  async deploy(imageName: string, subdomain: string, internalPort: number) {
-    this.logger.log(`Iniciando despliegue de ${imageName} para subdominio ${subdomain}`);
+  async deploy(spec: DeploySpec, options: DeployOptions = {}) {
+    const { imageName, subdomain, internalPort } = spec;
+    const deployedBy = options.deployedBy || 'api';
+    // Referencia que se descarga y ejecuta: el digest en rollbacks, el nombre en el resto
+    const imageRef = options.imageRef || imageName;
+    this.assertValidKind(spec);
+    this.assertReplicaCount(spec.replicas ?? 1);
+    this.assertValidVolumes(spec.volumes);
+    if (spec.preSwitch) {
+      this.assertValidCommand(spec.preSwitch.command);
+    }
+    // La especificación efectiva es la que se guarda en la revisión
+    const effectiveSpec = this.resolveSpec(spec);
+    const { healthCheck, resources, replicas: replicaCount } = effectiveSpec;
+    const job = options.job;
+    this.assertNoCanary(this.deploymentStore.getDeployment(subdomain));
+    // La política se evalúa también al encolar; aquí cubre rollbacks y redespliegues con la política vigente
+    this.policy.assertAllowed({ subdomain, imageName, imageRef });
+    this.logger.log(
+      `Iniciando despliegue de ${imageName} para subdominio ${subdomain} (por ${deployedBy})`,
+    );
+    void this.notifications.notify(
+      options.rollbackOf !== undefined ? 'deploy.rollback' : 'deploy.started',
+      {
+        subject: subdomain,
+        message:
+          options.rollbackOf !== undefined
+            ? `Rollback de ${subdomain} a la revisión ${options.rollbackOf} (por ${deployedBy})`
+            : `Desplegando ${imageName} en ${subdomain} (por ${deployedBy})`,
+        data: {
+          subdomain,
+          imageName,
+          imageRef,
+          deployedBy,
+          rollbackOf: options.rollbackOf ?? null,
+        },
+      },
+    );
+
+    job?.step('preparing', `Preparando el despliegue de ${imageName}`);
+    await this.ensureDockerConnection();
+
+    const created: Docker.Container[] = [];
+    // Réplica que se estaba arrancando o verificando cuando falló el despliegue
+    let failing: Docker.Container | null = null;
+    let image: {
+      digest: string | null;
+      id: string | null;
+      size: number | null;
+    } = { digest: null, id: null, size: null };
+    // Tras conmutar el proxy, las réplicas nuevas sirven tráfico y ya no se descartan
+    let switched = false;
 
-    // Verificar conexión con Docker antes de continuar
     try {
-      await this.docker.ping();
-    } catch (error) {
-      const errorMessage = (error as Error).message;
-      this.logger.error(`No se pudo conectar con Docker: ${errorMessage}`);
-      
-      const platform = process.platform;
-      let suggestion = '';
-      
-      if (platform === 'win32') {
-        suggestion = 
-          'En Windows (desarrollo), asegúrate de que Docker Desktop esté corriendo y arrancado. ' +
-          'Verifica en la bandeja del sistema que Docker Desktop esté activo. ' +
-          'Si usas WSL2, puedes configurar DOCKER_SOCKET_PATH=/var/run/docker.sock en tu .env. ' +
-          'Nota: En producción (EC2 Linux) se usará automáticamente /var/run/docker.sock';
-      } else if (platform === 'linux') {
-        suggestion = 
-          'En Linux, verifica que Docker esté corriendo y que tengas permisos para acceder a /var/run/docker.sock. ' +
-          'Puedes agregar tu usuario al grupo docker: sudo usermod -aG docker $USER';
-      } else {
-        suggestion = 
-          'Verifica que Docker esté corriendo y accesible. ' +
-          'Configura DOCKER_SOCKET_PATH o DOCKER_HOST en tu .env si es necesario';
+      // 1. Detectar los contenedores que están sirviendo actualmente (si existen)
+      // No se tocan hasta que las nuevas réplicas estén listas
+      const activeContainers = await this.findSubdomainContainers(subdomain);
+      // Un despliegue detenido o en pausa sigue contando como actual para alternar el color
+      const currentId =
+        this.deploymentStore.getDeployment(subdomain)?.containerId;
+      const current =
+        activeContainers.find((container) => container.State === 'running') ??
+        activeContainers.find((container) => container.Id === currentId);
+      const currentColor = current?.Labels?.[LABEL_COLOR] as
+        | DeploymentColor
+        | undefined;
+      const color: DeploymentColor =
+        currentColor === 'green' ? 'blue' : 'green';
+
+      if (current) {
+        this.logger.log(
+          `Contenedor activo: ${current.Names?.[0]?.replace('/', '')}. Nuevo despliegue en color ${color}`,
+        );
       }
-      
-      throw new BadRequestException(
-        `No se pudo conectar con Docker: ${errorMessage}. ${suggestion}`
-      );
-    }
 
-    try {
-      // 1. Verificar si el contenedor ya existe y detenerlo/eliminarlo si es necesario
-      const existingContainerName = `container-${subdomain}`;
-      try {
-        const existingContainer = this.docker.getContainer(existingContainerName);
-        const containerInfo = await existingContainer.inspect();
-        
-        if (containerInfo.State.Running) {
-          this.logger.log(`Deteniendo contenedor existente: ${existingContainerName}`);
-          await existingContainer.stop();
-        }
-        
-        this.logger.log(`Eliminando contenedor existente: ${existingContainerName}`);
-        await existingContainer.remove();
-      } catch (error: any) {
-        // Si el contenedor no existe, continuar normalmente
-        if (error.statusCode !== 404) {
-          this.logger.warn(`Error al verificar contenedor existente: ${error.message}`);
-        }
+      // Restos de un intento fallido anterior con el mismo color
+      const leftovers = activeContainers.filter(
+        (container) => container.Labels?.[LABEL_COLOR] === color,
+      );
+      for (const leftover of leftovers) {
+        await this.removeContainerIfExists(leftover.Id);
       }
+      const previous = activeContainers.filter(
+        (container) => !leftovers.includes(container),
+      );
 
-      // 2. Preparar autenticación con Docker Hub si las credenciales están configuradas
-      const dockerhubUsername = this.configService.get('DOCKERHUB_USERNAME');
-      const dockerhubToken = this.configService.get('DOCKERHUB_TOKEN');
-      
-      const authconfig = dockerhubUsername && dockerhubToken
-        ? {
-            username: dockerhubUsername,
-            password: dockerhubToken,
-            serveraddress: 'https://index.docker.io/v1/',
-          }
-        : undefined;
+      // 2. Resolver variables de entorno y secrets antes de descargar nada
+      // (los valores de los secrets nunca se escriben en los logs)
+      const containerEnv = this.secretsService.resolveContainerEnv(
+        subdomain,
+        spec.env,
+        spec.secrets,
+      );
+      this.logger.log(
+        `Variables de entorno para ${subdomain}: ${containerEnv.length}`,
+      );
 
-      if (authconfig) {
-        this.logger.log('Usando credenciales de Docker Hub para autenticación');
-      } else {
-        this.logger.warn('DOCKERHUB_USERNAME o DOCKERHUB_TOKEN no están configurados. Intentando pull sin autenticación (puede fallar para imágenes privadas)...');
+      // 3. Descargar la imagen (o reutilizar la local si está fijada por digest)
+      job?.step('pulling', `Descargando ${imageRef}`);
+      // Digest inmutable de la imagen descargada (para el historial de revisiones)
+      image = await this.pullImageWithinPolicy(
+        { subdomain, imageName, imageRef },
+        imageRef,
+        job,
+      );
+      this.logger.log(`Digest de la imagen: ${image.digest ?? image.id}`);
+
+      // 4. Crear e iniciar las réplicas con los límites de recursos del despliegue
+      // Cada réplica reserva su propio puerto, que conserva entre redespliegues
+      this.logger.log(
+        `Creando ${replicaCount} réplica(s) en color ${color} con límite de memoria: ${resources.memoryMb}MB` +
+          (resources.cpus !== null ? `, CPU: ${resources.cpus}` : '') +
+          `, reinicio: ${resources.restartPolicy}`,
+      );
+
+      const replicas: ReplicaRecord[] = [];
+      for (let index = 0; index < replicaCount; index++) {
+        const { container, replica } = await this.createReplica(
+          effectiveSpec,
+          color,
+          index,
+          {
+            imageRef,
+            env: containerEnv,
+            resources,
+          },
+        );
+        created.push(container);
+        replicas.push(replica);
+        job?.step(
+          'creating',
+          replica.hostPort === null
+            ? `Creando ${replica.containerName}`
+            : `Creando ${replica.containerName} en el puerto ${replica.hostPort}`,
+        );
+
+        failing = container;
+        await container.start();
+        failing = null;
+        this.logger.log(
+          `Contenedor iniciado: ${replica.containerName} (${container.id})`,
+        );
       }
 
-      // 3. Descargar la imagen de Docker Hub (o usar la local si existe)
-      this.logger.log(`Descargando imagen: ${imageName}`);
-      await new Promise<void>((resolve, reject) => {
-        this.docker.pull(imageName, authconfig ? { authconfig } : {}, (err: Error, stream: NodeJS.ReadableStream) => {
-          if (err) {
-            return reject(err);
-          }
+      // 5. Esperar a que todas las réplicas estén listas antes de enviarles tráfico
+      job?.step(
+        'health-check',
+        `Esperando a que ${replicaCount} réplica(s) estén listas`,
+      );
+      for (const [index, container] of created.entries()) {
+        failing = container;
+        await this.waitForContainerReady(
+          container,
+          replicas[index].hostPort,
+          healthCheck,
+        );
+        this.logger.log(
+          `Contenedor ${replicas[index].containerName} listo para recibir tráfico`,
+        );
+      }
+      failing = null;
 
-          this.docker.modem.followProgress(stream, (err: Error) => {
-            if (err) {
-              return reject(err);
-            }
-            this.logger.log(`Imagen ${imageName} descargada exitosamente`);
-            resolve();
-          }, (event: any) => {
-            // Log del progreso opcional
-            if (event.status && event.progress) {
-              this.logger.debug(`${event.status}: ${event.progress}`);
-            }
-          });
-        });
-      });
+      // 6. Hook previo a la conmutación (p. ej. migraciones) en la primera réplica nueva
+      // El tráfico sólo se mueve si el comando termina con código 0
+      if (spec.preSwitch) {
+        const hookTimeout =
+          spec.preSwitch.timeoutSeconds ?? this.getExecTimeoutSeconds();
+        job?.step(
+          'pre-switch',
+          `Ejecutando el hook previo a la conmutación: ${spec.preSwitch.command.join(' ')}`,
+        );
+        const hook = await this.runInContainer(
+          created[0],
+          spec.preSwitch.command,
+          hookTimeout,
+          job,
+        );
+        if (hook.exitCode !== 0) {
+          throw new PreSwitchHookFailedError(
+            hook.timedOut
+              ? `El hook previo a la conmutación superó el tiempo máximo de ${hookTimeout}s`
+              : `El hook previo a la conmutación terminó con el código de salida ${hook.exitCode}`,
+            hook.output,
+          );
+        }
+        this.logger.log(
+          `Hook previo a la conmutación de ${subdomain} completado en ${hook.durationMs}ms`,
+        );
+      }
 
-      // 4. Definir un puerto único en el host (rango 3003-4000)
-      // Verifica contenedores activos para evitar colisiones
-      const hostPort = await this.findAvailablePort(3003, 4000);
-      this.logger.log(`Asignando puerto del host: ${hostPort}`);
-
-      // 5. Crear el contenedor con límites de memoria (Vital para t3.micro)
-      const memoryLimit = this.configService.get<number>('CONTAINER_MEMORY_LIMIT_MB') || 256;
-      this.logger.log(`Creando contenedor con límite de memoria: ${memoryLimit}MB`);
-
-      const container = await this.docker.createContainer({
-        Image: imageName,
-        name: existingContainerName,
-        HostConfig: {
-          PortBindings: {
-            [`${internalPort}/tcp`]: [{ HostPort: `${hostPort}` }],
-          },
-          Memory: memoryLimit * 1024 * 1024, // Convertir MB a bytes
-          MemorySwap: memoryLimit * 2 * 1024 * 1024, // Permitir swap (el doble de la memoria) para evitar OOM Killer
-          RestartPolicy: { Name: 'unless-stopped' }, // Reiniciar automáticamente
-        },
-        ExposedPorts: {
-          [`${internalPort}/tcp`]: {},
-        },
-      });
+      // 7. Conmutar el tráfico: el upstream de Nginx apunta a las nuevas réplicas
+      // Los despliegues privados no tienen proxy; si antes eran públicos, se retira
+      const hostPorts = this.getHostPorts(replicas);
+      if (this.isPublic(effectiveSpec)) {
+        job?.step(
+          'switching',
+          `Conmutando el tráfico de ${subdomain} a los puertos ${hostPorts.join(', ')}`,
+        );
+        await this.nginxService.createProxyConfig(
+          subdomain,
+          hostPorts,
+          effectiveSpec.loadBalancing,
+          { requireReload: true },
+        );
+        this.logger.log(
+          `Configuración de Nginx actualizada para ${subdomain} -> ${hostPorts.join(', ')}`,
+        );
+      } else if (this.deploymentStore.getProxyRoute(subdomain)) {
+        job?.step('switching', `Retirando el proxy público de ${subdomain}`);
+        await this.nginxService.removeProxyConfig(subdomain);
+      }
+      // A partir de aquí las nuevas réplicas ya sirven tráfico: un fallo no revierte el despliegue
+      switched = true;
 
-      this.logger.log(`Contenedor creado: ${container.id}`);
+      // 8. Registrar la revisión y el estado actual del despliegue antes de drenar,
+      // para que el registro apunte a las réplicas que sirven aunque el drenaje se interrumpa
+      const record = this.recordSuccessfulDeploy(
+        effectiveSpec,
+        deployedBy,
+        options.rollbackOf,
+        {
+          imageDigest: image.digest,
+          imageId: image.id,
+          replicas,
+        },
+      );
 
-      // 6. Iniciar el contenedor
-      await container.start();
-      this.logger.log(`Contenedor iniciado exitosamente`);
+      // 9. Drenar y eliminar los contenedores anteriores
+      if (previous.length > 0) {
+        job?.step(
+          'draining',
+          `Drenando ${previous.length} contenedor(es) anteriores`,
+        );
+      }
+      await this.drainContainers(previous);
 
-      // 7. Configurar Nginx para el subdominio
-      await this.nginxService.createProxyConfig(subdomain, hostPort);
-      this.logger.log(`Configuración de Nginx creada para ${subdomain}`);
+      void this.notifications.notify('deploy.succeeded', {
+        subject: subdomain,
+        message: `${subdomain} desplegado con ${imageName} (revisión ${record.revision}, por ${deployedBy})`,
+        data: {
+          subdomain,
+          imageName,
+          imageDigest: image.digest,
+          revision: record.revision,
+          deployedBy,
+        },
+      });
 
       return {
         success: true,
-        url: `https://${subdomain}.boogiepop.cloud`,
-        containerId: container.id,
-        containerName: existingContainerName,
-        hostPort,
+        url: this.isPublic(effectiveSpec)
+          ? `https://${subdomain}.boogiepop.cloud`
+          : null,
+        internalUrl: internalPort
+          ? `http://${subdomain}:${internalPort}`
+          : null,
+        containerId: replicas[0].containerId,
+        containerName: replicas[0].containerName,
+        hostPort: replicas[0].hostPort,
+        hostPorts,
+        replicas: replicaCount,
         internalPort,
         imageName,
+        imageDigest: image.digest,
+        revision: record.revision,
       };
     } catch (error) {
-      this.logger.error(`Error durante el despliegue: ${(error as Error).message}`, (error as Error).stack);
-      throw new BadRequestException(
-        `Error al desplegar el microservicio: ${(error as Error).message}`,
+      this.logger.error(
+        `Error durante el despliegue: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      let logs: string[] = [];
+      if (switched) {
+        // El proxy ya apunta a las réplicas nuevas: se conservan, y las anteriores no se han drenado
+        this.logger.warn(
+          `${subdomain} ya sirve desde las réplicas nuevas; los contenedores anteriores siguen en marcha`,
+        );
+      } else {
+        job?.step(
+          'rolling-back',
+          'Descartando el intento fallido; los contenedores anteriores siguen sirviendo',
+        );
+
+        // Los contenedores anteriores nunca se tocaron: sólo limpiamos el intento fallido
+        // guardando antes las últimas líneas de log de la réplica que falló para el diagnóstico
+        if (error instanceof PreSwitchHookFailedError) {
+          logs = error.output;
+        } else if (failing) {
+          logs = await this.getContainerLogTail(failing);
+        }
+        for (const container of created) {
+          await this.discardContainer(container);
+        }
+      }
+
+      const message = `Error al desplegar el microservicio: ${(error as Error).message}`;
+      this.deploymentStore.addRevision(subdomain, {
+        spec: effectiveSpec,
+        imageName,
+        imageDigest: image.digest,
+        imageId: image.id,
+        status: 'failed',
+        containerId: null,
+        hostPort: null,
+        deployedBy,
+        deployedAt: new Date().toISOString(),
+        rollbackOf: options.rollbackOf,
+        error: (error as Error).message,
+      });
+      void this.notifications.notify('deploy.failed', {
+        subject: subdomain,
+        message: `Falló el despliegue de ${imageName} en ${subdomain}: ${(error as Error).message}`,
+        data: {
+          subdomain,
+          imageName,
+          deployedBy,
+          rollbackOf: options.rollbackOf ?? null,
+          error: (error as Error).message,
+        },
+      });
+
+      // Las violaciones de la política conservan su 403 con la regla incumplida
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      if (logs.length === 0) {
+        throw new BadRequestException(message);
+      }
+
+      throw new BadRequestException({
+        statusCode: 400,
+        error:
+          error instanceof HealthCheckFailedError
+            ? 'Health Check Failed'
+            : error instanceof PreSwitchHookFailedError
+              ? 'Pre-Switch Hook Failed'
+              : 'Bad Request',
+        message,
+        logs,
+      });
+    }
+  }
+
+  /**
+   * Crea (sin iniciar) el contenedor de una réplica en su puerto reservado
+   */
+  private async createReplica(
+    spec: DeploySpec,
+    color: DeploymentColor,
+    index: number,
+    runtime: { imageRef: string; env: string[]; resources: ResourceLimits },
+  ): Promise<{ container: Docker.Container; replica: ReplicaRecord }> {
+    const { subdomain, internalPort } = spec;
+    const containerName = getContainerName(subdomain, color, index);
+
+    // Restos de un contenedor con el mismo nombre que no estuviera etiquetado
+    await this.removeContainerIfExists(containerName);
+
+    // Los workers no publican puerto en el host
+    let hostPort: number | null = null;
+    if (!this.isWorker(spec)) {
+      hostPort = await this.allocateHostPort(
+        subdomain,
+        getReplicaSlot(color, index),
+      );
+      this.logger.log(
+        `Asignando puerto del host a ${containerName}: ${hostPort}`,
       );
     }
+
+    const volumes = spec.volumes ?? [];
+    await this.ensureVolumes(subdomain, volumes);
+    const network = await this.ensureNetwork(spec.network);
+
+    const container = await this.docker.createContainer({
+      Image: runtime.imageRef,
+      name: containerName,
+      Env: runtime.env,
+      Labels: {
+        [LABEL_MANAGED]: 'true',
+        [LABEL_SUBDOMAIN]: subdomain,
+        [LABEL_COLOR]: color,
+        [LABEL_REPLICA]: `${index}`,
+      },
+      HostConfig: {
+        // Los despliegues privados sólo publican el puerto en localhost (para el health check)
+        PortBindings:
+          hostPort === null
+            ? {}
+            : {
+                [`${internalPort}/tcp`]: [
+                  this.isPublic(spec)
+                    ? { HostPort: `${hostPort}` }
+                    : { HostIp: '127.0.0.1', HostPort: `${hostPort}` },
+                ],
+              },
+        NetworkMode: network,
+        // Todas las réplicas y colores montan los mismos volúmenes del subdominio
+        Mounts: volumes.map((volume) => ({
+          Type: 'volume' as const,
+          Source: getVolumeName(subdomain, volume.name),
+          Target: volume.mountPath,
+          ReadOnly: volume.readOnly ?? false,
+        })),
+        ...this.resourceLimits.toHostConfig(runtime.resources),
+      },
+      ExposedPorts: internalPort ? { [`${internalPort}/tcp`]: {} } : {},
+      // El subdominio es el nombre DNS del servicio dentro de la red privada
+      // (en un stack también responde al nombre del servicio, como en compose)
+      NetworkingConfig: {
+        EndpointsConfig: {
+          [network]: {
+            Aliases: spec.stack ? [subdomain, spec.stack.service] : [subdomain],
+          },
+        },
+      },
+    });
+
+    this.logger.log(`Contenedor creado: ${container.id}`);
+    return {
+      container,
+      replica: { index, containerId: container.id, containerName, hostPort },
+    };
   }
 
   /**
-   * Encuentra un puerto disponible en el rango especificado
-   * Verifica los contenedores activos para evitar colisiones de puertos
+   * Crea la red privada (bridge) de un grupo si todavía no existe
+   * @returns El nombre de la red
    */
-  private async findAvailablePort(min: number, max: number): Promise<number> {
+  private async ensureNetwork(group?: string): Promise<string> {
+    const networkName = this.resolveNetworkName(group);
+
     try {
-      // Obtener todos los contenedores activos
-      const containers = await this.docker.listContainers({ all: true });
-      
-      // Extraer todos los puertos en uso
-      const usedPorts = new Set<number>();
-      containers.forEach((container) => {
-        if (container.Ports) {
-          container.Ports.forEach((port) => {
-            if (port.PublicPort && port.PublicPort >= min && port.PublicPort <= max) {
-              usedPorts.add(port.PublicPort);
-            }
-          });
-        }
+      await this.docker.getNetwork(networkName).inspect();
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        throw error;
+      }
+
+      await this.docker.createNetwork({
+        Name: networkName,
+        Driver: 'bridge',
+        CheckDuplicate: true,
+        Labels: { [LABEL_MANAGED]: 'true' },
       });
+      this.logger.log(`Red privada creada: ${networkName}`);
+    }
 
-      this.logger.debug(`Puertos en uso: ${Array.from(usedPorts).join(', ')}`);
+    return networkName;
+  }
 
-      // Buscar un puerto disponible
-      const maxAttempts = 100; // Evitar loops infinitos
-      for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        const candidatePort = Math.floor(Math.random() * (max - min + 1) + min);
-        
-        if (!usedPorts.has(candidatePort)) {
-          this.logger.log(`Puerto disponible encontrado: ${candidatePort}`);
-          return candidatePort;
-        }
-      }
+  /**
+   * Redes privadas gestionadas y los subdominios conectados a cada una
+   */
+  async listNetworks() {
+    await this.ensureDockerConnection();
 
-      // Si no encontramos un puerto después de varios intentos, buscar secuencialmente
-      this.logger.warn('No se encontró puerto aleatorio disponible, buscando secuencialmente...');
-      for (let port = min; port <= max; port++) {
-        if (!usedPorts.has(port)) {
-          this.logger.log(`Puerto disponible encontrado (búsqueda secuencial): ${port}`);
-          return port;
-        }
+    const networks = await this.docker.listNetworks({
+      filters: { label: [`${LABEL_MANAGED}=true`] },
+    });
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: [`${LABEL_MANAGED}=true`] },
+    });
+
+    return networks
+      .map((network) => {
+        const subdomains = containers
+          .filter(
+            (container) =>
+              network.Name in (container.NetworkSettings?.Networks ?? {}),
+          )
+          .map((container) => container.Labels?.[LABEL_SUBDOMAIN])
+          .filter((subdomain): subdomain is string => Boolean(subdomain));
+
+        return {
+          name: network.Name,
+          driver: network.Driver,
+          subnet: network.IPAM?.Config?.[0]?.Subnet ?? null,
+          subdomains: [...new Set(subdomains)].sort(),
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private resolveNetworkName(group?: string) {
+    return getNetworkName(
+      this.configService.get('DEPLOY_NETWORK') || 'orchestrator',
+      group,
+    );
+  }
+
+  /**
+   * Sólo los servicios web públicos tienen proxy en Nginx
+   */
+  private isPublic(spec: DeploySpec) {
+    return !this.isWorker(spec) && spec.public !== false;
+  }
+
+  private isWorker(spec: DeploySpec) {
+    return spec.kind === 'worker';
+  }
+
+  /**
+   * Los servicios web necesitan el puerto interno; los workers no admiten health check HTTP ni balanceo
+   */
+  private assertValidKind(spec: DeploySpec) {
+    if (!this.isWorker(spec)) {
+      if (!spec.internalPort) {
+        throw new BadRequestException(
+          'internalPort es obligatorio en los despliegues web',
+        );
       }
+      return;
+    }
 
-      // Si todos los puertos están ocupados
+    if (spec.healthCheck) {
       throw new BadRequestException(
-        `No hay puertos disponibles en el rango ${min}-${max}. Por favor, libera algunos contenedores.`
+        'Los workers no admiten health check HTTP: su salud se basa en el estado del contenedor y en el HEALTHCHECK de la imagen',
       );
-    } catch (error) {
-      // Si hay un error al listar contenedores, usar método aleatorio como fallback
-      this.logger.warn(
-        `Error al verificar puertos en uso: ${(error as Error).message}. Usando método aleatorio como fallback.`
+    }
+    if (spec.loadBalancing) {
+      throw new BadRequestException(
+        'Los workers no reciben tráfico: loadBalancing no aplica',
       );
-      return Math.floor(Math.random() * (max - min + 1) + min);
     }
   }
 
   /**
-   * Lista todos los contenedores desplegados
+   * Crea los volúmenes del subdominio que todavía no existen
+   * Un volumen con el mismo nombre que no pertenezca al subdominio se rechaza en lugar de reutilizarse
    */
-  async listDeployments() {
-    try {
-      const containers = await this.docker.listContainers({ all: true });
-      
-      // Filtrar solo los contenedores que empiezan con "container-"
-      const deploymentContainers = containers
-        .filter((container) => container.Names?.some((name) => name.startsWith('/container-')))
-        .map((container) => {
-          const name = container.Names?.[0]?.replace('/', '') || 'unknown';
-          const subdomain = name.replace('container-', '');
-          
-          // Extraer el puerto del host
-          const portInfo = container.Ports?.[0];
-          const hostPort = portInfo?.PublicPort || null;
-
-          return {
-            containerId: container.Id,
-            containerName: name,
-            subdomain,
-            image: container.Image,
-            status: container.Status,
-            hostPort,
-            createdAt: container.Created,
-          };
+  private async ensureVolumes(subdomain: string, volumes: VolumeMount[]) {
+    for (const volume of volumes) {
+      const volumeName = getVolumeName(subdomain, volume.name);
+
+      try {
+        const info = await this.docker.getVolume(volumeName).inspect();
+        if (info.Labels?.[LABEL_SUBDOMAIN] !== subdomain) {
+          throw new BadRequestException(
+            `El volumen ${volumeName} ya existe y no pertenece a ${subdomain}. Usa otro nombre de volumen`,
+          );
+        }
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode !== 404) {
+          throw error;
+        }
+
+        await this.docker.createVolume({
+          Name: volumeName,
+          Labels: {
+            [LABEL_MANAGED]: 'true',
+            [LABEL_SUBDOMAIN]: subdomain,
+            [LABEL_VOLUME]: volume.name,
+          },
         });
+        this.logger.log(`Volumen creado: ${volumeName}`);
+      }
+    }
+  }
+
+  /**
+   * Los nombres y las rutas de montaje de los volúmenes no se pueden repetir
+   */
+  private assertValidVolumes(volumes: VolumeMount[] = []) {
+    const names = volumes.map((volume) => volume.name);
+    const paths = volumes.map((volume) => volume.mountPath);
+
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Hay volúmenes con el mismo nombre');
+    }
+    if (new Set(paths).size !== paths.length) {
+      throw new BadRequestException('Hay volúmenes montados en la misma ruta');
+    }
+  }
+
+  /**
+   * Descarga una imagen respetando el tamaño máximo de la política
+   * Antes de descargarla se compara su tamaño comprimido en el registro; tras la descarga se
+   * compara el real y, si lo supera, se elimina la imagen que se acaba de descargar
+   */
+  private async pullImageWithinPolicy(
+    input: PolicyInput,
+    imageRef: string,
+    job?: JobContext,
+  ) {
+    const alreadyAvailable = await this.isImageAvailable(imageRef);
+    if (
+      this.policy.getPolicy().maxImageSizeMb !== null &&
+      !alreadyAvailable &&
+      !imageRef.startsWith(`${LOCAL_BUILD_HOST}/`)
+    ) {
+      this.policy.assertImageSize(
+        input,
+        await this.registries.getRemoteImageSize(imageRef),
+        true,
+      );
+    }
 
-      return deploymentContainers;
+    await this.pullImage(imageRef, job);
+    const image = await this.inspectImage(imageRef);
+    try {
+      this.policy.assertImageSize(input, image.size);
     } catch (error) {
-      this.logger.error(`Error listando despliegues: ${(error as Error).message}`);
+      if (!alreadyAvailable) {
+        await this.removeImageIfUnused(imageRef);
+      }
       throw error;
     }
+    return image;
   }
 
   /**
-   * Detiene y elimina un despliegue
+   * Elimina una imagen descargada que ningún contenedor usa
    */
-  async removeDeployment(subdomain: string) {
-    this.logger.log(`Eliminando despliegue para subdominio: ${subdomain}`);
-
+  private async removeImageIfUnused(imageRef: string) {
     try {
-      const containerName = `container-${subdomain}`;
-      const container = this.docker.getContainer(containerName);
+      await this.docker.getImage(imageRef).remove();
+      this.logger.log(`Imagen ${imageRef} eliminada del host`);
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo eliminar la imagen ${imageRef}: ${(error as Error).message}`,
+      );
+    }
+  }
 
-      // Detener el contenedor si está corriendo
-      try {
-        const containerInfo = await container.inspect();
-        if (containerInfo.State.Running) {
-          this.logger.log(`Deteniendo contenedor: ${containerName}`);
-          await container.stop();
-        }
-      } catch (error: any) {
-        if (error.statusCode !== 404) {
-          throw error;
-        }
+  /**
+   * Descarga una imagen del registro
+   * Las referencias inmutables (digest o ID) no se vuelven a descargar si ya existen en el host
+   */
+  private async pullImage(imageRef: string, job?: JobContext) {
+    if (
+      this.isPinnedImageRef(imageRef) &&
+      (await this.isImageAvailable(imageRef))
+    ) {
+      this.logger.log(
+        `Imagen ${imageRef} disponible localmente, se omite la descarga`,
+      );
+      return;
+    }
+
+    // Las imágenes construidas en el host no existen en ningún registro
+    if (imageRef.startsWith(`${LOCAL_BUILD_HOST}/`)) {
+      if (await this.isImageAvailable(imageRef)) {
+        this.logger.log(
+          `Imagen ${imageRef} construida en el host, se omite la descarga`,
+        );
+        return;
       }
+      throw new BadRequestException(
+        `La imagen ${imageRef} se construyó en el host y ya no existe: vuelve a construirla`,
+      );
+    }
+
+    // Credenciales del registro de la imagen (Docker Hub, GHCR, ECR o un registro propio)
+    const authconfig = await this.registries.resolveAuth(imageRef);
+
+    // Descargar la imagen del registro
+    this.logger.log(`Descargando imagen: ${imageRef}`);
+    await new Promise<void>((resolve, reject) => {
+      this.docker.pull(
+        imageRef,
+        authconfig ? { authconfig } : {},
+        (err: Error, stream: NodeJS.ReadableStream) => {
+          if (err) {
+            return reject(err);
+          }
+
+          this.docker.modem.followProgress(
+            stream,
+            (err: Error) => {
+              if (err) {
+                return reject(err);
+              }
+              this.logger.log(`Imagen ${imageRef} descargada exitosamente`);
+              resolve();
+            },
+            (event: DockerPullEvent) => {
+              // Log del progreso opcional
+              if (event.status && event.progress) {
+                this.logger.debug(`${event.status}: ${event.progress}`);
+              }
+              if (job && event.status) {
+                job.progress(
+                  `${event.id ? `${event.id}: ` : ''}${event.status}`,
+                  {
+                    layer: event.id,
+                    status: event.status,
+                    current: event.progressDetail?.current,
+                    total: event.progressDetail?.total,
+                  },
+                );
+              }
+            },
+          );
+        },
+      );
+    });
+  }
+
+  private isPinnedImageRef(imageRef: string) {
+    return imageRef.includes('@sha256:') || imageRef.startsWith('sha256:');
+  }
+
+  private async isImageAvailable(imageRef: string) {
+    try {
+      await this.docker.getImage(imageRef).inspect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Registra una revisión activa y actualiza el registro del despliegue
+   * La revisión que estaba activa pasa a `superseded`
+   */
+  private recordSuccessfulDeploy(
+    spec: DeploySpec,
+    deployedBy: string,
+    rollbackOf: number | undefined,
+    result: {
+      imageDigest: string | null;
+      imageId: string | null;
+      replicas: ReplicaRecord[];
+    },
+  ): DeploymentRecord {
+    const [primary] = result.replicas;
+    const previous = this.deploymentStore.getDeployment(spec.subdomain);
+    if (previous) {
+      this.deploymentStore.updateRevision(spec.subdomain, previous.revision, {
+        status: 'superseded',
+      });
+    }
 
-      // Eliminar el contenedor
-      this.logger.log(`Eliminando contenedor: ${containerName}`);
-      await container.remove();
+    const now = new Date().toISOString();
+    const revision = this.deploymentStore.addRevision(spec.subdomain, {
+      spec,
+      imageName: spec.imageName,
+      imageDigest: result.imageDigest,
+      imageId: result.imageId,
+      status: 'active',
+      containerId: primary.containerId,
+      hostPort: primary.hostPort,
+      deployedBy,
+      deployedAt: now,
+      rollbackOf,
+    });
 
-      // Eliminar la configuración de Nginx
-      await this.nginxService.removeProxyConfig(subdomain);
+    return this.deploymentStore.saveDeployment({
+      subdomain: spec.subdomain,
+      spec,
+      imageName: spec.imageName,
+      imageDigest: result.imageDigest,
+      imageId: result.imageId,
+      internalPort: spec.internalPort ?? null,
+      hostPort: primary.hostPort,
+      containerId: primary.containerId,
+      containerName: primary.containerName,
+      replicas: result.replicas,
+      status: 'running',
+      revision: revision.revision,
+      deployedBy,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
 
+  /**
+   * Obtiene el digest inmutable (repo@sha256:...) y el ID de una imagen local
+   */
+  private async inspectImage(imageName: string): Promise<{
+    digest: string | null;
+    id: string | null;
+    size: number | null;
+  }> {
+    try {
+      const info = await this.docker.getImage(imageName).inspect();
       return {
-        success: true,
-        message: `Despliegue eliminado para ${subdomain}.boogiepop.cloud`,
-        subdomain: `${subdomain}.boogiepop.cloud`,
+        digest: info.RepoDigests?.[0] ?? null,
+        id: info.Id,
+        size: info.Size,
       };
-    } catch (error: any) {
-      if (error.statusCode === 404) {
-        throw new BadRequestException(`No se encontró un despliegue para el subdominio: ${subdomain}`);
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo inspeccionar la imagen ${imageName}: ${(error as Error).message}`,
+      );
+      return { digest: null, id: null, size: null };
+    }
+  }
+
+  /**
+   * Verifica la conexión con Docker antes de operar
+   */
+  private async ensureDockerConnection() {
+    try {
+      await this.docker.ping();
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      this.logger.error(`No se pudo conectar con Docker: ${errorMessage}`);
+
+      const platform = process.platform;
+      let suggestion = '';
+
+      if (platform === 'win32') {
+        suggestion =
+          'En Windows (desarrollo), asegúrate de que Docker Desktop esté corriendo y arrancado. ' +
+          'Verifica en la bandeja del sistema que Docker Desktop esté activo. ' +
+          'Si usas WSL2, puedes configurar DOCKER_SOCKET_PATH=/var/run/docker.sock en tu .env. ' +
+          'Nota: En producción (EC2 Linux) se usará automáticamente /var/run/docker.sock';
+      } else if (platform === 'linux') {
+        suggestion =
+          'En Linux, verifica que Docker esté corriendo y que tengas permisos para acceder a /var/run/docker.sock. ' +
+          'Puedes agregar tu usuario al grupo docker: sudo usermod -aG docker $USER';
+      } else {
+        suggestion =
+          'Verifica que Docker esté corriendo y accesible. ' +
+          'Configura DOCKER_SOCKET_PATH o DOCKER_HOST en tu .env si es necesario';
       }
-      this.logger.error(`Error eliminando despliegue: ${(error as Error).message}`);
+
+      throw new BadRequestException(
+        `No se pudo conectar con Docker: ${errorMessage}. ${suggestion}`,
+      );
+    }
+  }
+
+  /**
+   * Busca todos los contenedores de un subdominio
+   * Incluye los contenedores con label y el contenedor legacy `container-<subdomain>`
+   * El nombre legacy sólo cuenta sin label: `container-app-blue` también es la réplica azul de `app`
+   */
+  private async findSubdomainContainers(
+    subdomain: string,
+  ): Promise<Docker.ContainerInfo[]> {
+    const containers = await this.docker.listContainers({ all: true });
+    return containers.filter((container) =>
+      container.Labels?.[LABEL_SUBDOMAIN] !== undefined
+        ? container.Labels[LABEL_SUBDOMAIN] === subdomain
+        : container.Names?.includes(`/${CONTAINER_PREFIX}${subdomain}`),
+    );
+  }
+
+  /**
+   * Espera a que un contenedor recién iniciado esté listo para recibir tráfico
+   * Con health check se consulta el endpoint HTTP; sin él, basta con que el puerto acepte conexiones.
+   * Falla si el contenedor se detiene, entra en bucle de reinicios o no está listo a tiempo
+   */
+  private async waitForContainerReady(
+    container: Docker.Container,
+    hostPort: number | null,
+    healthCheck?: HealthCheckSpec,
+  ) {
+    // Los workers no tienen puerto: su salud depende sólo del estado del contenedor
+    if (hostPort === null) {
+      await this.waitForWorkerReady(container);
+      return;
+    }
+
+    if (healthCheck) {
+      await this.healthCheckService.waitForHealthy(hostPort, healthCheck, () =>
+        this.assertContainerAlive(container),
+      );
+      return;
+    }
+
+    const timeoutMs =
+      Number(this.configService.get('DEPLOY_READY_TIMEOUT_SECONDS') || 60) *
+      1000;
+    const host =
+      this.configService.get<string>('DEPLOY_HEALTHCHECK_HOST') || 'localhost';
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const info = await this.assertContainerAlive(container);
+
+      // Si la imagen define HEALTHCHECK, respetamos el estado que reporta Docker
+      const health = info.State.Health?.Status;
+      if (health === 'unhealthy') {
+        throw new Error(
+          'El HEALTHCHECK de la imagen reporta el contenedor como unhealthy',
+        );
+      }
+
+      if (
+        (!health || health === 'healthy') &&
+        (await this.isPortOpen(host, hostPort))
+      ) {
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    throw new Error(
+      `El contenedor no estuvo listo en ${timeoutMs / 1000}s (puerto ${hostPort})`,
+    );
+  }
+
+  /**
+   * Un worker está listo cuando sigue en ejecución, sin reiniciarse, durante el periodo de arranque
+   * Si la imagen define HEALTHCHECK, además debe reportarse healthy
+   */
+  private async waitForWorkerReady(container: Docker.Container) {
+    const startupMs =
+      Number(this.configService.get('DEPLOY_WORKER_STARTUP_SECONDS') || 5) *
+      1000;
+    const timeoutMs =
+      Number(this.configService.get('DEPLOY_READY_TIMEOUT_SECONDS') || 60) *
+      1000;
+    const startedAt = Date.now();
+    const { RestartCount: restarts } =
+      await this.assertContainerAlive(container);
+
+    while (Date.now() - startedAt < timeoutMs) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const info = await this.assertContainerAlive(container);
+      if (info.RestartCount !== restarts) {
+        throw new Error(
+          `El worker se reinició durante el arranque (${info.RestartCount - restarts} reinicio(s))`,
+        );
+      }
+
+      const health = info.State.Health?.Status;
+      if (health === 'unhealthy') {
+        throw new Error(
+          'El HEALTHCHECK de la imagen reporta el contenedor como unhealthy',
+        );
+      }
+
+      if (
+        Date.now() - startedAt >= startupMs &&
+        (!health || health === 'healthy')
+      ) {
+        return;
+      }
+    }
+
+    throw new Error(`El worker no estuvo listo en ${timeoutMs / 1000}s`);
+  }
+
+  /**
+   * Verifica que el contenedor siga en ejecución y no esté reiniciándose
+   */
+  private async assertContainerAlive(container: Docker.Container) {
+    const info = await container.inspect();
+
+    if (!info.State.Running || info.State.Restarting) {
+      throw new Error(
+        `El contenedor se detuvo durante el arranque (estado: ${info.State.Status}, código de salida: ${info.State.ExitCode})`,
+      );
+    }
+
+    return info;
+  }
+
+  /**
+   * Obtiene las últimas líneas de log de un contenedor sin propagar errores
+   */
+  private async getContainerLogTail(
+    container: Docker.Container,
+    tail = 50,
+  ): Promise<string[]> {
+    try {
+      const buffer = await container.logs({
+        stdout: true,
+        stderr: true,
+        tail,
+        follow: false,
+      });
+      return demuxDockerLogs(buffer);
+    } catch (error) {
+      this.logger.warn(
+        `No se pudieron leer los logs del contenedor: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Comprueba si un puerto TCP acepta conexiones
+   */
+  private isPortOpen(host: string, port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.connect({ host, port });
+      socket.setTimeout(2000);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve(false);
+      });
+      socket.once('error', () => resolve(false));
+    });
+  }
+
+  /**
+   * Drena y elimina los contenedores que dejaron de recibir tráfico
+   * Espera DEPLOY_DRAIN_SECONDS para que terminen las peticiones en curso
+   */
+  private async drainContainers(containers: Docker.ContainerInfo[]) {
+    if (containers.length === 0) {
+      return;
+    }
+
+    const drainSeconds = Number(
+      this.configService.get('DEPLOY_DRAIN_SECONDS') ?? 10,
+    );
+    if (drainSeconds > 0) {
+      this.logger.log(
+        `Drenando ${containers.length} contenedor(es) anteriores durante ${drainSeconds}s`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, drainSeconds * 1000));
+    }
+
+    for (const info of containers) {
+      const name = info.Names?.[0]?.replace('/', '') || info.Id;
+      try {
+        const container = this.docker.getContainer(info.Id);
+        if (info.State === 'running' || info.State === 'paused') {
+          this.logger.log(`Deteniendo contenedor anterior: ${name}`);
+          await container.stop({ t: 10 });
+        }
+        await container.remove();
+        this.logger.log(`Contenedor anterior eliminado: ${name}`);
+      } catch (error) {
+        this.logger.warn(
+          `No se pudo eliminar el contenedor anterior ${name}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Elimina un contenedor por nombre si existe
+   */
+  private async removeContainerIfExists(containerName: string) {
+    try {
+      const container = this.docker.getContainer(containerName);
+      await container.inspect();
+      this.logger.log(`Eliminando contenedor sobrante: ${containerName}`);
+      await container.remove({ force: true });
+    } catch (error) {
+      // Si el contenedor no existe, continuar normalmente
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Descarta el contenedor de un despliegue fallido sin propagar errores
+   */
+  private async discardContainer(container: Docker.Container) {
+    try {
+      await container.remove({ force: true });
+      this.logger.log(
+        `Contenedor del intento fallido eliminado: ${container.id}`,
+      );
+    } catch (cleanupError) {
+      this.logger.warn(
+        `No se pudo eliminar el contenedor del intento fallido: ${(cleanupError as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Reserva el puerto del host para un slot (color y réplica) de un subdominio
+   * Los puertos publicados por cualquier otro contenedor (incluidos los que están sirviendo) quedan excluidos
+   */
+  private async allocateHostPort(
+    subdomain: string,
+    slot: string,
+  ): Promise<number> {
+    const containers = await this.docker.listContainers({ all: true });
+
+    const usedPorts = new Set<number>();
+    for (const container of containers) {
+      const isSameSlot =
+        container.Labels?.[LABEL_SUBDOMAIN] === subdomain &&
+        this.getContainerSlot(container) === slot;
+      if (isSameSlot) {
+        continue;
+      }
+      container.Ports?.forEach(
+        (port) => port.PublicPort && usedPorts.add(port.PublicPort),
+      );
+    }
+
+    return this.portLeases.acquire(subdomain, slot, usedPorts);
+  }
+
+  /**
+   * Slot de un contenedor según sus labels (null en contenedores legacy sin color)
+   */
+  private getContainerSlot(container: Docker.ContainerInfo): string | null {
+    const color = container.Labels?.[LABEL_COLOR] as
+      | DeploymentColor
+      | undefined;
+    if (!color) {
+      return null;
+    }
+    return getReplicaSlot(
+      color,
+      Number(container.Labels?.[LABEL_REPLICA] ?? 0),
+    );
+  }
+
+  /**
+   * Réplicas del despliegue activo; los registros anteriores a las réplicas tienen una sola
+   */
+  private getRecordReplicas(record: DeploymentRecord): ReplicaRecord[] {
+    if (record.replicas?.length) {
+      return record.replicas;
+    }
+    return [
+      {
+        index: 0,
+        containerId: record.containerId,
+        containerName: record.containerName,
+        hostPort: record.hostPort,
+      },
+    ];
+  }
+
+  /**
+   * Puertos del host de las réplicas (los workers no tienen)
+   */
+  private getHostPorts(replicas: ReplicaRecord[]): number[] {
+    return replicas
+      .map((replica) => replica.hostPort)
+      .filter((port): port is number => port !== null);
+  }
+
+  private assertReplicaCount(replicas: number) {
+    const maxReplicas = Number(
+      this.configService.get('DEPLOY_MAX_REPLICAS') || 5,
+    );
+    if (!Number.isInteger(replicas) || replicas < 1 || replicas > maxReplicas) {
+      throw new BadRequestException(
+        `El número de réplicas debe estar entre 1 y ${maxReplicas}`,
+      );
+    }
+  }
+
+  /**
+   * Vuelve a desplegar una revisión anterior con la misma especificación (puerto, health check...)
+   * La imagen se fija por digest, por lo que no depende de a dónde apunte hoy el tag
+   * @param subdomain - Subdominio del despliegue
+   * @param targetRevision - Revisión a restaurar (por defecto, la anterior a la activa)
+   * @returns El trabajo encolado; la revisión se valida antes de encolarlo
+   */
+  queueRollback(
+    subdomain: string,
+    targetRevision?: number,
+    deployedBy = 'api',
+  ): JobReference {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+
+    const revisions = this.deploymentStore.listRevisions(subdomain);
+    const target =
+      targetRevision !== undefined
+        ? revisions.find((item) => item.revision === targetRevision)
+        : revisions.find(
+            (item) =>
+              item.revision < record.revision && item.status === 'superseded',
+          );
+
+    if (!target) {
+      throw new BadRequestException(
+        targetRevision !== undefined
+          ? `La revisión ${targetRevision} no existe para ${subdomain}`
+          : `No hay una revisión anterior a la ${record.revision} a la que volver para ${subdomain}`,
+      );
+    }
+
+    if (target.status === 'failed') {
+      throw new BadRequestException(
+        `La revisión ${target.revision} falló al desplegarse y no se puede restaurar`,
+      );
+    }
+
+    if (target.revision === record.revision) {
+      throw new BadRequestException(
+        `La revisión ${target.revision} ya es la activa para ${subdomain}`,
+      );
+    }
+
+    this.assertNoCanary(record);
+
+    const imageRef = target.imageDigest ?? target.imageId ?? target.imageName;
+    this.policy.assertAllowed({
+      subdomain,
+      imageName: target.imageName,
+      imageRef,
+    });
+
+    // La revisión se restaura con sus límites: si hoy superan los máximos, se rechaza antes de encolar
+    this.resourceLimits.resolve(target.spec.resources);
+
+    this.logger.log(
+      `Rollback de ${subdomain} a la revisión ${target.revision} (${imageRef})`,
+    );
+
+    const job = this.jobsService.enqueue({
+      type: 'rollback',
+      key: subdomain,
+      description: `Rollback de ${subdomain} a la revisión ${target.revision}`,
+      run: (job) =>
+        this.deploy(target.spec, {
+          deployedBy,
+          imageRef,
+          rollbackOf: target.revision,
+          job,
+        }),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Variables de entorno y nombres de secrets de un subdominio
+   */
+  getEnv(subdomain: string) {
+    return this.secretsService.describe(subdomain);
+  }
+
+  /**
+   * Actualiza variables y secrets y encola el redespliegue de la imagen actual para aplicarlos
+   * Las claves que también venían en el env del despliegue se actualizan ahí, porque ese env
+   * tiene precedencia sobre el entorno guardado
+   */
+  updateEnv(
+    subdomain: string,
+    env: Record<string, string> | undefined,
+    secrets: Record<string, string> | undefined,
+    deployedBy = 'api',
+  ) {
+    const result = this.secretsService.upsert(subdomain, env, secrets);
+    this.updateSpecEnv(subdomain, (specEnv) => {
+      for (const [key, value] of Object.entries(env ?? {})) {
+        if (key in specEnv) {
+          specEnv[key] = value;
+        }
+      }
+      // Una variable convertida en secret no conserva su valor en claro
+      for (const key of Object.keys(secrets ?? {})) {
+        delete specEnv[key];
+      }
+    });
+
+    // Con una lista explícita de secrets, los nuevos se añaden para que lleguen al contenedor
+    const record = this.deploymentStore.getDeployment(subdomain);
+    const added = Object.keys(secrets ?? {}).filter(
+      (key) => !record?.spec.secrets?.includes(key),
+    );
+    if (record?.spec.secrets && added.length > 0) {
+      this.deploymentStore.saveDeployment({
+        ...record,
+        spec: { ...record.spec, secrets: [...record.spec.secrets, ...added] },
+      });
+    }
+
+    return {
+      ...result,
+      job: this.queueRedeploy(
+        subdomain,
+        deployedBy,
+        'Aplicar cambios de entorno',
+      ),
+    };
+  }
+
+  /**
+   * Elimina una variable o secret y encola el redespliegue de la imagen actual
+   */
+  removeEnv(subdomain: string, key: string, deployedBy = 'api') {
+    const removedFromSpec = this.updateSpecEnv(subdomain, (specEnv) => {
+      delete specEnv[key];
+    });
+    const removedFromStore = this.secretsService.remove(subdomain, key);
+    if (!removedFromSpec && !removedFromStore) {
+      throw new NotFoundException(
+        `La variable ${key} no existe para ${subdomain}`,
+      );
+    }
+
+    // Si la especificación referenciaba el secret eliminado, deja de hacerlo
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (record?.spec.secrets?.includes(key)) {
+      this.deploymentStore.saveDeployment({
+        ...record,
+        spec: {
+          ...record.spec,
+          secrets: record.spec.secrets.filter((name) => name !== key),
+        },
+      });
+    }
+
+    return {
+      ...this.secretsService.describe(subdomain),
+      job: this.queueRedeploy(
+        subdomain,
+        deployedBy,
+        `Eliminar ${key} del entorno`,
+      ),
+    };
+  }
+
+  /**
+   * Modifica el env de la especificación vigente de un subdominio
+   * @returns true si el env cambió
+   */
+  private updateSpecEnv(
+    subdomain: string,
+    update: (env: Record<string, string>) => void,
+  ): boolean {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record?.spec.env) {
+      return false;
+    }
+
+    const env = { ...record.spec.env };
+    update(env);
+    if (JSON.stringify(env) === JSON.stringify(record.spec.env)) {
+      return false;
+    }
+
+    this.deploymentStore.saveDeployment({
+      ...record,
+      spec: { ...record.spec, env },
+    });
+    return true;
+  }
+
+  /**
+   * Encola un despliegue
+   * Los trabajos del mismo subdominio se ejecutan de uno en uno
+   */
+  queueDeploy(spec: DeploySpec, options: DeployOptions = {}): JobReference {
+    this.assertDeployable(spec);
+
+    const job = this.jobsService.enqueue({
+      type: 'deploy',
+      key: spec.subdomain,
+      description: `Despliegue de ${spec.imageName} en ${spec.subdomain}`,
+      run: (job) => this.deploy(spec, { ...options, job }),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Validaciones de un despliegue que se hacen antes de encolarlo
+   * (límites, tipo, réplicas, volúmenes, canary activo y política de imágenes)
+   */
+  assertDeployable(spec: DeploySpec) {
+    // Los límites fuera de los máximos se rechazan antes de encolar
+    this.resourceLimits.resolve(spec.resources);
+    this.assertValidKind(spec);
+    this.assertReplicaCount(spec.replicas ?? 1);
+    this.assertValidVolumes(spec.volumes);
+    if (spec.preSwitch) {
+      this.assertValidCommand(spec.preSwitch.command);
+    }
+    const current = this.deploymentStore.getDeployment(spec.subdomain);
+    this.assertNoCanary(current);
+    if (current?.spec.stack && current.spec.stack.name !== spec.stack?.name) {
+      throw new BadRequestException(
+        `${spec.subdomain} es el servicio ${current.spec.stack.service} del stack ${current.spec.stack.name}: se despliega con /stacks`,
+      );
+    }
+    // Se rechaza antes de encolar: una imagen no permitida nunca llega a descargarse
+    this.policy.assertAllowed({
+      subdomain: spec.subdomain,
+      imageName: spec.imageName,
+    });
+  }
+
+  /**
+   * Especificación efectiva de un despliegue, con los valores por defecto aplicados
+   * Es la que se guarda en cada revisión y con la que se comparan los manifiestos
+   */
+  resolveSpec(spec: DeploySpec): ResolvedDeploySpec {
+    return {
+      ...spec,
+      healthCheck: spec.healthCheck
+        ? this.healthCheckService.resolveSpec(spec.healthCheck)
+        : undefined,
+      resources: this.resourceLimits.resolve(spec.resources),
+      replicas: spec.replicas ?? 1,
+      kind: spec.kind ?? 'web',
+      // Los workers no reciben tráfico: no tienen método de balanceo
+      loadBalancing: this.isWorker(spec)
+        ? undefined
+        : (spec.loadBalancing ?? 'round_robin'),
+    };
+  }
+
+  /**
+   * Encola la construcción de una imagen desde el código fuente y su despliegue con el mismo proceso que `deploy`
+   * La imagen se etiqueta como `orchestrator.local/<subdominio>:<build>` y no pasa por ningún registro
+   */
+  queueBuild(
+    spec: Omit<DeploySpec, 'imageName'>,
+    build: BuildSpec,
+    options: DeployOptions = {},
+  ): JobReference {
+    const source = this.resolveBuildSource(build.source);
+    // Cada build tiene su propio tag: las revisiones y los rollbacks apuntan a una imagen concreta
+    const buildId = `build-${Date.now().toString(36)}`;
+    const deploySpec: DeploySpec = {
+      ...spec,
+      imageName: `${getBuildRepository(spec.subdomain)}:${buildId}`,
+    };
+    this.assertDeployable(deploySpec);
+
+    const job = this.jobsService.enqueue({
+      type: 'build',
+      key: spec.subdomain,
+      description: `Construcción de ${source.description} y despliegue en ${spec.subdomain}`,
+      run: async (job) => {
+        await this.buildImage(
+          deploySpec,
+          build,
+          source,
+          buildId,
+          options.deployedBy || 'api',
+          job,
+        );
+        return this.deploy(deploySpec, { ...options, job });
+      },
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Guarda un contexto de construcción (tarball, con o sin gzip) para usarlo en una build
+   * Se borra al usarse o al pasar BUILD_CONTEXT_TTL_MINUTES (60) sin usarse
+   */
+  saveBuildContext(body: unknown) {
+    if (!Buffer.isBuffer(body) || body.length === 0) {
+      throw new BadRequestException(
+        'Envía el contexto como un tarball en el cuerpo (Content-Type: application/x-tar o application/gzip)',
+      );
+    }
+
+    const dir = this.getBuildContextDir();
+    const ttlMs =
+      Number(this.configService.get('BUILD_CONTEXT_TTL_MINUTES') || 60) *
+      60 *
+      1000;
+    for (const file of fs.readdirSync(dir)) {
+      const filePath = path.join(dir, file);
+      if (Date.now() - fs.statSync(filePath).mtimeMs > ttlMs) {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+
+    const contextId = randomUUID();
+    fs.writeFileSync(path.join(dir, `${contextId}.tar`), body);
+    this.logger.log(
+      `Contexto de construcción ${contextId} guardado (${body.length} bytes)`,
+    );
+    return {
+      contextId,
+      sizeBytes: body.length,
+      expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+    };
+  }
+
+  /**
+   * Historial de builds de un subdominio, de la más reciente a la más antigua
+   */
+  listBuilds(subdomain: string) {
+    return this.deploymentStore.listBuilds(subdomain);
+  }
+
+  /**
+   * Valida el origen de una build y lo traduce a una URL remota de Docker o a la ruta del contexto subido
+   */
+  private resolveBuildSource(source: BuildSource): ResolvedBuildSource {
+    if (!source.repository === !source.contextId) {
+      throw new BadRequestException(
+        'Indica el repositorio (repository) o el contexto subido (contextId) de la build, pero no ambos',
+      );
+    }
+
+    if (source.contextId) {
+      const contextPath = path.join(
+        this.getBuildContextDir(),
+        `${source.contextId}.tar`,
+      );
+      if (!fs.existsSync(contextPath)) {
+        throw new NotFoundException(
+          `El contexto de construcción ${source.contextId} no existe o ha caducado`,
+        );
+      }
+      return { description: `upload:${source.contextId}`, contextPath };
+    }
+
+    // Docker sólo trata la URL como repositorio Git si termina en .git
+    const repository = source.repository!;
+    const url = repository.endsWith('.git') ? repository : `${repository}.git`;
+    const fragment =
+      source.ref || source.path
+        ? `#${source.ref ?? ''}${source.path ? `:${source.path}` : ''}`
+        : '';
+    const description = `${repository}${source.ref ? `@${source.ref}` : ''}${source.path ? `:${source.path}` : ''}`;
+
+    // Repositorios privados de GitHub: el token sólo viaja en la URL que recibe el daemon
+    const token: string | undefined =
+      this.configService.get('BUILD_GIT_TOKEN') ||
+      this.configService.get('GITHUB_TOKEN');
+    if (token && url.startsWith('https://github.com/')) {
+      return {
+        description,
+        remote: `${url.replace('https://', `https://x-access-token:${token}@`)}${fragment}`,
+        secret: token,
+      };
+    }
+    return { description, remote: `${url}${fragment}` };
+  }
+
+  /**
+   * Construye la imagen con docker build y la etiqueta también como `latest` del subdominio,
+   * que sirve de caché a la siguiente build. Cada línea del log se emite en el trabajo
+   */
+  private async buildImage(
+    spec: DeploySpec,
+    build: BuildSpec,
+    source: ResolvedBuildSource,
+    buildId: string,
+    requestedBy: string,
+    job: JobContext,
+  ) {
+    const cacheTag = `${getBuildRepository(spec.subdomain)}:latest`;
+    const timeoutSeconds = Number(
+      this.configService.get('BUILD_TIMEOUT_SECONDS') || 1800,
+    );
+    const mask = (text: string) =>
+      source.secret ? text.split(source.secret).join('***') : text;
+    const record: BuildRecord = {
+      id: buildId,
+      subdomain: spec.subdomain,
+      status: 'running',
+      source: source.description,
+      dockerfile: build.dockerfile ?? 'Dockerfile',
+      buildArgs: Object.keys(build.buildArgs ?? {}),
+      imageName: spec.imageName,
+      imageId: null,
+      jobId: job.id,
+      requestedBy,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+      logTail: [],
+    };
+    this.deploymentStore.saveBuild(record);
+
+    this.logger.log(
+      `Construyendo ${source.description} para ${spec.subdomain} (por ${requestedBy})`,
+    );
+    job.step('building', `Construyendo ${source.description}`);
+
+    try {
+      await this.ensureDockerConnection();
+      const useCache =
+        !build.noCache && (await this.isImageAvailable(cacheTag));
+
+      // Sin contexto en el cuerpo, el daemon descarga el repositorio de la URL remota
+      const context = source.contextPath
+        ? fs.createReadStream(source.contextPath)
+        : undefined;
+      // Las imágenes base se comprueban al leer cada FROM del log: si una no cumple la política,
+      // la build se cancela antes de que el daemon la descargue
+      const readBaseImage = createBaseImageReader(build.buildArgs);
+      const policyAbort = new AbortController();
+      const stream = await this.docker.buildImage(
+        context as NodeJS.ReadableStream,
+        {
+          t: spec.imageName,
+          ...(source.remote ? { remote: source.remote } : {}),
+          ...(build.dockerfile ? { dockerfile: build.dockerfile } : {}),
+          ...(useCache ? { cachefrom: JSON.stringify([cacheTag]) } : {}),
+          buildargs: build.buildArgs ?? {},
+          nocache: build.noCache ?? false,
+          labels: {
+            [LABEL_MANAGED]: 'true',
+            [LABEL_SUBDOMAIN]: spec.subdomain,
+          },
+          abortSignal: AbortSignal.any([
+            AbortSignal.timeout(timeoutSeconds * 1000),
+            policyAbort.signal,
+          ]),
+        },
+      );
+
+      record.imageId = await new Promise<string | null>((resolve, reject) => {
+        let imageId: string | null = null;
+        let buildError: string | null = null;
+
+        this.docker.modem.followProgress(
+          stream,
+          (err: Error | null) => {
+            if (err || buildError) {
+              return reject(new Error(mask(buildError ?? err!.message)));
+            }
+            resolve(imageId);
+          },
+          (event: {
+            stream?: string;
+            error?: string;
+            aux?: { ID?: string };
+          }) => {
+            if (event.aux?.ID) {
+              imageId = event.aux.ID;
+            }
+            if (event.error) {
+              buildError = event.error;
+            }
+            for (const line of mask(event.stream ?? event.error ?? '').split(
+              '\n',
+            )) {
+              if (line.trim()) {
+                record.logTail = [...record.logTail, line].slice(
+                  -BUILD_LOG_LINES,
+                );
+                job.log(line);
+              }
+
+              const baseImage = readBaseImage(line);
+              if (baseImage && !policyAbort.signal.aborted) {
+                try {
+                  this.policy.assertAllowedBaseImage({
+                    subdomain: spec.subdomain,
+                    imageName: baseImage,
+                  });
+                } catch (error) {
+                  policyAbort.abort();
+                  reject(error as Error);
+                }
+              }
+            }
+          },
+        );
+      });
+
+      // La etiqueta latest del subdominio es la caché de la siguiente build
+      await this.docker
+        .getImage(spec.imageName)
+        .tag({ repo: getBuildRepository(spec.subdomain), tag: 'latest' });
+
+      this.deploymentStore.saveBuild({
+        ...record,
+        status: 'succeeded',
+        finishedAt: new Date().toISOString(),
+      });
+      this.logger.log(
+        `Imagen ${spec.imageName} construida (${record.imageId ?? 'sin ID'})`,
+      );
+    } catch (error) {
+      const message =
+        (error as Error).name === 'TimeoutError' ||
+        (error as Error).name === 'AbortError'
+          ? `La build superó el tiempo máximo de ${timeoutSeconds}s`
+          : mask((error as Error).message);
+      this.deploymentStore.saveBuild({
+        ...record,
+        status: 'failed',
+        finishedAt: new Date().toISOString(),
+        error: message,
+      });
+      this.logger.error(
+        `Falló la construcción de ${source.description} para ${spec.subdomain}: ${message}`,
+      );
+      void this.notifications.notify('deploy.failed', {
+        subject: spec.subdomain,
+        message: `Falló la construcción de ${source.description} para ${spec.subdomain}: ${message}`,
+        data: {
+          subdomain: spec.subdomain,
+          imageName: spec.imageName,
+          deployedBy: requestedBy,
+          buildId,
+          error: message,
+        },
+      });
+
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Build Failed',
+        message: `Falló la construcción de ${source.description}: ${message}`,
+        buildId,
+        logs: record.logTail.slice(-50),
+      });
+    } finally {
+      if (source.contextPath) {
+        fs.rmSync(source.contextPath, { force: true });
+      }
+    }
+  }
+
+  private getBuildContextDir() {
+    const dir =
+      this.configService.get<string>('BUILD_CONTEXT_DIR') ||
+      path.join(os.tmpdir(), 'orchestrator-build-contexts');
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  /**
+   * Encola el redespliegue de la imagen activa (fijada por digest) con la especificación vigente
+   * La especificación se lee al ejecutar el trabajo, no al encolarlo
+   * @returns El trabajo o null si el subdominio aún no está desplegado
+   */
+  private queueRedeploy(
+    subdomain: string,
+    deployedBy: string,
+    reason: string,
+  ): JobReference | null {
+    if (!this.deploymentStore.getDeployment(subdomain)) {
+      return null;
+    }
+
+    const job = this.jobsService.enqueue({
+      type: 'redeploy',
+      key: subdomain,
+      description: `${reason} en ${subdomain}`,
+      run: (job) => {
+        const record = this.deploymentStore.getDeployment(subdomain);
+        if (!record) {
+          throw new NotFoundException(
+            `El despliegue de ${subdomain} se eliminó antes del redespliegue`,
+          );
+        }
+
+        this.logger.log(
+          `Redesplegando ${subdomain} con la imagen actual: ${reason}`,
+        );
+        return this.deploy(record.spec, {
+          deployedBy,
+          imageRef: record.imageDigest ?? record.imageId ?? record.imageName,
+          job,
+        });
+      },
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Encola una acción de ciclo de vida (stop, start, restart o pause) sobre el contenedor activo
+   * Se ejecuta en serie con los despliegues del mismo subdominio
+   */
+  queueLifecycle(subdomain: string, action: LifecycleAction): JobReference {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    this.assertNoCanary(record);
+
+    const job = this.jobsService.enqueue({
+      type: action,
+      key: subdomain,
+      description: `${LIFECYCLE_DESCRIPTIONS[action]} ${subdomain}`,
+      run: (job) => this.runLifecycle(subdomain, action, job),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Ejecuta una acción de ciclo de vida
+   * Al detener o pausar, Nginx pasa primero a la página de mantenimiento para no devolver 502;
+   * al arrancar o reiniciar, el proxy se restaura sólo cuando el contenedor vuelve a estar listo
+   */
+  private async runLifecycle(
+    subdomain: string,
+    action: LifecycleAction,
+    job: JobContext,
+  ) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `El despliegue de ${subdomain} se eliminó antes de ejecutar la acción`,
+      );
+    }
+    this.assertNoCanary(record);
+
+    await this.ensureDockerConnection();
+
+    const replicas = this.getRecordReplicas(record);
+    const targets: {
+      replica: ReplicaRecord;
+      container: Docker.Container;
+      info: Docker.ContainerInspectInfo;
+    }[] = [];
+    for (const replica of replicas) {
+      const container = this.docker.getContainer(replica.containerId);
+      try {
+        targets.push({ replica, container, info: await container.inspect() });
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode === 404) {
+          throw new BadRequestException(
+            `El contenedor ${replica.containerName} ya no existe. Vuelve a desplegar o haz rollback de ${subdomain}`,
+          );
+        }
+        throw error;
+      }
+    }
+
+    let status: DeploymentRecord['status'] = 'running';
+
+    if (action === 'stop' || action === 'pause') {
+      if (
+        action === 'pause' &&
+        targets.some(({ info }) => !info.State.Running)
+      ) {
+        throw new BadRequestException(
+          `No se puede pausar ${subdomain}: hay réplicas que no están en ejecución`,
+        );
+      }
+
+      if (this.isPublic(record.spec)) {
+        job.step(
+          'maintenance',
+          `Activando la página de mantenimiento de ${subdomain}`,
+        );
+        await this.nginxService.setMaintenanceConfig(subdomain);
+      }
+
+      for (const { replica, container, info } of targets) {
+        if (action === 'stop') {
+          job.step('stopping', `Deteniendo ${replica.containerName}`);
+          if (info.State.Running) {
+            await container.stop({ t: 10 });
+          }
+        } else {
+          job.step('pausing', `Pausando ${replica.containerName}`);
+          if (!info.State.Paused) {
+            await container.pause();
+          }
+        }
+      }
+      status = action === 'stop' ? 'stopped' : 'paused';
+    } else {
+      const healthCheck = record.spec.healthCheck
+        ? this.healthCheckService.resolveSpec(record.spec.healthCheck)
+        : undefined;
+
+      for (const { replica, container, info } of targets) {
+        job.step(
+          action === 'start' ? 'starting' : 'restarting',
+          `${LIFECYCLE_DESCRIPTIONS[action]} ${replica.containerName}`,
+        );
+        if (info.State.Paused) {
+          await container.unpause();
+        }
+        if (action === 'restart') {
+          await container.restart({ t: 10 });
+        } else if (!info.State.Running) {
+          await container.start();
+        }
+      }
+
+      job.step('health-check', 'Esperando a que las réplicas estén listas');
+      for (const { replica, container } of targets) {
+        try {
+          await this.waitForContainerReady(
+            container,
+            replica.hostPort,
+            healthCheck,
+          );
+        } catch (error) {
+          // La página de mantenimiento (si estaba activa) sigue sirviendo: no se restaura un proxy roto
+          const logs = await this.getContainerLogTail(container);
+          throw new BadRequestException({
+            statusCode: 400,
+            error:
+              error instanceof HealthCheckFailedError
+                ? 'Health Check Failed'
+                : 'Bad Request',
+            message: `El contenedor ${replica.containerName} no quedó listo: ${(error as Error).message}`,
+            logs,
+          });
+        }
+      }
+
+      if (this.isPublic(record.spec)) {
+        const hostPorts = this.getHostPorts(replicas);
+        job.step(
+          'switching',
+          `Restaurando el proxy de ${subdomain} a los puertos ${hostPorts.join(', ')}`,
+        );
+        await this.nginxService.createProxyConfig(
+          subdomain,
+          hostPorts,
+          record.spec.loadBalancing,
+        );
+      }
+    }
+
+    this.deploymentStore.saveDeployment({
+      ...record,
+      status,
+      updatedAt: new Date().toISOString(),
+    });
+    this.logger.log(
+      `Acción ${action} completada para ${subdomain} (estado: ${status})`,
+    );
+
+    return {
+      success: true,
+      subdomain,
+      action,
+      status,
+      containers: replicas.map((replica) => replica.containerName),
+    };
+  }
+
+  /**
+   * Encola el cambio del número de réplicas sin cambiar de imagen ni de revisión
+   */
+  queueScale(subdomain: string, replicas: number): JobReference {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    this.assertNoCanary(record);
+    this.assertReplicaCount(replicas);
+
+    const job = this.jobsService.enqueue({
+      type: 'scale',
+      key: subdomain,
+      description: `Escalar ${subdomain} a ${replicas} réplica(s)`,
+      run: (job) => this.scale(subdomain, replicas, job),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Añade o retira réplicas del color activo con la misma imagen (fijada por digest) y entorno
+   * Al crecer, Nginx incluye las réplicas nuevas cuando están listas; al decrecer, las excluye antes de drenarlas
+   */
+  private async scale(subdomain: string, count: number, job: JobContext) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `El despliegue de ${subdomain} se eliminó antes de escalarlo`,
+      );
+    }
+    this.assertNoCanary(record);
+    if (record.status !== 'running') {
+      throw new BadRequestException(
+        `No se puede escalar ${subdomain} en estado ${record.status}. Arráncalo primero`,
+      );
+    }
+
+    await this.ensureDockerConnection();
+
+    const current = this.getRecordReplicas(record);
+    let replicas = [...current].sort((a, b) => a.index - b.index);
+
+    if (count > current.length) {
+      const primary = await this.docker
+        .getContainer(record.containerId)
+        .inspect();
+      const color = primary.Config.Labels?.[LABEL_COLOR] as
+        | DeploymentColor
+        | undefined;
+      if (!color) {
+        throw new BadRequestException(
+          `${subdomain} usa un contenedor sin color (anterior a blue/green). Vuelve a desplegarlo antes de escalar`,
+        );
+      }
+
+      const imageRef = record.imageDigest ?? record.imageId ?? record.imageName;
+      job.step('pulling', `Comprobando la imagen ${imageRef}`);
+      await this.pullImage(imageRef, job);
+
+      const runtime = {
+        imageRef,
+        env: this.secretsService.resolveContainerEnv(
+          subdomain,
+          record.spec.env,
+          record.spec.secrets,
+        ),
+        resources: this.resourceLimits.resolve(record.spec.resources),
+      };
+      const healthCheck = record.spec.healthCheck
+        ? this.healthCheckService.resolveSpec(record.spec.healthCheck)
+        : undefined;
+
+      const usedIndexes = new Set(current.map((replica) => replica.index));
+      const created: { container: Docker.Container; replica: ReplicaRecord }[] =
+        [];
+
+      try {
+        for (let index = 0; created.length < count - current.length; index++) {
+          if (usedIndexes.has(index)) {
+            continue;
+          }
+          const result = await this.createReplica(
+            record.spec,
+            color,
+            index,
+            runtime,
+          );
+          created.push(result);
+          job.step(
+            'creating',
+            result.replica.hostPort === null
+              ? `Creando ${result.replica.containerName}`
+              : `Creando ${result.replica.containerName} en el puerto ${result.replica.hostPort}`,
+          );
+          await result.container.start();
+        }
+
+        job.step(
+          'health-check',
+          `Esperando a que ${created.length} réplica(s) nuevas estén listas`,
+        );
+        for (const { container, replica } of created) {
+          await this.waitForContainerReady(
+            container,
+            replica.hostPort,
+            healthCheck,
+          );
+        }
+      } catch (error) {
+        for (const { container } of created) {
+          await this.discardContainer(container);
+        }
+        throw new BadRequestException(
+          `Error al escalar ${subdomain}: ${(error as Error).message}`,
+        );
+      }
+
+      replicas = [...replicas, ...created.map(({ replica }) => replica)].sort(
+        (a, b) => a.index - b.index,
+      );
+      if (this.isPublic(record.spec)) {
+        job.step(
+          'switching',
+          `Añadiendo ${created.length} réplica(s) al upstream de ${subdomain}`,
+        );
+        await this.nginxService.createProxyConfig(
+          subdomain,
+          this.getHostPorts(replicas),
+          record.spec.loadBalancing,
+        );
+      }
+    } else if (count < current.length) {
+      const removed = replicas.slice(count);
+      replicas = replicas.slice(0, count);
+
+      if (this.isPublic(record.spec)) {
+        job.step(
+          'switching',
+          `Retirando ${removed.length} réplica(s) del upstream de ${subdomain}`,
+        );
+        await this.nginxService.createProxyConfig(
+          subdomain,
+          this.getHostPorts(replicas),
+          record.spec.loadBalancing,
+          { requireReload: true },
+        );
+      }
+
+      job.step('draining', `Drenando ${removed.length} réplica(s)`);
+      const removedIds = new Set(removed.map((replica) => replica.containerId));
+      const containers = await this.findSubdomainContainers(subdomain);
+      const drained = containers.filter((container) =>
+        removedIds.has(container.Id),
+      );
+      await this.drainContainers(drained);
+      for (const container of drained) {
+        const slot = this.getContainerSlot(container);
+        if (slot) {
+          await this.portLeases.release(subdomain, slot);
+        }
+      }
+    }
+
+    const spec = { ...record.spec, replicas: count };
+    const [primary] = replicas;
+    this.deploymentStore.saveDeployment({
+      ...record,
+      spec,
+      replicas,
+      containerId: primary.containerId,
+      containerName: primary.containerName,
+      hostPort: primary.hostPort,
+      updatedAt: new Date().toISOString(),
+    });
+    // La revisión activa refleja las réplicas actuales para que un rollback a ella las conserve
+    this.deploymentStore.updateRevision(subdomain, record.revision, { spec });
+
+    this.logger.log(
+      `${subdomain} escalado de ${current.length} a ${count} réplica(s)`,
+    );
+    return {
+      success: true,
+      subdomain,
+      replicas: replicas.map(({ containerName, hostPort }) => ({
+        containerName,
+        hostPort,
+      })),
+    };
+  }
+
+  /**
+   * Encola un comando puntual en un despliegue (migraciones, seeds...)
+   * Se serializa con los despliegues del subdominio; la salida se emite como logs del trabajo
+   */
+  queueExec(
+    subdomain: string,
+    request: ExecSpec,
+    requestedBy = 'api',
+  ): JobReference {
+    if (!this.deploymentStore.getDeployment(subdomain)) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    this.assertValidCommand(request.command);
+
+    const job = this.jobsService.enqueue({
+      type: 'exec',
+      key: subdomain,
+      description: `Ejecutar \`${request.command.join(' ')}\` en ${subdomain}`,
+      run: (job) => this.execCommand(subdomain, request, requestedBy, job),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  private async execCommand(
+    subdomain: string,
+    request: ExecSpec,
+    requestedBy: string,
+    job: JobContext,
+  ) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    const mode = request.mode ?? 'exec';
+    const timeoutSeconds =
+      request.timeoutSeconds ?? this.getExecTimeoutSeconds();
+    await this.ensureDockerConnection();
+    this.logger.log(
+      `Ejecutando \`${request.command.join(' ')}\` en ${subdomain} (${mode}, por ${requestedBy})`,
+    );
+
+    let containerName: string;
+    let result: CommandResult;
+    if (mode === 'exec') {
+      const serving = await this.getServingContainer(
+        subdomain,
+        request.replica,
+      );
+      const info = await serving.container.inspect();
+      if (!info.State.Running || info.State.Paused) {
+        throw new BadRequestException(
+          `El contenedor ${serving.containerName} no está en ejecución (${info.State.Status}). Usa mode=run para ejecutar el comando en un contenedor nuevo`,
+        );
+      }
+
+      containerName = serving.containerName;
+      job.step('running', `Ejecutando el comando en ${containerName}`);
+      result = await this.runInContainer(
+        serving.container,
+        request.command,
+        timeoutSeconds,
+        job,
+      );
+    } else {
+      const task = await this.runTaskContainer(
+        {
+          name: `${subdomain}-exec`,
+          subdomain,
+          imageName: record.imageName,
+          imageRef: record.imageDigest ?? record.imageId ?? record.imageName,
+          command: request.command,
+          env: this.secretsService.resolveContainerEnv(
+            subdomain,
+            record.spec.env,
+            record.spec.secrets,
+          ),
+          timeoutSeconds,
+          network: record.spec.network,
+          resources: record.spec.resources,
+        },
+        job,
+      );
+      // El contenedor desechable sólo deja sus logs al terminar
+      task.logs.forEach((line) => job.log(line));
+      containerName = task.containerName;
+      result = {
+        exitCode: task.exitCode,
+        timedOut: task.timedOut,
+        durationMs: task.durationMs,
+        output: task.logs,
+      };
+    }
+
+    const summary = {
+      subdomain,
+      mode,
+      containerName,
+      command: request.command,
+      ...result,
+    };
+    if (result.exitCode !== 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Command Failed',
+        message: result.timedOut
+          ? `El comando superó el tiempo máximo de ${timeoutSeconds}s`
+          : `El comando terminó con el código de salida ${result.exitCode}`,
+        ...summary,
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Ejecuta un comando con docker exec en un contenedor en marcha y recoge su salida
+   * Al superar el tiempo máximo se deja de esperar: Docker no permite detener un exec, el proceso
+   * puede seguir en el contenedor hasta que termine por sí mismo
+   */
+  private async runInContainer(
+    container: Docker.Container,
+    command: string[],
+    timeoutSeconds: number,
+    job?: JobContext,
+  ): Promise<CommandResult> {
+    const startedAt = Date.now();
+    const exec = await container.exec({
+      Cmd: command,
+      AttachStdout: true,
+      AttachStderr: true,
+      Tty: false,
+    });
+    const stream = (await exec.start({
+      hijack: true,
+      stdin: false,
+    })) as unknown as Readable;
+
+    const output: string[] = [];
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    this.docker.modem.demuxStream(stream, stdout, stderr);
+    const endOutputs = () => {
+      stdout.end();
+      stderr.end();
+    };
+    stream.once('end', endOutputs);
+    stream.once('error', endOutputs);
+
+    const drained = Promise.all(
+      [stdout, stderr].map((source) => {
+        const reader = readline.createInterface({
+          input: source,
+          crlfDelay: Infinity,
+        });
+        reader.on('line', (line) => {
+          output.push(line);
+          job?.log(line);
+        });
+        return new Promise<void>((resolve) => reader.once('close', resolve));
+      }),
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      drained.then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutSeconds * 1000);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!finished) {
+      this.logger.warn(
+        `El comando \`${command.join(' ')}\` superó ${timeoutSeconds}s; se deja de esperar`,
+      );
+      stream.destroy();
+      endOutputs();
+    }
+
+    const { ExitCode } = await exec.inspect();
+    return {
+      exitCode: finished ? ExitCode : null,
+      timedOut: !finished,
+      durationMs: Date.now() - startedAt,
+      output: output.slice(-EXEC_OUTPUT_LINES),
+    };
+  }
+
+  private assertValidCommand(command: string[] | undefined) {
+    if (
+      !command ||
+      command.length === 0 ||
+      command.some((part) => typeof part !== 'string')
+    ) {
+      throw new BadRequestException(
+        'El comando debe ser una lista no vacía de argumentos (p. ej. ["npm", "run", "migrate"])',
+      );
+    }
+  }
+
+  private getExecTimeoutSeconds() {
+    return Number(this.configService.get('DEPLOY_EXEC_TIMEOUT_SECONDS') || 300);
+  }
+
+  /**
+   * Encola un canary: la nueva imagen arranca junto a las réplicas estables y recibe `weight`% del tráfico
+   */
+  queueCanary(
+    subdomain: string,
+    canary: CanarySpec,
+    deployedBy = 'api',
+  ): JobReference {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    this.assertNoCanary(record);
+    if (!this.isPublic(record.spec)) {
+      throw new BadRequestException(
+        `${subdomain} no tiene proxy público (es privado o un worker): el canary reparte el tráfico de Nginx`,
+      );
+    }
+    this.policy.assertAllowed({ subdomain, imageName: canary.imageName });
+
+    const job = this.jobsService.enqueue({
+      type: 'canary',
+      key: subdomain,
+      description: `Canary de ${canary.imageName} en ${subdomain} (${canary.weight}%)`,
+      run: (job) => this.startCanary(subdomain, canary, deployedBy, job),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Encola el cambio del porcentaje de tráfico del canary
+   */
+  queueCanaryWeight(subdomain: string, weight: number): JobReference {
+    this.getActiveCanary(subdomain);
+
+    const job = this.jobsService.enqueue({
+      type: 'canary-weight',
+      key: subdomain,
+      description: `Enviar ${weight}% del tráfico de ${subdomain} al canary`,
+      run: async (job) => {
+        const { record, canary } = this.getActiveCanary(subdomain);
+        job.step(
+          'switching',
+          `Repartiendo el tráfico: ${100 - weight}% estable, ${weight}% canary`,
+        );
+        await this.applyCanaryRouting(record, canary.replicas, weight);
+
+        this.deploymentStore.saveDeployment({
+          ...record,
+          canary: { ...canary, weight, updatedAt: new Date().toISOString() },
+        });
+        return { success: true, subdomain, weight };
+      },
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Encola la promoción del canary: su imagen pasa a ser la estable con todas las réplicas
+   */
+  queueCanaryPromotion(subdomain: string, deployedBy = 'api'): JobReference {
+    const { canary } = this.getActiveCanary(subdomain);
+
+    const job = this.jobsService.enqueue({
+      type: 'canary-promote',
+      key: subdomain,
+      description: `Promover el canary ${canary.imageName} en ${subdomain}`,
+      run: async (job) => {
+        const { record, canary } = this.getActiveCanary(subdomain);
+
+        // El canary se retira antes del despliegue blue/green de su imagen (fijada por digest):
+        // mientras tanto las réplicas estables atienden todo el tráfico
+        await this.removeCanary(record, canary, job);
+
+        return this.deploy(
+          { ...canary.spec, replicas: record.spec.replicas },
+          {
+            deployedBy,
+            imageRef: canary.imageDigest ?? canary.imageId ?? canary.imageName,
+            job,
+          },
+        );
+      },
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Encola el aborto del canary: todo el tráfico vuelve a las réplicas estables
+   */
+  queueCanaryAbort(subdomain: string): JobReference {
+    this.getActiveCanary(subdomain);
+
+    const job = this.jobsService.enqueue({
+      type: 'canary-abort',
+      key: subdomain,
+      description: `Abortar el canary de ${subdomain}`,
+      run: async (job) => {
+        const { record, canary } = this.getActiveCanary(subdomain);
+        await this.removeCanary(record, canary, job);
+        return { success: true, subdomain, aborted: canary.imageName };
+      },
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Arranca el contenedor canary en el color libre y le envía una parte del tráfico cuando está listo
+   */
+  private async startCanary(
+    subdomain: string,
+    request: CanarySpec,
+    deployedBy: string,
+    job: JobContext,
+  ) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `El despliegue de ${subdomain} se eliminó antes de iniciar el canary`,
+      );
+    }
+    this.assertNoCanary(record);
+    if (record.status !== 'running') {
+      throw new BadRequestException(
+        `No se puede iniciar un canary en ${subdomain} en estado ${record.status}`,
+      );
+    }
+
+    await this.ensureDockerConnection();
+
+    const stable = await this.docker.getContainer(record.containerId).inspect();
+    const stableColor = stable.Config.Labels?.[LABEL_COLOR] as
+      | DeploymentColor
+      | undefined;
+    if (!stableColor) {
+      throw new BadRequestException(
+        `${subdomain} usa un contenedor sin color (anterior a blue/green). Vuelve a desplegarlo antes de iniciar un canary`,
+      );
+    }
+    const color: DeploymentColor = stableColor === 'green' ? 'blue' : 'green';
+
+    // El canary hereda todo del estable salvo la imagen, el entorno propio y el health check si se indican
+    const spec: DeploySpec = {
+      ...record.spec,
+      imageName: request.imageName,
+      env: request.env ?? record.spec.env,
+      healthCheck: request.healthCheck
+        ? this.healthCheckService.resolveSpec(request.healthCheck)
+        : record.spec.healthCheck,
+      replicas: 1,
+    };
+
+    const containers = await this.findSubdomainContainers(subdomain);
+    for (const leftover of containers.filter(
+      (container) => container.Labels?.[LABEL_COLOR] === color,
+    )) {
+      await this.removeContainerIfExists(leftover.Id);
+    }
+
+    this.policy.assertAllowed({ subdomain, imageName: request.imageName });
+    job.step('pulling', `Descargando ${request.imageName}`);
+    const image = await this.pullImageWithinPolicy(
+      { subdomain, imageName: request.imageName },
+      request.imageName,
+      job,
+    );
+
+    const runtime = {
+      imageRef: request.imageName,
+      env: this.secretsService.resolveContainerEnv(
+        subdomain,
+        spec.env,
+        spec.secrets,
+      ),
+      resources: this.resourceLimits.resolve(spec.resources),
+    };
+
+    job.step('creating', `Creando el canary de ${subdomain} en color ${color}`);
+    const { container, replica } = await this.createReplica(
+      spec,
+      color,
+      0,
+      runtime,
+    );
+
+    try {
+      await container.start();
+      job.step('health-check', 'Esperando a que el canary esté listo');
+      await this.waitForContainerReady(
+        container,
+        replica.hostPort,
+        spec.healthCheck
+          ? this.healthCheckService.resolveSpec(spec.healthCheck)
+          : undefined,
+      );
+    } catch (error) {
+      const logs = await this.getContainerLogTail(container);
+      await this.discardContainer(container);
+      throw new BadRequestException({
+        statusCode: 400,
+        error:
+          error instanceof HealthCheckFailedError
+            ? 'Health Check Failed'
+            : 'Bad Request',
+        message: `El canary de ${subdomain} no quedó listo: ${(error as Error).message}`,
+        logs,
+      });
+    }
+
+    job.step(
+      'switching',
+      `Repartiendo el tráfico: ${100 - request.weight}% estable, ${request.weight}% canary`,
+    );
+    await this.applyCanaryRouting(record, [replica], request.weight);
+
+    const now = new Date().toISOString();
+    const canary: CanaryRecord = {
+      spec,
+      imageName: request.imageName,
+      imageDigest: image.digest,
+      imageId: image.id,
+      weight: request.weight,
+      replicas: [replica],
+      deployedBy,
+      startedAt: now,
+      updatedAt: now,
+    };
+    this.deploymentStore.saveDeployment({ ...record, canary });
+    this.logger.log(
+      `Canary ${request.imageName} activo en ${subdomain} con el ${request.weight}% del tráfico`,
+    );
+
+    return {
+      success: true,
+      subdomain,
+      imageName: canary.imageName,
+      imageDigest: canary.imageDigest,
+      weight: canary.weight,
+      containerName: replica.containerName,
+      hostPort: replica.hostPort,
+    };
+  }
+
+  /**
+   * Reparte el upstream entre las réplicas estables y las del canary
+   * Con N réplicas estables de peso (100 - w) y canarios de peso w·N / M, el canary recibe w% del total
+   */
+  private async applyCanaryRouting(
+    record: DeploymentRecord,
+    canaryReplicas: ReplicaRecord[],
+    weight: number,
+  ) {
+    const stable = this.getHostPorts(this.getRecordReplicas(record));
+    const canary = this.getHostPorts(canaryReplicas);
+    const canaryWeight = Math.max(
+      1,
+      Math.round((weight * stable.length) / canary.length),
+    );
+
+    await this.nginxService.createProxyConfig(
+      record.subdomain,
+      [
+        ...stable.map((port) => ({ port, weight: 100 - weight })),
+        ...canary.map((port) => ({ port, weight: canaryWeight })),
+      ],
+      record.spec.loadBalancing,
+    );
+  }
+
+  /**
+   * Devuelve todo el tráfico a las réplicas estables y elimina los contenedores del canary
+   */
+  private async removeCanary(
+    record: DeploymentRecord,
+    canary: CanaryRecord,
+    job: JobContext,
+  ) {
+    job.step(
+      'switching',
+      `Devolviendo todo el tráfico de ${record.subdomain} a las réplicas estables`,
+    );
+    await this.nginxService.createProxyConfig(
+      record.subdomain,
+      this.getHostPorts(this.getRecordReplicas(record)),
+      record.spec.loadBalancing,
+      { requireReload: true },
+    );
+
+    job.step('draining', 'Retirando el canary');
+    const canaryIds = new Set(
+      canary.replicas.map((replica) => replica.containerId),
+    );
+    const containers = await this.findSubdomainContainers(record.subdomain);
+    await this.drainContainers(
+      containers.filter((container) => canaryIds.has(container.Id)),
+    );
+
+    this.deploymentStore.saveDeployment({
+      ...record,
+      canary: undefined,
+      updatedAt: new Date().toISOString(),
+    });
+    this.logger.log(
+      `Canary ${canary.imageName} retirado de ${record.subdomain}`,
+    );
+  }
+
+  private getActiveCanary(subdomain: string): {
+    record: DeploymentRecord;
+    canary: CanaryRecord;
+  } {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    if (!record.canary) {
+      throw new NotFoundException(`${subdomain} no tiene un canary activo`);
+    }
+    return { record, canary: record.canary };
+  }
+
+  /**
+   * Con un canary activo, las operaciones que cambian las réplicas estables deben esperar a promoverlo o abortarlo
+   */
+  private assertNoCanary(record: DeploymentRecord | null) {
+    if (record?.canary) {
+      throw new BadRequestException(
+        `${record.subdomain} tiene un canary activo (${record.canary.imageName}). Promuévelo o abórtalo primero`,
+      );
+    }
+  }
+
+  /**
+   * Volúmenes gestionados (de un subdominio o de todos) con su ruta de montaje y su uso de disco
+   */
+  async listVolumes(subdomain?: string) {
+    await this.ensureDockerConnection();
+
+    const { Volumes } = await this.docker.listVolumes({
+      filters: {
+        label: [
+          `${LABEL_MANAGED}=true`,
+          ...(subdomain ? [`${LABEL_SUBDOMAIN}=${subdomain}`] : []),
+        ],
+      },
+    });
+
+    // El tamaño sólo lo calcula `docker system df`
+    const usage = (await this.docker.df()) as {
+      Volumes?: {
+        Name: string;
+        UsageData?: { Size: number; RefCount: number } | null;
+      }[];
+    };
+    const usageByName = new Map(
+      (usage.Volumes ?? []).map((volume) => [volume.Name, volume.UsageData]),
+    );
+
+    return (Volumes ?? [])
+      .map((volume) => {
+        const owner = volume.Labels?.[LABEL_SUBDOMAIN] ?? '';
+        const name = volume.Labels?.[LABEL_VOLUME] ?? volume.Name;
+        const declared = this.deploymentStore
+          .getDeployment(owner)
+          ?.spec.volumes?.find((item) => item.name === name);
+        const data = usageByName.get(volume.Name);
+
+        return {
+          subdomain: owner,
+          name,
+          volumeName: volume.Name,
+          // null si el despliegue actual ya no declara el volumen (se conserva hasta purgarlo)
+          mountPath: declared?.mountPath ?? null,
+          readOnly: declared?.readOnly ?? false,
+          sizeBytes: data && data.Size >= 0 ? data.Size : null,
+          containers: data && data.RefCount >= 0 ? data.RefCount : null,
+        };
+      })
+      .sort((a, b) => a.volumeName.localeCompare(b.volumeName));
+  }
+
+  /**
+   * Ejecuta un contenedor efímero hasta que termina (tareas programadas)
+   * Si supera el tiempo máximo se detiene; el contenedor se elimina siempre al acabar
+   */
+  async runTaskContainer(
+    task: TaskContainerSpec,
+    job?: JobContext,
+  ): Promise<TaskContainerResult> {
+    const { name, imageName } = task;
+    const imageRef = task.imageRef ?? imageName;
+    const policyInput = {
+      subdomain: task.subdomain ?? name,
+      imageName,
+      imageRef,
+    };
+    this.policy.assertAllowed(policyInput);
+    await this.ensureDockerConnection();
+
+    job?.step('pulling', `Descargando imagen ${imageRef}`);
+    await this.pullImageWithinPolicy(policyInput, imageRef, job);
+
+    const containerName = `${TASK_CONTAINER_PREFIX}${name}-${Date.now()}`;
+    const network = await this.ensureNetwork(task.network);
+    const container = await this.docker.createContainer({
+      Image: imageRef,
+      name: containerName,
+      Cmd: task.command ?? undefined,
+      Env: task.env,
+      Labels: {
+        [LABEL_MANAGED]: 'true',
+        [LABEL_TASK]: name,
+      },
+      HostConfig: {
+        NetworkMode: network,
+        ...this.resourceLimits.toHostConfig(
+          this.resourceLimits.resolve(task.resources),
+        ),
+        // Una tarea que termina no se vuelve a arrancar
+        RestartPolicy: { Name: 'no' },
+      },
+    });
+
+    const startedAt = Date.now();
+    try {
+      job?.step('running', `Ejecutando ${containerName}`);
+      await container.start();
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), task.timeoutSeconds * 1000);
+      });
+      const exit = await Promise.race([
+        container.wait() as Promise<{ StatusCode: number }>,
+        timeout,
+      ]);
+      clearTimeout(timer);
+
+      const timedOut = exit === null;
+      if (timedOut) {
+        this.logger.warn(
+          `La tarea ${name} superó ${task.timeoutSeconds}s. Deteniendo ${containerName}`,
+        );
+        job?.log(
+          `Tiempo máximo superado (${task.timeoutSeconds}s): deteniendo el contenedor`,
+        );
+        await container
+          .stop({ t: 10 })
+          .catch((error: Error) =>
+            this.logger.warn(
+              `No se pudo detener ${containerName}: ${error.message}`,
+            ),
+          );
+      }
+
+      const result: TaskContainerResult = {
+        containerName,
+        exitCode: timedOut ? null : exit.StatusCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        logs: await this.getContainerLogTail(container, 200),
+      };
+      this.logger.log(
+        `Tarea ${name} terminada en ${result.durationMs}ms ` +
+          `(${timedOut ? 'tiempo máximo superado' : `código de salida ${result.exitCode}`})`,
+      );
+      return result;
+    } finally {
+      await container
+        .remove({ force: true })
+        .catch((error: Error) =>
+          this.logger.warn(
+            `No se pudo eliminar el contenedor de la tarea ${containerName}: ${error.message}`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Política de imágenes que se aplica a despliegues, rollbacks y canaries
+   */
+  getPolicy() {
+    return this.policy.getPolicy();
+  }
+
+  /**
+   * Historial de revisiones de un subdominio
+   */
+  listRevisions(subdomain: string) {
+    if (!this.deploymentStore.getDeployment(subdomain)) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+    return this.deploymentStore.listRevisions(subdomain);
+  }
+
+  /**
+   * Adopta en el registro los contenedores desplegados antes de que existiera
+   * Se ejecuta en segundo plano para no bloquear el arranque si Docker no responde
+   */
+  onModuleInit() {
+    void this.adoptUnregisteredContainers().catch((error: Error) =>
+      this.logger.warn(
+        `No se pudieron adoptar los contenedores existentes: ${error.message}`,
+      ),
+    );
+    void this.watchContainerEvents();
+  }
+
+  onModuleDestroy() {
+    this.destroyed = true;
+    clearTimeout(this.eventsRetry);
+    this.eventsStream?.destroy();
+  }
+
+  /**
+   * Monitor de contenedores: escucha los eventos de Docker de los contenedores gestionados
+   * (crashes, OOM kills, HEALTHCHECK) y se reconecta si el stream se corta
+   */
+  private async watchContainerEvents() {
+    try {
+      const stream = (await this.docker.getEvents({
+        filters: { type: ['container'], label: [`${LABEL_MANAGED}=true`] },
+      })) as unknown as Readable;
+      this.eventsStream = stream;
+      this.logger.log('Monitor de eventos de contenedores conectado');
+
+      // Docker envía un objeto JSON por línea
+      const reader = readline.createInterface({
+        input: stream,
+        crlfDelay: Infinity,
+      });
+      reader.on('line', (line) => {
+        try {
+          const event = this.containerEvents.handleDockerEvent(
+            JSON.parse(line) as DockerEventMessage,
+          );
+          if (event?.type === 'crash' || event?.type === 'oom') {
+            this.notifyContainerCrash(event);
+          }
+        } catch (error) {
+          this.logger.debug(
+            `Evento de Docker ignorado: ${(error as Error).message}`,
+          );
+        }
+      });
+
+      await new Promise<void>((resolve) => {
+        reader.once('close', resolve);
+        stream.once('error', (error: Error) => {
+          this.logger.warn(
+            `Stream de eventos de Docker interrumpido: ${error.message}`,
+          );
+          resolve();
+        });
+      });
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo conectar al stream de eventos de Docker: ${(error as Error).message}`,
+      );
+    }
+
+    this.eventsStream = null;
+    if (!this.destroyed) {
+      this.eventsRetry = setTimeout(
+        () => void this.watchContainerEvents(),
+        EVENTS_RETRY_MS,
+      );
+    }
+  }
+
+  /**
+   * Notifica un crash u OOM kill junto con la salud resultante del despliegue
+   */
+  private notifyContainerCrash(event: ContainerEventRecord) {
+    const record = this.deploymentStore.getDeployment(event.subdomain);
+    const health = record
+      ? this.getDeploymentHealth(record)
+      : this.containerEvents.getHealth(event.subdomain);
+    const cause =
+      event.type === 'oom'
+        ? 'se quedó sin memoria (OOM kill)'
+        : `terminó inesperadamente con código ${event.exitCode}`;
+    void this.notifications.notify('container.crash', {
+      subject: event.subdomain,
+      message: `${event.containerName} (${event.subdomain}) ${cause}. Estado: ${health.state}`,
+      data: { ...event, health },
+    });
+  }
+
+  /**
+   * Eventos recientes de los contenedores de un despliegue y su salud
+   */
+  getContainerEvents(subdomain: string, limit = 50) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+
+    return {
+      subdomain,
+      health: this.getDeploymentHealth(record),
+      events: this.containerEvents.listEvents(subdomain, limit),
+    };
+  }
+
+  /**
+   * Salud calculada sólo con los contenedores actuales (réplicas y canary)
+   */
+  private getDeploymentHealth(record: DeploymentRecord) {
+    const containerIds = [
+      ...this.getRecordReplicas(record),
+      ...(record.canary?.replicas ?? []),
+    ].map((replica) => replica.containerId);
+    return this.containerEvents.getHealth(record.subdomain, containerIds);
+  }
+
+  /**
+   * Contenedores de despliegues que Docker tiene etiquetados como gestionados (lo usa el reconciliador
+   * para detectar los que no tienen registro). No incluye los contenedores de las tareas programadas
+   */
+  async listManagedContainers() {
+    await this.ensureDockerConnection();
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: [`${LABEL_MANAGED}=true`] },
+    });
+
+    return containers
+      .filter(
+        (container) =>
+          container.Labels?.[LABEL_SUBDOMAIN] && !container.Labels[LABEL_TASK],
+      )
+      .map((container) => ({
+        subdomain: container.Labels[LABEL_SUBDOMAIN],
+        containerName: container.Names?.[0]?.replace('/', '') || container.Id,
+        state: container.State,
+      }));
+  }
+
+  /**
+   * Proxy que debería tener un despliegue según su registro (lo usa el reconciliador)
+   * @returns null si no debe tener proxy (workers y despliegues privados)
+   */
+  getExpectedProxy(record: DeploymentRecord): ExpectedProxy | null {
+    if (!this.isPublic(record.spec)) {
+      return null;
+    }
+
+    return {
+      // Detenido o en pausa sirve la página de mantenimiento
+      mode:
+        record.status === 'stopped' || record.status === 'paused'
+          ? 'maintenance'
+          : 'proxy',
+      ports: this.getHostPorts([
+        ...this.getRecordReplicas(record),
+        ...(record.canary?.replicas ?? []),
+      ]),
+    };
+  }
+
+  /**
+   * Reescribe la configuración de Nginx de un despliegue a partir de su registro
+   * (puertos de las réplicas, pesos del canary y página de mantenimiento)
+   */
+  async restoreProxyRoute(subdomain: string) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+
+    const expected = this.getExpectedProxy(record);
+    if (!expected) {
+      if (this.deploymentStore.getProxyRoute(subdomain)) {
+        await this.nginxService.removeProxyConfig(subdomain);
+      }
+      return { subdomain, mode: null, ports: [] };
+    }
+
+    if (record.canary) {
+      await this.applyCanaryRouting(
+        record,
+        record.canary.replicas,
+        record.canary.weight,
+      );
+    } else {
+      await this.nginxService.createProxyConfig(
+        subdomain,
+        this.getHostPorts(this.getRecordReplicas(record)),
+        record.spec.loadBalancing,
+      );
+    }
+    if (expected.mode === 'maintenance') {
+      await this.nginxService.setMaintenanceConfig(subdomain);
+    }
+
+    this.logger.log(
+      `Proxy de ${subdomain} restaurado (${expected.mode}: ${expected.ports.join(', ')})`,
+    );
+    return { subdomain, ...expected };
+  }
+
+  private async adoptUnregisteredContainers() {
+    const containers = await this.docker.listContainers({ all: true });
+
+    for (const container of containers) {
+      const name = container.Names?.[0]?.replace('/', '') || '';
+      const isManaged =
+        Boolean(container.Labels?.[LABEL_SUBDOMAIN]) ||
+        name.startsWith(CONTAINER_PREFIX);
+      const subdomain =
+        container.Labels?.[LABEL_SUBDOMAIN] ||
+        name.replace(CONTAINER_PREFIX, '');
+      const portInfo = container.Ports?.find((port) => port.PublicPort);
+
+      if (
+        !isManaged ||
+        !portInfo ||
+        this.deploymentStore.getDeployment(subdomain)
+      ) {
+        continue;
+      }
+
+      const createdAt = new Date(container.Created * 1000).toISOString();
+      const spec: DeploySpec = {
+        imageName: container.Image,
+        subdomain,
+        internalPort: portInfo.PrivatePort,
+      };
+      const image = await this.inspectImage(container.Image);
+      const revision = this.deploymentStore.addRevision(subdomain, {
+        spec,
+        imageName: container.Image,
+        imageDigest: image.digest,
+        imageId: image.id,
+        status: 'active',
+        containerId: container.Id,
+        hostPort: portInfo.PublicPort,
+        deployedBy: 'unknown',
+        deployedAt: createdAt,
+      });
+
+      this.deploymentStore.saveDeployment({
+        subdomain,
+        spec,
+        imageName: container.Image,
+        imageDigest: image.digest,
+        imageId: image.id,
+        internalPort: portInfo.PrivatePort,
+        hostPort: portInfo.PublicPort,
+        containerId: container.Id,
+        containerName: name,
+        status: 'running',
+        revision: revision.revision,
+        deployedBy: 'unknown',
+        createdAt,
+        updatedAt: createdAt,
+      });
+      this.logger.log(`Contenedor existente adoptado en el registro: ${name}`);
+    }
+  }
+
+  /**
+   * Lista todos los despliegues registrados con el estado actual de su contenedor
+   */
+  async listDeployments() {
+    try {
+      const records = this.deploymentStore.listDeployments();
+      const containers = await this.docker.listContainers({ all: true });
+      const containersById = new Map(
+        containers.map((container) => [container.Id, container]),
+      );
+
+      const all = records.map((record) =>
+        this.toDeploymentSummary(
+          record,
+          containersById.get(record.containerId),
+        ),
+      );
+
+      // Los servicios internos de un stack se listan como hijos de su servicio expuesto
+      const exposedStacks = new Set(
+        all
+          .filter((summary) => summary.stack?.exposed)
+          .map((summary) => summary.stack!.name),
+      );
+      const isChild = (summary: (typeof all)[number]) =>
+        !!summary.stack &&
+        !summary.stack.exposed &&
+        exposedStacks.has(summary.stack.name);
+      const summaries = all
+        .filter((summary) => !isChild(summary))
+        .map((summary) =>
+          summary.stack?.exposed
+            ? {
+                ...summary,
+                children: all.filter(
+                  (child) =>
+                    isChild(child) && child.stack!.name === summary.stack!.name,
+                ),
+              }
+            : summary,
+        );
+
+      // Los workers se listan aparte de los servicios web
+      return {
+        services: summaries.filter((summary) => summary.kind === 'web'),
+        workers: summaries.filter((summary) => summary.kind === 'worker'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error listando despliegues: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Detalle de un despliegue: registro, contenedor, proxy e historial de revisiones
+   */
+  async getDeployment(subdomain: string) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (!record) {
+      throw new NotFoundException(
+        `No se encontró un despliegue para el subdominio: ${subdomain}`,
+      );
+    }
+
+    const containers = await this.findSubdomainContainers(subdomain);
+    const containersById = new Map(
+      containers.map((container) => [container.Id, container]),
+    );
+
+    return {
+      ...this.toDeploymentSummary(
+        record,
+        containersById.get(record.containerId),
+      ),
+      spec: record.spec,
+      replicaContainers: this.getRecordReplicas(record).map((replica) => ({
+        ...replica,
+        status: containersById.get(replica.containerId)?.Status ?? 'missing',
+        state: containersById.get(replica.containerId)?.State ?? 'missing',
+      })),
+      // Límites efectivos con los que se creó el contenedor (null en despliegues anteriores a los límites)
+      resources: record.spec.resources ?? null,
+      canary: record.canary ?? null,
+      health: this.getDeploymentHealth(record),
+      recentEvents: this.containerEvents.listEvents(subdomain, 20),
+      network: this.resolveNetworkName(record.spec.network),
+      proxy: this.deploymentStore.getProxyRoute(subdomain),
+      portLeases: this.portLeases.list(subdomain),
+      revisions: this.deploymentStore.listRevisions(subdomain),
+    };
+  }
+
+  /**
+   * Últimas líneas de log (stdout y stderr) del contenedor que sirve un subdominio
+   */
+  async getLogs(subdomain: string, options: ContainerLogsOptions = {}) {
+    const { container, containerName } = await this.getServingContainer(
+      subdomain,
+      options.replica,
+    );
+
+    const buffer = await container.logs({
+      stdout: true,
+      stderr: true,
+      follow: false,
+      tail: options.tail ?? 100,
+      since: options.since ?? 0,
+      timestamps: options.timestamps ?? false,
+    });
+
+    return { subdomain, containerName, lines: demuxDockerLogs(buffer) };
+  }
+
+  /**
+   * Sigue en vivo los logs del contenedor que sirve un subdominio
+   * El contenedor se resuelve antes de devolver el flujo para que un subdominio inexistente
+   * se responda como un error HTTP normal y no dentro del stream
+   * @returns Observable con una emisión por línea que se completa cuando el contenedor se detiene
+   */
+  async followLogs(
+    subdomain: string,
+    options: ContainerLogsOptions = {},
+  ): Promise<Observable<ContainerLogLine>> {
+    const { container } = await this.getServingContainer(
+      subdomain,
+      options.replica,
+    );
+    const info = await container.inspect();
+
+    const stream = (await container.logs({
+      stdout: true,
+      stderr: true,
+      follow: true,
+      tail: options.tail ?? 100,
+      since: options.since ?? 0,
+      timestamps: options.timestamps ?? false,
+    })) as Readable;
+
+    return new Observable<ContainerLogLine>((subscriber) => {
+      const readers: readline.Interface[] = [];
+      let closedReaders = 0;
+
+      const emitLines = (
+        source: Readable,
+        name: ContainerLogLine['stream'],
+      ) => {
+        const reader = readline.createInterface({
+          input: source,
+          crlfDelay: Infinity,
+        });
+        reader.on('line', (line) => subscriber.next({ stream: name, line }));
+        // El flujo termina cuando se vacían todas las salidas, no cuando acaba el stream de Docker
+        reader.on('close', () => {
+          closedReaders++;
+          if (closedReaders === readers.length) {
+            subscriber.complete();
+          }
+        });
+        readers.push(reader);
+      };
+
+      if (info.Config.Tty) {
+        // Con TTY Docker no multiplexa: todo llega como texto plano por stdout
+        emitLines(stream, 'stdout');
+      } else {
+        const stdout = new PassThrough();
+        const stderr = new PassThrough();
+        this.docker.modem.demuxStream(stream, stdout, stderr);
+        stream.once('end', () => {
+          stdout.end();
+          stderr.end();
+        });
+        emitLines(stdout, 'stdout');
+        emitLines(stderr, 'stderr');
+      }
+
+      stream.once('error', (error) => subscriber.error(error));
+
+      return () => {
+        readers.forEach((reader) => reader.close());
+        stream.destroy();
+      };
+    });
+  }
+
+  /**
+   * Contenedor que sirve un subdominio: el registrado como activo o, si no hay registro, el que esté corriendo
+   */
+  private async getServingContainer(subdomain: string, replica = 0) {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    const containers = await this.findSubdomainContainers(subdomain);
+
+    if (record && replica > 0) {
+      const target = this.getRecordReplicas(record).find(
+        (item) => item.index === replica,
+      );
+      if (!target) {
+        throw new NotFoundException(
+          `${subdomain} no tiene la réplica ${replica}`,
+        );
+      }
+      return {
+        container: this.docker.getContainer(target.containerId),
+        containerName: target.containerName,
+      };
+    }
+
+    const info =
+      containers.find((item) => item.Id === record?.containerId) ??
+      containers.find((item) => item.State === 'running') ??
+      containers[0];
+
+    if (!info) {
+      throw new NotFoundException(
+        `No se encontró un contenedor para el subdominio: ${subdomain}`,
+      );
+    }
+
+    return {
+      container: this.docker.getContainer(info.Id),
+      containerName: info.Names?.[0]?.replace('/', '') || info.Id,
+    };
+  }
+
+  private toDeploymentSummary(
+    record: DeploymentRecord,
+    container?: Docker.ContainerInfo,
+  ) {
+    return {
+      subdomain: record.subdomain,
+      url: this.isPublic(record.spec)
+        ? `https://${record.subdomain}.boogiepop.cloud`
+        : null,
+      // Dirección dentro de la red privada (para otros servicios)
+      internalUrl: record.internalPort
+        ? `http://${record.subdomain}:${record.internalPort}`
+        : null,
+      kind: record.spec.kind ?? 'web',
+      containerId: record.containerId,
+      containerName: record.containerName,
+      image: record.imageName,
+      imageDigest: record.imageDigest,
+      status: container?.Status ?? 'missing',
+      state: container?.State ?? 'missing',
+      deploymentStatus: record.status,
+      // healthy, degraded o crash-looping según los crashes recientes de sus contenedores
+      health: this.getDeploymentHealth(record).state,
+      hostPort: record.hostPort,
+      internalPort: record.internalPort,
+      replicas: this.getRecordReplicas(record).length,
+      canary: record.canary
+        ? { imageName: record.canary.imageName, weight: record.canary.weight }
+        : null,
+      stack: record.spec.stack ?? null,
+      revision: record.revision,
+      deployedBy: record.deployedBy,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * Encola la eliminación de un despliegue
+   * Se ejecuta en serie con los despliegues del mismo subdominio; los servicios de un stack se eliminan con su stack
+   */
+  queueRemoveDeployment(subdomain: string, purgeVolumes = false): JobReference {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    if (record?.spec.stack) {
+      throw new BadRequestException(
+        `${subdomain} es el servicio ${record.spec.stack.service} del stack ${record.spec.stack.name}: se elimina con DELETE /stacks/${record.spec.stack.name}`,
+      );
+    }
+
+    const job = this.jobsService.enqueue({
+      type: 'remove',
+      key: subdomain,
+      description: `Eliminar el despliegue de ${subdomain}`,
+      run: () => this.removeDeployment(subdomain, purgeVolumes),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Detiene y elimina un despliegue (todos sus contenedores)
+   */
+  async removeDeployment(subdomain: string, purgeVolumes = false) {
+    this.logger.log(`Eliminando despliegue para subdominio: ${subdomain}`);
+
+    try {
+      const containers = await this.findSubdomainContainers(subdomain);
+      const record = this.deploymentStore.getDeployment(subdomain);
+
+      if (containers.length === 0 && !record) {
+        throw new BadRequestException(
+          `No se encontró un despliegue para el subdominio: ${subdomain}`,
+        );
+      }
+
+      for (const info of containers) {
+        const containerName = info.Names?.[0]?.replace('/', '') || info.Id;
+        const container = this.docker.getContainer(info.Id);
+
+        // Detener el contenedor si está corriendo
+        if (info.State === 'running' || info.State === 'paused') {
+          this.logger.log(`Deteniendo contenedor: ${containerName}`);
+          await container.stop();
+        }
+
+        // Eliminar el contenedor
+        this.logger.log(`Eliminando contenedor: ${containerName}`);
+        await container.remove();
+      }
+
+      // Los volúmenes se conservan salvo que se pida purgarlos explícitamente
+      const volumes = await this.listVolumes(subdomain);
+      if (purgeVolumes) {
+        for (const volume of volumes) {
+          this.logger.log(`Eliminando volumen: ${volume.volumeName}`);
+          await this.docker.getVolume(volume.volumeName).remove();
+        }
+      } else if (volumes.length > 0) {
+        this.logger.log(
+          `Se conservan ${volumes.length} volumen(es) de ${subdomain}. Usa purgeVolumes=true para eliminarlos`,
+        );
+      }
+
+      // Eliminar la configuración de Nginx (los despliegues privados no tienen)
+      if (
+        this.deploymentStore.getProxyRoute(subdomain) ||
+        !record ||
+        this.isPublic(record.spec)
+      ) {
+        await this.nginxService.removeProxyConfig(subdomain);
+      }
+
+      // Eliminar el registro, su historial, su entorno y sus puertos reservados
+      this.deploymentStore.removeDeployment(subdomain);
+      this.secretsService.removeAll(subdomain);
+      this.containerEvents.clear(subdomain);
+      await this.portLeases.release(subdomain);
+
+      return {
+        success: true,
+        message: `Despliegue eliminado para ${subdomain}.boogiepop.cloud`,
+        subdomain: `${subdomain}.boogiepop.cloud`,
+        purgedVolumes: purgeVolumes
+          ? volumes.map((volume) => volume.volumeName)
+          : [],
+        keptVolumes: purgeVolumes
+          ? []
+          : volumes.map((volume) => volume.volumeName),
+      };
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        throw new BadRequestException(
+          `No se encontró un despliegue para el subdominio: ${subdomain}`,
+        );
+      }
+      this.logger.error(
+        `Error eliminando despliegue: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
@@ -0,0 +1,364 @@
+import type { JobContext } from '../jobs/jobs.types';
+import type { LoadBalancingMethod } from '../nginx/nginx-template';
+
+/**
+ * Tipos del módulo de despliegue
+ */
+
+/**
+ * Especificación de la verificación de salud HTTP de un despliegue
+ * Todos los tiempos están expresados en segundos
+ */
+export interface HealthCheckSpec {
+  path: string;
+  expectedStatus: number;
+  timeoutSeconds: number;
+  retries: number;
+  intervalSeconds: number;
+  startPeriodSeconds: number;
+}
+
+/**
+ * Políticas de reinicio de Docker admitidas
+ */
+export type RestartPolicyName =
+  | 'no'
+  | 'always'
+  | 'unless-stopped'
+  | 'on-failure';
+
+/**
+ * Límites de recursos y política de reinicio de los contenedores de un despliegue
+ * `null` significa sin límite
+ */
+export interface ResourceLimits {
+  memoryMb: number;
+  // Memoria + swap; -1 permite swap ilimitado
+  memorySwapMb: number;
+  // Fracción de vCPU (0.5 = media vCPU), aplicada como cuota de CPU
+  cpus: number | null;
+  // Peso relativo frente a otros contenedores cuando hay contención (por defecto de Docker: 1024)
+  cpuShares: number | null;
+  pidsLimit: number | null;
+  restartPolicy: RestartPolicyName;
+  // Sólo con `on-failure`: reintentos antes de rendirse (0 = sin límite)
+  maxRestartRetries: number;
+}
+
+/**
+ * Tipo de despliegue: servicio HTTP o proceso en segundo plano (consumidores de colas, planificadores...)
+ */
+export type DeploymentKind = 'web' | 'worker';
+
+export const DEPLOYMENT_KINDS: DeploymentKind[] = ['web', 'worker'];
+
+/**
+ * Especificación completa de un despliegue
+ */
+export interface DeploySpec {
+  imageName: string;
+  subdomain: string;
+  // Los workers no lo necesitan; si lo indican, sólo se expone dentro de la red privada
+  internalPort?: number;
+  // web (por defecto): servicio HTTP detrás de Nginx; worker: proceso sin puerto ni proxy
+  kind?: DeploymentKind;
+  healthCheck?: Partial<HealthCheckSpec>;
+  resources?: Partial<ResourceLimits>;
+  // Número de contenedores que sirven el subdominio (por defecto 1)
+  replicas?: number;
+  loadBalancing?: LoadBalancingMethod;
+  // Variables en texto plano propias de este despliegue
+  env?: Record<string, string>;
+  // Nombres de los secrets a inyectar (sólo los nombres, nunca los valores)
+  secrets?: string[];
+  // Volúmenes persistentes del subdominio (sobreviven a redespliegues y rollbacks)
+  volumes?: VolumeMount[];
+  // Grupo de red privada; sin grupo, el contenedor se une a la red común del orquestador
+  network?: string;
+  // false = sin proxy público: sólo accesible desde la red privada en http://<subdominio>:<puerto interno>
+  public?: boolean;
+  // Comando (p. ej. migraciones) que se ejecuta en la nueva versión antes de conmutar el tráfico
+  preSwitch?: PreSwitchHookSpec;
+  // Stack al que pertenece el despliegue (lo gestiona /stacks, no se despliega por separado)
+  stack?: StackMembership;
+}
+
+/**
+ * Servicio de un stack desplegado como un despliegue más
+ * El servicio expuesto usa el nombre del stack como subdominio; el resto, `<stack>-<servicio>`
+ */
+export interface StackMembership {
+  name: string;
+  service: string;
+  exposed: boolean;
+}
+
+/**
+ * Especificación efectiva de un despliegue (la que se guarda en cada revisión)
+ */
+export interface ResolvedDeploySpec extends DeploySpec {
+  healthCheck?: HealthCheckSpec;
+  resources: ResourceLimits;
+  replicas: number;
+  kind: DeploymentKind;
+}
+
+/**
+ * Hook previo a la conmutación del tráfico
+ * Se ejecuta con docker exec en la primera réplica nueva, ya verificada; si termina con
+ * un código distinto de 0 el despliegue se descarta y la versión anterior sigue sirviendo
+ */
+export interface PreSwitchHookSpec {
+  command: string[];
+  timeoutSeconds?: number;
+}
+
+/**
+ * Volumen con nombre montado en el contenedor
+ * El volumen de Docker se llama `<subdominio>-<nombre>` y lo comparten todas las réplicas
+ */
+export interface VolumeMount {
+  name: string;
+  mountPath: string;
+  readOnly?: boolean;
+}
+
+/**
+ * Petición de un canary: la nueva imagen y la parte del tráfico que recibe
+ * El resto de la especificación se hereda del despliegue estable
+ */
+export interface CanarySpec {
+  imageName: string;
+  // Porcentaje del tráfico (1-99)
+  weight: number;
+  env?: Record<string, string>;
+  healthCheck?: Partial<HealthCheckSpec>;
+}
+
+/**
+ * Opciones de ejecución de un despliegue (no forman parte de la especificación guardada)
+ */
+export interface DeployOptions {
+  deployedBy?: string;
+  // Referencia inmutable de la imagen (repo@sha256:... o ID) usada en los rollbacks
+  imageRef?: string;
+  // Revisión que se está restaurando
+  rollbackOf?: number;
+  // Trabajo que ejecuta el despliegue, para informar de fases y progreso
+  job?: JobContext;
+}
+
+/**
+ * Opciones de lectura de los logs de un contenedor
+ */
+export interface ContainerLogsOptions {
+  tail?: number;
+  // Timestamp Unix en segundos
+  since?: number;
+  timestamps?: boolean;
+  // Índice de la réplica (por defecto, la primera)
+  replica?: number;
+}
+
+/**
+ * Línea de log emitida en modo follow
+ */
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+/**
+ * Acciones de ciclo de vida sobre el contenedor activo de un despliegue
+ */
+export type LifecycleAction = 'stop' | 'start' | 'restart' | 'pause';
+
+/**
+ * Forma de ejecutar un comando puntual en un despliegue
+ * exec: dentro de un contenedor en ejecución; run: en un contenedor desechable con la misma imagen, entorno y red
+ */
+export type ExecMode = 'exec' | 'run';
+
+export const EXEC_MODES: ExecMode[] = ['exec', 'run'];
+
+/**
+ * Comando puntual en un despliegue (migraciones, seeds, tareas de mantenimiento)
+ */
+export interface ExecSpec {
+  command: string[];
+  mode?: ExecMode;
+  timeoutSeconds?: number;
+  // Réplica en la que se ejecuta con mode=exec (por defecto, la primera)
+  replica?: number;
+}
+
+/**
+ * Código fuente de una imagen construida en el host
+ * Un repositorio Git (lo descarga el daemon de Docker) o un contexto subido antes como tarball
+ */
+export interface BuildSource {
+  repository?: string;
+  // Rama, tag o commit (por defecto, la rama principal)
+  ref?: string;
+  // Subdirectorio del repositorio que se usa como contexto
+  path?: string;
+  contextId?: string;
+}
+
+/**
+ * Construcción de la imagen de un despliegue desde el código fuente
+ */
+export interface BuildSpec {
+  source: BuildSource;
+  // Ruta del Dockerfile dentro del contexto (por defecto, Dockerfile)
+  dockerfile?: string;
+  buildArgs?: Record<string, string>;
+  // Construir sin reutilizar la caché de las builds anteriores del subdominio
+  noCache?: boolean;
+}
+
+/**
+ * Resultado de un comando ejecutado con docker exec
+ */
+export interface CommandResult {
+  // null si se abandonó por superar el tiempo máximo
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Salida combinada de stdout y stderr (últimas líneas)
+  output: string[];
+}
+
+/**
+ * Contenedor efímero que se ejecuta hasta terminar (tareas programadas y comandos con mode=run)
+ */
+export interface TaskContainerSpec {
+  // Nombre de la tarea; forma parte del nombre del contenedor
+  name: string;
+  imageName: string;
+  // Referencia que se descarga y ejecuta (p. ej. el digest del despliegue); por defecto imageName
+  imageRef?: string;
+  // Subdominio con el que se evalúa la política de imágenes; por defecto el nombre de la tarea
+  subdomain?: string;
+  // Comando que sustituye al CMD de la imagen (null = el de la imagen)
+  command: string[] | null;
+  // Variables en formato KEY=valor
+  env: string[];
+  // Tiempo máximo de ejecución; al superarlo el contenedor se detiene
+  timeoutSeconds: number;
+  // Grupo de red privada al que se une (para llegar a los servicios por su subdominio)
+  network?: string;
+  resources?: Partial<ResourceLimits>;
+}
+
+/**
+ * Resultado de un contenedor efímero
+ */
+export interface TaskContainerResult {
+  containerName: string;
+  // null si se detuvo por superar el tiempo máximo
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Últimas líneas de log
+  logs: string[];
+}
+
+/**
+ * Evento de un contenedor gestionado, normalizado a partir del stream de eventos de Docker
+ * crash: el contenedor terminó sin que nadie lo detuviera; stop: terminó tras una orden de parada
+ */
+export type ContainerEventType =
+  | 'start'
+  | 'stop'
+  | 'crash'
+  | 'oom'
+  | 'unhealthy'
+  | 'healthy';
+
+export interface ContainerEventRecord {
+  type: ContainerEventType;
+  subdomain: string;
+  containerId: string;
+  containerName: string;
+  // Sólo en crash y stop
+  exitCode: number | null;
+  at: string;
+}
+
+/**
+ * Salud de un despliegue según los eventos recientes de sus contenedores
+ * degraded: algún fallo (crash, OOM o HEALTHCHECK unhealthy) dentro de la ventana;
+ * crash-looping: los crashes de la ventana alcanzan DEPLOY_CRASH_LOOP_RESTARTS
+ */
+export type DeploymentHealthState = 'healthy' | 'degraded' | 'crash-looping';
+
+export interface DeploymentHealth {
+  state: DeploymentHealthState;
+  crashes: number;
+  oomKills: number;
+  unhealthyContainers: number;
+  windowSeconds: number;
+  lastCrashAt: string | null;
+}
+
+/**
+ * Diferencia entre los despliegues registrados y las configuraciones de Nginx
+ * orphan-config: configuración sin despliegue (o de un despliegue sin proxy público)
+ * missing-config: despliegue público sin configuración o con el archivo .conf borrado
+ * mode-mismatch: página de mantenimiento en un despliegue en marcha, o al revés
+ * port-mismatch: el upstream no apunta a los puertos de las réplicas actuales
+ * dead-upstream: el upstream apunta a contenedores que no están en ejecución (requiere redesplegar)
+ * orphan-container: contenedor gestionado sin despliegue registrado (no se elimina automáticamente)
+ * Los puertos de Nginx son los del archivo .conf en disco, no los del registro
+ */
+export type DriftType =
+  | 'orphan-config'
+  | 'missing-config'
+  | 'mode-mismatch'
+  | 'port-mismatch'
+  | 'dead-upstream'
+  | 'orphan-container';
+
+export interface DriftIssue {
+  type: DriftType;
+  subdomain: string;
+  message: string;
+  // Puertos según el registro del despliegue y según la configuración de Nginx
+  expectedPorts: number[] | null;
+  actualPorts: number[] | null;
+  // false si la reparación automática no puede arreglarlo
+  repairable: boolean;
+}
+
+/**
+ * Proxy que debería tener un despliegue según su registro
+ */
+export interface ExpectedProxy {
+  mode: 'proxy' | 'maintenance';
+  // Réplicas estables y del canary
+  ports: number[];
+}
+
+/**
+ * Resultado de una pasada del reconciliador
+ */
+export interface ReconcileReport {
+  checkedAt: string;
+  deployments: number;
+  // Archivos .conf de subdominios en NGINX_CONF_PATH
+  proxyConfigs: number;
+  issues: DriftIssue[];
+  // Subdominios con un trabajo en cola o en curso: se revisan en la siguiente pasada
+  skipped: string[];
+}
+
+/**
+ * Evento de progreso de `docker pull`, uno por capa y estado
+ */
+export interface DockerPullEvent {
+  id?: string;
+  status?: string;
+  progress?: string;
+  progressDetail?: { current?: number; total?: number };
+}
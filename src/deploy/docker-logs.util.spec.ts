@@ -0,0 +1,50 @@
+import { demuxDockerLogs, parseLogsSince } from './docker-logs.util';
+
+const frame = (stream: number, text: string) => {
+  const payload = Buffer.from(text, 'utf8');
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+};
+
+describe('docker-logs.util', () => {
+  describe('demuxDockerLogs', () => {
+    it('should split multiplexed stdout and stderr frames into lines', () => {
+      const buffer = Buffer.concat([
+        frame(1, 'listening on 3000\n'),
+        frame(2, 'warning: deprecated\nready\n'),
+      ]);
+
+      expect(demuxDockerLogs(buffer)).toEqual([
+        'listening on 3000',
+        'warning: deprecated',
+        'ready',
+      ]);
+    });
+
+    it('should fall back to plain text for TTY containers', () => {
+      expect(demuxDockerLogs(Buffer.from('line one\r\nline two\n'))).toEqual([
+        'line one',
+        'line two',
+      ]);
+    });
+  });
+
+  describe('parseLogsSince', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+
+    it('should accept unix timestamps, ISO dates and relative durations', () => {
+      expect(parseLogsSince('1767268800', now)).toBe(1767268800);
+      expect(parseLogsSince('2026-01-01T11:00:00Z', now)).toBe(
+        now / 1000 - 3600,
+      );
+      expect(parseLogsSince('15m', now)).toBe(now / 1000 - 900);
+      expect(parseLogsSince('1d', now)).toBe(now / 1000 - 86400);
+    });
+
+    it('should return null for invalid values', () => {
+      expect(parseLogsSince('yesterday', now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Utilidades para leer los logs que devuelve la API de Docker
+ */
+
+/**
+ * Separa un buffer de logs multiplexado de Docker en líneas
+ * Cuando el contenedor no usa TTY, Docker antepone a cada bloque una cabecera de 8 bytes:
+ * [stream, 0, 0, 0, tamaño (uint32 big endian)]
+ * @param buffer - Respuesta de `container.logs()` sin follow
+ * @returns Líneas de stdout y stderr en orden de llegada
+ */
+export const demuxDockerLogs = (buffer: Buffer): string[] => {
+  const chunks: string[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const streamType = buffer[offset];
+    const size = buffer.readUInt32BE(offset + 4);
+
+    // Si la cabecera no es válida, el contenedor usa TTY y el buffer es texto plano
+    if (
+      streamType > 2 ||
+      buffer[offset + 1] !== 0 ||
+      offset + 8 + size > buffer.length
+    ) {
+      return splitLines(buffer.toString('utf8'));
+    }
+
+    chunks.push(buffer.toString('utf8', offset + 8, offset + 8 + size));
+    offset += 8 + size;
+  }
+
+  if (offset < buffer.length) {
+    chunks.push(buffer.toString('utf8', offset));
+  }
+
+  return splitLines(chunks.join(''));
+};
+
+const splitLines = (text: string): string[] =>
+  text.split(/\r?\n/).filter((line) => line.length > 0);
+
+const RELATIVE_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/**
+ * Convierte el parámetro `since` de la API de logs a un timestamp Unix en segundos
+ * Acepta un timestamp en segundos, una fecha ISO 8601 o una duración relativa (30s, 15m, 2h, 1d)
+ * @param value - Valor recibido en la petición
+ * @param now - Momento de referencia para las duraciones relativas (ms)
+ * @returns El timestamp, o null si el valor no es válido
+ */
+export const parseLogsSince = (
+  value: string,
+  now = Date.now(),
+): number | null => {
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const relative = /^(\d+)([smhd])$/.exec(trimmed);
+  if (relative) {
+    const seconds = Number(relative[1]) * RELATIVE_UNITS[relative[2]];
+    return Math.floor(now / 1000) - seconds;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.floor(date / 1000);
+};
@@ -0,0 +1,38 @@
+import { createBaseImageReader } from './dockerfile.util';
+
+describe('dockerfile.util', () => {
+  describe('createBaseImageReader', () => {
+    const read = (lines: string[], buildArgs?: Record<string, string>) => {
+      const reader = createBaseImageReader(buildArgs);
+      return lines.map(reader).filter((image) => image !== null);
+    };
+
+    it('should return the base image of each FROM step and skip previous stages', () => {
+      expect(
+        read([
+          'Step 1/6 : FROM --platform=linux/amd64 node:20-alpine AS deps',
+          ' ---> 1a2b3c4d',
+          'Step 2/6 : RUN npm ci',
+          'Step 3/6 : FROM deps AS build',
+          'Step 4/6 : FROM ghcr.io/org/runtime:1.2',
+          'Step 5/6 : COPY --from=build /app /app',
+          'Step 6/6 : FROM scratch',
+        ]),
+      ).toEqual(['node:20-alpine', 'ghcr.io/org/runtime:1.2']);
+    });
+
+    it('should resolve ARG defaults and let build args override them', () => {
+      const lines = [
+        'Step 1/3 : ARG REGISTRY=docker.io',
+        'Step 2/3 : ARG BASE="node:20"',
+        'Step 3/3 : FROM ${REGISTRY}/library/$BASE',
+      ];
+
+      expect(read(lines)).toEqual(['docker.io/library/node:20']);
+      expect(read(lines, { REGISTRY: 'evil.io' })).toEqual([
+        'evil.io/library/node:20',
+      ]);
+      expect(read(['Step 1/1 : FROM $IMAGE'])).toEqual(['$IMAGE']);
+    });
+  });
+});
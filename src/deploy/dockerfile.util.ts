@@ -0,0 +1,60 @@
+/**
+ * Utilidades para leer el log de `docker build`
+ */
+
+// El builder clásico (el que usa la API sin BuildKit) anuncia cada instrucción como `Step 2/7 : FROM node:20 AS deps`
+const STEP_PATTERN = /^Step \d+\/\d+ : (\w+)\s+(.*)$/i;
+
+/**
+ * Crea un lector que devuelve la imagen base de cada FROM del log de una build, con los ARG sustituidos
+ * Las etapas anteriores (`FROM deps`) y `scratch` no son imágenes y se ignoran.
+ * Si un ARG no tiene valor, la referencia conserva el `$` para que quien la compruebe lo detecte.
+ * @param buildArgs - Argumentos de la build, que tienen prioridad sobre los valores por defecto de los ARG
+ */
+export const createBaseImageReader = (
+  buildArgs: Record<string, string> = {},
+) => {
+  const args: Record<string, string> = {};
+  const stages = new Set<string>();
+
+  return (line: string): string | null => {
+    const match = STEP_PATTERN.exec(line.trim());
+    if (!match) {
+      return null;
+    }
+
+    const [, instruction, rest] = match;
+    if (instruction.toUpperCase() === 'ARG') {
+      for (const declaration of rest.split(/\s+/)) {
+        const [name, ...value] = declaration.split('=');
+        const fallback = value.length
+          ? value.join('=').replace(/^(["'])(.*)\1$/, '$2')
+          : undefined;
+        const resolved = buildArgs[name] ?? fallback;
+        if (resolved !== undefined) {
+          args[name] = resolved;
+        }
+      }
+      return null;
+    }
+
+    if (instruction.toUpperCase() !== 'FROM') {
+      return null;
+    }
+
+    // FROM [--platform=...] <imagen> [AS <etapa>]
+    const [reference, keyword, stage] = rest
+      .split(/\s+/)
+      .filter((token) => !token.startsWith('--'));
+    const image = reference.replace(
+      /\$\{?(\w+)\}?/g,
+      (variable, name: string) => args[name] ?? buildArgs[name] ?? variable,
+    );
+    const isStage = stages.has(image.toLowerCase());
+    if (keyword?.toUpperCase() === 'AS' && stage) {
+      stages.add(stage.toLowerCase());
+    }
+
+    return isStage || image.toLowerCase() === 'scratch' ? null : image;
+  };
+};
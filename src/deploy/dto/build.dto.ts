@@ -0,0 +1,117 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeployDto } from './deploy.dto';
+
+// Ramas, tags, commits y rutas: sin `#` ni `:`, que separan las partes de la URL remota de Docker
+const GIT_PATH_PATTERN = /^(?!.*\.\.)[\w./-]+$/;
+
+export class BuildSourceDto {
+  @ApiProperty({
+    example: 'https://github.com/tu-usuario/mi-microservicio.git',
+    description:
+      'Repositorio Git (https:// o git@). Lo descarga el daemon de Docker; en los repositorios ' +
+      'privados de GitHub se usa BUILD_GIT_TOKEN o GITHUB_TOKEN. Incompatible con contextId',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^(https:\/\/|git@)[^\s#]+$/, {
+    message:
+      'El repositorio debe ser una URL https:// o git@ sin fragmento (#)',
+  })
+  repository?: string;
+
+  @ApiProperty({
+    example: 'main',
+    description:
+      'Rama, tag o commit del repositorio. Por defecto, la rama principal',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(GIT_PATH_PATTERN, {
+    message: 'La ref solo permite letras, números, guiones, puntos y barras',
+  })
+  ref?: string;
+
+  @ApiProperty({
+    example: 'services/api',
+    description:
+      'Subdirectorio del repositorio que se usa como contexto de la build',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(GIT_PATH_PATTERN, {
+    message: 'La ruta solo permite letras, números, guiones, puntos y barras',
+  })
+  path?: string;
+
+  @ApiProperty({
+    example: '6f1c2a4e-9b0d-4f7e-8a3c-2d5e7f9a1b3c',
+    description:
+      'Contexto subido antes con POST /deploy/build/contexts (tarball con el Dockerfile). ' +
+      'Incompatible con repository',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-f0-9-]+$/, { message: 'ID de contexto inválido' })
+  contextId?: string;
+}
+
+export class BuildDeployDto extends OmitType(DeployDto, [
+  'imageName',
+] as const) {
+  @ApiProperty({ type: BuildSourceDto })
+  @ValidateNested()
+  @Type(() => BuildSourceDto)
+  source: BuildSourceDto;
+
+  @ApiProperty({
+    example: 'docker/Dockerfile.prod',
+    description: 'Ruta del Dockerfile dentro del contexto',
+    required: false,
+    default: 'Dockerfile',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @Matches(GIT_PATH_PATTERN, {
+    message:
+      'La ruta del Dockerfile solo permite letras, números, guiones, puntos y barras',
+  })
+  dockerfile?: string;
+
+  @ApiProperty({
+    example: { NODE_VERSION: '20' },
+    description:
+      'Argumentos de la build (ARG). Sus valores no se guardan en el historial de builds',
+    required: false,
+    type: Object,
+    additionalProperties: { type: 'string' },
+  })
+  @IsOptional()
+  @IsObject()
+  buildArgs?: Record<string, string>;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Construir sin reutilizar la caché de las builds anteriores del subdominio',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  noCache?: boolean;
+}
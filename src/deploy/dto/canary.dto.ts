@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { HealthCheckDto } from './health-check.dto';
+
+export class CanaryWeightDto {
+  @ApiProperty({
+    example: 10,
+    description: 'Porcentaje del tráfico que recibe el canary (1-99)',
+    minimum: 1,
+    maximum: 99,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  weight: number;
+}
+
+export class CanaryDto {
+  @ApiProperty({
+    example: 'tu-usuario/mi-microservicio:v2',
+    description: 'Imagen que se prueba con una parte del tráfico',
+  })
+  @IsString()
+  @IsNotEmpty()
+  imageName: string;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Porcentaje del tráfico que recibe el canary (1-99)',
+    required: false,
+    default: 10,
+    minimum: 1,
+    maximum: 99,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  weight?: number;
+
+  @ApiProperty({
+    example: { FEATURE_FLAG: 'on' },
+    description:
+      'Variables de entorno del canary. Si se omite, usa las del despliegue estable',
+    required: false,
+    type: Object,
+    additionalProperties: { type: 'string' },
+  })
+  @IsOptional()
+  @IsObject()
+  env?: Record<string, string>;
+
+  @ApiProperty({
+    type: HealthCheckDto,
+    description:
+      'Health check del canary. Si se omite, usa el del despliegue estable',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HealthCheckDto)
+  healthCheck?: HealthCheckDto;
+}
@@ -1,10 +1,36 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsInt, Min, Max, Matches } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  IsOptional,
+  ValidateNested,
+  IsObject,
+  IsArray,
+  IsIn,
+  IsBoolean,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { HealthCheckDto } from './health-check.dto';
+import { ResourceLimitsDto } from './resource-limits.dto';
+import { VolumeMountDto } from './volume-mount.dto';
+import { PreSwitchHookDto } from './exec.dto';
+import {
+  LOAD_BALANCING_METHODS,
+  LoadBalancingMethod,
+} from '../../nginx/nginx-template';
+import { DEPLOYMENT_KINDS } from '../deploy.types';
+import type { DeploymentKind } from '../deploy.types';
 
 export class DeployDto {
   @ApiProperty({
     example: 'tu-usuario/mi-microservicio',
-    description: 'Nombre de la imagen de Docker (puede incluir el tag, ej: usuario/imagen:tag)',
+    description:
+      'Nombre de la imagen de Docker (puede incluir el tag, ej: usuario/imagen:tag)',
   })
   @IsString()
   @IsNotEmpty()
@@ -17,18 +43,163 @@ export class DeployDto {
   @IsString()
   @IsNotEmpty()
   @Matches(/^[a-z0-9-]+$/, {
-    message: 'El subdominio solo permite letras minúsculas, números y guiones (-).',
+    message:
+      'El subdominio solo permite letras minúsculas, números y guiones (-).',
   })
   subdomain: string;
 
+  @ApiProperty({
+    example: 'web',
+    description:
+      'web: servicio HTTP publicado con Nginx. worker: proceso en segundo plano sin puerto ni proxy ' +
+      '(su salud se basa en el estado del contenedor)',
+    required: false,
+    enum: DEPLOYMENT_KINDS,
+    default: 'web',
+  })
+  @IsOptional()
+  @IsIn(DEPLOYMENT_KINDS)
+  kind?: DeploymentKind;
+
   @ApiProperty({
     example: 3000,
-    description: 'El puerto interno donde escucha el microservicio dentro del contenedor',
+    description:
+      'El puerto interno donde escucha el microservicio dentro del contenedor. Obligatorio salvo en los workers',
     minimum: 1,
     maximum: 65535,
+    required: false,
   })
+  @ValidateIf(
+    (dto: DeployDto) => dto.kind !== 'worker' || dto.internalPort !== undefined,
+  )
   @IsInt()
   @Min(1)
   @Max(65535)
-  internalPort: number;
+  internalPort?: number;
+
+  @ApiProperty({
+    type: HealthCheckDto,
+    description:
+      'Verificación de salud HTTP que debe superar el contenedor antes de recibir tráfico. ' +
+      'Si se omite, sólo se espera a que el puerto acepte conexiones',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HealthCheckDto)
+  healthCheck?: HealthCheckDto;
+
+  @ApiProperty({
+    type: ResourceLimitsDto,
+    description:
+      'Límites de CPU, memoria y procesos y política de reinicio del contenedor. ' +
+      'Los valores omitidos usan los valores por defecto del orquestador',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResourceLimitsDto)
+  resources?: ResourceLimitsDto;
+
+  @ApiProperty({
+    example: 2,
+    description:
+      'Número de contenedores que sirven el subdominio, cada uno en su puerto del host. ' +
+      'El máximo lo define DEPLOY_MAX_REPLICAS',
+    required: false,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  replicas?: number;
+
+  @ApiProperty({
+    example: 'least_conn',
+    description: 'Método de balanceo de Nginx entre las réplicas',
+    required: false,
+    enum: LOAD_BALANCING_METHODS,
+    default: 'round_robin',
+  })
+  @IsOptional()
+  @IsIn(LOAD_BALANCING_METHODS)
+  loadBalancing?: LoadBalancingMethod;
+
+  @ApiProperty({
+    example: { NODE_ENV: 'production' },
+    description:
+      'Variables de entorno para este despliegue. Se combinan con las guardadas en /deploy/:subdomain/env',
+    required: false,
+    type: Object,
+    additionalProperties: { type: 'string' },
+  })
+  @IsOptional()
+  @IsObject()
+  env?: Record<string, string>;
+
+  @ApiProperty({
+    example: ['DATABASE_URL'],
+    description:
+      'Nombres de los secrets del subdominio que se inyectan como variables de entorno. ' +
+      'Si se omite, se inyectan todos los secrets guardados',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  secrets?: string[];
+
+  @ApiProperty({
+    type: [VolumeMountDto],
+    description:
+      'Volúmenes persistentes. Se crean la primera vez, se conservan en redespliegues y rollbacks ' +
+      'y sólo se eliminan al borrar el despliegue con purgeVolumes=true',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VolumeMountDto)
+  volumes?: VolumeMountDto[];
+
+  @ApiProperty({
+    example: 'facturacion',
+    description:
+      'Grupo de red privada. Los despliegues del mismo grupo se ven entre sí en http://<subdominio>:<internalPort>. ' +
+      'Si se omite, el contenedor se une a la red común del orquestador',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z0-9-]+$/, {
+    message:
+      'El grupo de red solo permite letras minúsculas, números y guiones (-).',
+  })
+  network?: string;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Publicar el servicio en https://<subdominio>.boogiepop.cloud. Con false no se configura Nginx ' +
+      'y el servicio sólo es accesible desde su red privada',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  public?: boolean;
+
+  @ApiProperty({
+    type: PreSwitchHookDto,
+    description:
+      'Comando (p. ej. migraciones) que se ejecuta con docker exec en la nueva versión, ya verificada, ' +
+      'antes de conmutar el tráfico. Si falla, la versión anterior sigue sirviendo',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PreSwitchHookDto)
+  preSwitch?: PreSwitchHookDto;
 }
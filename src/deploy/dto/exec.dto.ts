@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { EXEC_MODES } from '../deploy.types';
+import type { ExecMode } from '../deploy.types';
+
+export class PreSwitchHookDto {
+  @ApiProperty({
+    example: ['npm', 'run', 'migrate'],
+    description:
+      'Comando que se ejecuta en la nueva versión antes de conmutar el tráfico. ' +
+      'Si termina con un código distinto de 0, el despliegue se descarta',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  command: string[];
+
+  @ApiProperty({
+    example: 300,
+    description:
+      'Tiempo máximo en segundos. Por defecto DEPLOY_EXEC_TIMEOUT_SECONDS (300)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3600)
+  timeoutSeconds?: number;
+}
+
+export class ExecDto {
+  @ApiProperty({
+    example: ['npm', 'run', 'migrate'],
+    description: 'Comando y argumentos (se ejecuta sin shell)',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  command: string[];
+
+  @ApiProperty({
+    example: 300,
+    description:
+      'Tiempo máximo en segundos. Por defecto DEPLOY_EXEC_TIMEOUT_SECONDS (300)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3600)
+  timeoutSeconds?: number;
+
+  @ApiProperty({
+    example: 'exec',
+    description:
+      'exec (por defecto): dentro del contenedor en ejecución. ' +
+      'run: en un contenedor desechable con la misma imagen, entorno y red del despliegue',
+    required: false,
+    enum: EXEC_MODES,
+  })
+  @IsOptional()
+  @IsIn(EXEC_MODES)
+  mode?: ExecMode;
+
+  @ApiProperty({
+    example: 0,
+    description:
+      'Réplica en la que se ejecuta con mode=exec (por defecto, la primera)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  replica?: number;
+}
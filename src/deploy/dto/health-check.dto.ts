@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+
+export class HealthCheckDto {
+  @ApiProperty({
+    example: '/health',
+    description: 'Ruta HTTP que se consultará en el contenedor',
+    required: false,
+    default: '/',
+  })
+  @IsString()
+  @IsOptional()
+  @Matches(/^\//, { message: 'La ruta del health check debe empezar con /' })
+  path?: string;
+
+  @ApiProperty({
+    example: 200,
+    description: 'Código de estado HTTP esperado',
+    required: false,
+    default: 200,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(100)
+  @Max(599)
+  expectedStatus?: number;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Tiempo máximo de cada petición en segundos',
+    required: false,
+    default: 5,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(60)
+  timeoutSeconds?: number;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Número de intentos antes de dar el despliegue por fallido',
+    required: false,
+    default: 10,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  retries?: number;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Segundos entre intentos',
+    required: false,
+    default: 3,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(60)
+  intervalSeconds?: number;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Segundos de gracia tras el arranque antes del primer intento',
+    required: false,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(600)
+  startPeriodSeconds?: number;
+}
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+// Los query params llegan como texto: sólo 'true' y '1' cuentan como verdadero
+export const toBoolean = ({
+  obj,
+  key,
+}: {
+  obj: Record<string, unknown>;
+  key: string;
+}) => obj[key] === true || obj[key] === 'true' || obj[key] === '1';
+
+export class LogsQueryDto {
+  @ApiProperty({
+    example: 100,
+    description: 'Número de líneas finales a devolver',
+    required: false,
+    default: 100,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(10000)
+  tail?: number;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Índice de la réplica cuyos logs se leen (0 = la primera)',
+    required: false,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  replica?: number;
+
+  @ApiProperty({
+    example: '15m',
+    description:
+      'Sólo logs posteriores a este momento: timestamp Unix en segundos, fecha ISO 8601 ' +
+      'o una duración relativa (30s, 15m, 2h, 1d)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  since?: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Anteponer a cada línea el timestamp de Docker',
+    required: false,
+    default: false,
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  timestamps?: boolean;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Seguir los logs en vivo como Server-Sent Events hasta que el cliente cierre la conexión',
+    required: false,
+    default: false,
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  follow?: boolean;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from './logs-query.dto';
+
+export class RemoveDeploymentQueryDto {
+  @ApiProperty({
+    example: false,
+    description:
+      'Eliminar también los volúmenes persistentes del subdominio (por defecto se conservan)',
+    required: false,
+    default: false,
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  purgeVolumes?: boolean;
+}
@@ -0,0 +1,92 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import type { RestartPolicyName } from '../deploy.types';
+
+const RESTART_POLICIES: RestartPolicyName[] = [
+  'no',
+  'always',
+  'unless-stopped',
+  'on-failure',
+];
+
+export class ResourceLimitsDto {
+  @ApiProperty({
+    example: 512,
+    description:
+      'Límite de memoria en MB. Por defecto CONTAINER_MEMORY_LIMIT_MB; máximo CONTAINER_MAX_MEMORY_MB',
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(6)
+  memoryMb?: number;
+
+  @ApiProperty({
+    example: 1024,
+    description:
+      'Memoria + swap en MB (debe ser mayor o igual que memoryMb; -1 = swap ilimitado). Por defecto, el doble de memoryMb',
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(-1)
+  memorySwapMb?: number;
+
+  @ApiProperty({
+    example: 0.5,
+    description:
+      'Cuota de CPU en vCPUs (0.5 = media vCPU). Máximo CONTAINER_MAX_CPUS',
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsOptional()
+  @Min(0.01)
+  cpus?: number;
+
+  @ApiProperty({
+    example: 512,
+    description:
+      'Peso relativo de CPU frente a otros contenedores cuando hay contención (Docker usa 1024 por defecto)',
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(2)
+  @Max(262144)
+  cpuShares?: number;
+
+  @ApiProperty({
+    example: 256,
+    description:
+      'Número máximo de procesos del contenedor. Máximo CONTAINER_MAX_PIDS',
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  pidsLimit?: number;
+
+  @ApiProperty({
+    example: 'on-failure',
+    description: 'Política de reinicio del contenedor',
+    required: false,
+    enum: RESTART_POLICIES,
+    default: 'unless-stopped',
+  })
+  @IsIn(RESTART_POLICIES)
+  @IsOptional()
+  restartPolicy?: RestartPolicyName;
+
+  @ApiProperty({
+    example: 5,
+    description:
+      'Reintentos máximos con la política on-failure (0 = sin límite)',
+    required: false,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  maxRestartRetries?: number;
+}
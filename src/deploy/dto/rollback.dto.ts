@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class RollbackDto {
+  @ApiProperty({
+    example: 3,
+    description:
+      'Revisión a restaurar. Si se omite, se vuelve a la revisión anterior a la activa',
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  revision?: number;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Max, Min } from 'class-validator';
+
+export class ScaleDto {
+  @ApiProperty({
+    example: 3,
+    description:
+      'Número de réplicas deseado. El máximo lo define DEPLOY_MAX_REPLICAS',
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  replicas: number;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsObject, IsOptional } from 'class-validator';
+
+export class UpdateEnvDto {
+  @ApiProperty({
+    example: { NODE_ENV: 'production', LOG_LEVEL: 'info' },
+    description:
+      'Variables de entorno en texto plano que se añaden o reemplazan',
+    required: false,
+    type: Object,
+    additionalProperties: { type: 'string' },
+  })
+  @IsObject()
+  @IsOptional()
+  env?: Record<string, string>;
+
+  @ApiProperty({
+    example: { DATABASE_URL: 'postgres://usuario:clave@db:5432/app' },
+    description:
+      'Secrets que se añaden o reemplazan. Se guardan cifrados y sus valores nunca se devuelven',
+    required: false,
+    type: Object,
+    additionalProperties: { type: 'string' },
+  })
+  @IsObject()
+  @IsOptional()
+  secrets?: Record<string, string>;
+}
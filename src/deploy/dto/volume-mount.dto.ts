@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, Matches } from 'class-validator';
+
+export class VolumeMountDto {
+  @ApiProperty({
+    example: 'data',
+    description:
+      'Nombre del volumen. En Docker se crea como <subdominio>-<nombre> y se conserva entre redespliegues',
+  })
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9_.-]*$/, {
+    message:
+      'El nombre del volumen solo permite letras minúsculas, números, puntos, guiones y guiones bajos.',
+  })
+  name: string;
+
+  @ApiProperty({
+    example: '/app/data',
+    description:
+      'Ruta absoluta donde se monta el volumen dentro del contenedor',
+  })
+  @IsString()
+  @Matches(/^\/[^:]*$/, {
+    message: 'La ruta de montaje debe ser absoluta (empezar por /)',
+  })
+  mountPath: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Montar el volumen en sólo lectura',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readOnly?: boolean;
+}
@@ -1,7 +1,8 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Octokit } from '@octokit/rest';
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
 import * as sodium from 'libsodium-wrappers';
+import { NotificationsService } from '../notifications/notifications.service';
 
 export interface OrgInfo {
   name: string;
@@ -24,13 +25,18 @@ export class GithubService {
   private readonly logger = new Logger(GithubService.name);
   private octokit: Octokit;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private notifications: NotificationsService,
+  ) {
     const githubToken = this.configService.get('GITHUB_TOKEN');
-    
+
     if (!githubToken) {
-      this.logger.warn('GITHUB_TOKEN no está configurado. Las operaciones de GitHub fallarán.');
+      this.logger.warn(
+        'GITHUB_TOKEN no está configurado. Las operaciones de GitHub fallarán.',
+      );
     }
-    
+
     this.octokit = new Octokit({ auth: githubToken });
   }
 
@@ -43,7 +49,9 @@ export class GithubService {
     const githubOrg = this.configService.get('GITHUB_ORG');
 
     if (!githubToken) {
-      throw new BadRequestException('GITHUB_TOKEN no está configurado en el .env');
+      throw new BadRequestException(
+        'GITHUB_TOKEN no está configurado en el .env',
+      );
     }
 
     try {
@@ -65,13 +73,15 @@ export class GithubService {
 
           // Verificar si el usuario es miembro de la organización
           try {
-            const { data: membership } = await this.octokit.orgs.getMembershipForAuthenticatedUser({
-              org: githubOrg,
-            });
+            const { data: membership } =
+              await this.octokit.orgs.getMembershipForAuthenticatedUser({
+                org: githubOrg,
+              });
             orgAccess = {
               role: membership.role,
               state: membership.state,
-              canCreateRepos: membership.role === 'admin' || membership.role === 'member',
+              canCreateRepos:
+                membership.role === 'admin' || membership.role === 'member',
             };
           } catch (membershipError: any) {
             if (membershipError.status === 404) {
@@ -128,7 +138,7 @@ export class GithubService {
     } catch (error: any) {
       this.logger.error(`Error verificando token: ${error.message}`);
       throw new BadRequestException(
-        `Error al verificar el token: ${error.message}. Verifica que el token sea válido.`
+        `Error al verificar el token: ${error.message}. Verifica que el token sea válido.`,
       );
     }
   }
@@ -142,15 +152,15 @@ export class GithubService {
     if (orgInfo && !orgInfo.exists) {
       recommendations.push(
         `La organización "${orgInfo.name}" no existe o no tienes acceso. ` +
-        `Elimina GITHUB_ORG de tu .env para crear repos en tu cuenta personal.`
+          `Elimina GITHUB_ORG de tu .env para crear repos en tu cuenta personal.`,
       );
     }
 
     if (orgAccess && !orgAccess.canCreateRepos) {
       recommendations.push(
         `No tienes permisos para crear repositorios en la organización "${orgInfo?.name}". ` +
-        `Necesitas ser admin o tener permisos de escritura. ` +
-        `Alternativa: Elimina GITHUB_ORG de tu .env para crear repos en tu cuenta personal.`
+          `Necesitas ser admin o tener permisos de escritura. ` +
+          `Alternativa: Elimina GITHUB_ORG de tu .env para crear repos en tu cuenta personal.`,
       );
     }
 
@@ -168,29 +178,39 @@ export class GithubService {
    * @param isPrivate - Si el repositorio debe ser privado (por defecto false = público)
    * @returns Información del repositorio creado
    */
-  async createRepoAndSetupPipeline(repoName: string, subdomain: string, isPrivate: boolean = false) {
+  async createRepoAndSetupPipeline(
+    repoName: string,
+    subdomain: string,
+    isPrivate: boolean = false,
+  ) {
     const visibility = isPrivate ? 'privado' : 'público';
-    this.logger.log(`Creando repositorio ${visibility} ${repoName} con pipeline para subdominio ${subdomain}`);
+    this.logger.log(
+      `Creando repositorio ${visibility} ${repoName} con pipeline para subdominio ${subdomain}`,
+    );
 
     const githubToken = this.configService.get('GITHUB_TOKEN');
     const githubOrg = this.configService.get('GITHUB_ORG');
 
     if (!githubToken) {
-      throw new BadRequestException('GITHUB_TOKEN no está configurado en el .env');
+      throw new BadRequestException(
+        'GITHUB_TOKEN no está configurado en el .env',
+      );
     }
 
     try {
       // 1. Crear el repositorio desde el template blanck1945/template-be
       const templateOwner = 'blanck1945';
       const templateRepo = 'template-be';
-      
-      this.logger.log(`Creando repositorio desde template: ${templateOwner}/${templateRepo}`);
-      
+
+      this.logger.log(
+        `Creando repositorio desde template: ${templateOwner}/${templateRepo}`,
+      );
+
       // Determinar el owner: usar host-repositories por defecto, o GITHUB_ORG si está configurado
       const defaultOrg = 'host-repositories';
       const owner = githubOrg || defaultOrg;
-      
-      let repo;
+
+      let repo: RestEndpointMethodTypes['repos']['createUsingTemplate']['response'];
       try {
         repo = await this.octokit.repos.createUsingTemplate({
           template_owner: templateOwner,
@@ -200,15 +220,17 @@ export class GithubService {
           private: isPrivate,
           description: `Microservicio desplegado en ${subdomain}.boogiepop.cloud`,
         });
-        this.logger.log(`Repositorio creado exitosamente desde template: ${repo.data.html_url}`);
+        this.logger.log(
+          `Repositorio creado exitosamente desde template: ${repo.data.html_url}`,
+        );
       } catch (templateError: any) {
         if (templateError.status === 422) {
           throw new BadRequestException(
-            `El repositorio "${repoName}" ya existe. Por favor, elige otro nombre o elimina el repositorio existente.`
+            `El repositorio "${repoName}" ya existe. Por favor, elige otro nombre o elimina el repositorio existente.`,
           );
         }
         throw new BadRequestException(
-          `No se pudo crear el repositorio desde el template: ${templateError.message}`
+          `No se pudo crear el repositorio desde el template: ${templateError.message}`,
         );
       }
 
@@ -222,7 +244,9 @@ export class GithubService {
       const workflowContent = this.generateWorkflowYaml(subdomain);
 
       // 4. Crear la carpeta .github/workflows y el archivo deploy.yml
-      this.logger.log('Creando archivo de workflow .github/workflows/deploy.yml');
+      this.logger.log(
+        'Creando archivo de workflow .github/workflows/deploy.yml',
+      );
 
       // Crear el archivo del workflow (sobrescribirá si ya existe)
       await this.octokit.repos.createOrUpdateFileContents({
@@ -241,7 +265,12 @@ export class GithubService {
 
       // 6. Crear o actualizar el Dockerfile multi-stage para producción
       const dockerfileContent = this.generateDockerfile();
-      const dockerfileSha = await this.getFileSha(owner, createdRepoName, 'Dockerfile', 'main');
+      const dockerfileSha = await this.getFileSha(
+        owner,
+        createdRepoName,
+        'Dockerfile',
+        'main',
+      );
       await this.octokit.repos.createOrUpdateFileContents({
         owner,
         repo: createdRepoName,
@@ -255,7 +284,12 @@ export class GithubService {
 
       // 7. Actualizar el README con instrucciones de despliegue
       const readmeContent = this.generateReadme(repoName, subdomain);
-      const readmeSha = await this.getFileSha(owner, createdRepoName, 'README.md', 'main');
+      const readmeSha = await this.getFileSha(
+        owner,
+        createdRepoName,
+        'README.md',
+        'main',
+      );
       await this.octokit.repos.createOrUpdateFileContents({
         owner,
         repo: createdRepoName,
@@ -273,21 +307,55 @@ export class GithubService {
       const dockerhubToken = this.configService.get('DOCKERHUB_TOKEN');
       const orchestratorToken = this.configService.get('ORCHESTRATOR_TOKEN');
 
-      if (dockerhubUsername && dockerhubToken && dockerhubUsername.trim() && dockerhubToken.trim()) {
-        await this.createRepositorySecret(owner, createdRepoName, 'DOCKERHUB_USERNAME', dockerhubUsername.trim());
-        await this.createRepositorySecret(owner, createdRepoName, 'DOCKERHUB_TOKEN', dockerhubToken.trim());
+      if (
+        dockerhubUsername &&
+        dockerhubToken &&
+        dockerhubUsername.trim() &&
+        dockerhubToken.trim()
+      ) {
+        await this.createRepositorySecret(
+          owner,
+          createdRepoName,
+          'DOCKERHUB_USERNAME',
+          dockerhubUsername.trim(),
+        );
+        await this.createRepositorySecret(
+          owner,
+          createdRepoName,
+          'DOCKERHUB_TOKEN',
+          dockerhubToken.trim(),
+        );
         this.logger.log('Secrets de Docker Hub configurados');
       } else {
-        this.logger.warn('DOCKERHUB_USERNAME o DOCKERHUB_TOKEN no están configurados o están vacíos. Los secrets no se crearán automáticamente.');
+        this.logger.warn(
+          'DOCKERHUB_USERNAME o DOCKERHUB_TOKEN no están configurados o están vacíos. Los secrets no se crearán automáticamente.',
+        );
       }
 
       if (orchestratorToken && orchestratorToken.trim()) {
-        await this.createRepositorySecret(owner, createdRepoName, 'ORCHESTRATOR_TOKEN', orchestratorToken.trim());
+        await this.createRepositorySecret(
+          owner,
+          createdRepoName,
+          'ORCHESTRATOR_TOKEN',
+          orchestratorToken.trim(),
+        );
         this.logger.log('Secret ORCHESTRATOR_TOKEN configurado');
       } else {
-        this.logger.warn('ORCHESTRATOR_TOKEN no está configurado o está vacío. El secret no se creará automáticamente.');
+        this.logger.warn(
+          'ORCHESTRATOR_TOKEN no está configurado o está vacío. El secret no se creará automáticamente.',
+        );
       }
 
+      void this.notifications.notify('repo.created', {
+        subject: repo.data.full_name,
+        message: `Repositorio ${repo.data.full_name} creado con el pipeline de despliegue para ${subdomain}`,
+        data: {
+          fullName: repo.data.full_name,
+          url: repo.data.html_url,
+          subdomain,
+        },
+      });
+
       return {
         success: true,
         url: repo.data.html_url,
@@ -297,37 +365,47 @@ export class GithubService {
         message: `Repositorio creado y pipeline configurado. ${dockerhubUsername && dockerhubToken && orchestratorToken ? 'Todos los secrets fueron configurados automáticamente.' : 'Algunos secrets deben configurarse manualmente en GitHub.'}`,
       };
     } catch (error: any) {
-      this.logger.error(`Error creando repositorio: ${error.message}`, error.stack);
-      
+      this.logger.error(
+        `Error creando repositorio: ${error.message}`,
+        error.stack,
+      );
+
       // Si el error es que el repositorio ya existe, dar un mensaje más claro
       if (error.status === 422 && error.message?.includes('already exists')) {
         throw new BadRequestException(
-          `El repositorio ${repoName} ya existe. Por favor, elige otro nombre.`
+          `El repositorio ${repoName} ya existe. Por favor, elige otro nombre.`,
         );
       }
-      
+
       // Si el error es 404 al crear archivos, puede ser un problema de permisos o rama
-      if (error.status === 404 && error.message?.includes('create-or-update-file-contents')) {
+      if (
+        error.status === 404 &&
+        error.message?.includes('create-or-update-file-contents')
+      ) {
         throw new BadRequestException(
           `No se pudo crear archivos en el repositorio. ` +
-          `Posibles causas: 1) El repositorio no tiene una rama inicial, 2) Permisos insuficientes, ` +
-          `3) El token no tiene el scope 'repo' completo. ` +
-          `Error: ${error.message}`
+            `Posibles causas: 1) El repositorio no tiene una rama inicial, 2) Permisos insuficientes, ` +
+            `3) El token no tiene el scope 'repo' completo. ` +
+            `Error: ${error.message}`,
         );
       }
-      
+
       // Si el error es 404 y hay una organización configurada, dar un mensaje más específico
-      if (error.status === 404 && githubOrg && error.message?.includes('organization')) {
+      if (
+        error.status === 404 &&
+        githubOrg &&
+        error.message?.includes('organization')
+      ) {
         throw new BadRequestException(
           `No se pudo crear el repositorio en la organización "${githubOrg}". ` +
-          `Verifica que: 1) La organización existe, 2) Tu token tiene permisos para crear repositorios en la organización, ` +
-          `3) El token tiene el scope 'write:org' o 'admin:org'. ` +
-          `Sugerencia: Elimina GITHUB_ORG de tu .env para crear el repo en tu cuenta personal.`
+            `Verifica que: 1) La organización existe, 2) Tu token tiene permisos para crear repositorios en la organización, ` +
+            `3) El token tiene el scope 'write:org' o 'admin:org'. ` +
+            `Sugerencia: Elimina GITHUB_ORG de tu .env para crear el repo en tu cuenta personal.`,
         );
       }
-      
+
       throw new BadRequestException(
-        `Error al crear el repositorio: ${error.message}`
+        `Error al crear el repositorio: ${error.message}`,
       );
     }
   }
@@ -372,7 +450,10 @@ jobs:
         with:
           context: .
           push: true
-          tags: \${{ secrets.DOCKERHUB_USERNAME }}/${subdomain}:latest
+          # El tag con el SHA del commit es inmutable: permite hacer rollback a cualquier versión
+          tags: |
+            \${{ secrets.DOCKERHUB_USERNAME }}/${subdomain}:latest
+            \${{ secrets.DOCKERHUB_USERNAME }}/${subdomain}:\${{ github.sha }}
 
   notify-orchestrator:
     needs: build-and-push
@@ -380,13 +461,36 @@ jobs:
     steps:
       - name: Call Orchestrator Deploy
         env:
-          IMAGE_NAME: \${{ secrets.DOCKERHUB_USERNAME }}/${subdomain}:latest
+          IMAGE_NAME: \${{ secrets.DOCKERHUB_USERNAME }}/${subdomain}:\${{ github.sha }}
           SUBDOMAIN: ${subdomain}
         run: |
-          curl -X POST https://boogiepop.cloud/api/deploy \\
+          # El orquestador encola el despliegue y responde con el ID del trabajo
+          RESPONSE=$(curl -sS -f -X POST https://boogiepop.cloud/api/deploy \\
             -H "Authorization: Bearer \${{ secrets.ORCHESTRATOR_TOKEN }}" \\
             -H "Content-Type: application/json" \\
-            -d '{"imageName": "$IMAGE_NAME", "subdomain": "$SUBDOMAIN", "internalPort": 3000}'
+            -H "X-Deployed-By: \${{ github.actor }}" \\
+            -d "{\\"imageName\\": \\"$IMAGE_NAME\\", \\"subdomain\\": \\"$SUBDOMAIN\\", \\"internalPort\\": 3000}")
+          JOB_ID=$(echo "$RESPONSE" | jq -r '.jobId')
+          echo "Despliegue encolado: $JOB_ID"
+
+          # Esperar a que el trabajo termine (máximo 10 minutos)
+          for i in $(seq 1 120); do
+            JOB=$(curl -sS -f https://boogiepop.cloud/api/jobs/$JOB_ID \\
+              -H "Authorization: Bearer \${{ secrets.ORCHESTRATOR_TOKEN }}")
+            STATUS=$(echo "$JOB" | jq -r '.status')
+            echo "Estado: $STATUS ($(echo "$JOB" | jq -r '.phase'))"
+            if [ "$STATUS" = "succeeded" ]; then
+              echo "$JOB" | jq '.result'
+              exit 0
+            fi
+            if [ "$STATUS" = "failed" ]; then
+              echo "$JOB" | jq '.error'
+              exit 1
+            fi
+            sleep 5
+          done
+          echo "El despliegue no terminó a tiempo"
+          exit 1
 `;
   }
 
@@ -397,17 +501,31 @@ jobs:
    * @param secretName - Nombre del secret
    * @param secretValue - Valor del secret (se encriptará automáticamente)
    */
-  async createRepositorySecret(owner: string, repo: string, secretName: string, secretValue: string) {
+  async createRepositorySecret(
+    owner: string,
+    repo: string,
+    secretName: string,
+    secretValue: string,
+  ) {
     try {
       // 1. Obtener la clave pública del repo
-      const { data: publicKey } = await this.octokit.actions.getRepoPublicKey({ owner, repo });
+      const { data: publicKey } = await this.octokit.actions.getRepoPublicKey({
+        owner,
+        repo,
+      });
 
       // 2. Encriptar el valor para GitHub
       await sodium.ready;
-      const binKey = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
+      const binKey = sodium.from_base64(
+        publicKey.key,
+        sodium.base64_variants.ORIGINAL,
+      );
       const binSec = sodium.from_string(secretValue);
       const encBytes = sodium.crypto_box_seal(binSec, binKey);
-      const encryptedValue = sodium.to_base64(encBytes, sodium.base64_variants.ORIGINAL);
+      const encryptedValue = sodium.to_base64(
+        encBytes,
+        sodium.base64_variants.ORIGINAL,
+      );
 
       // 3. Crear el secret
       await this.octokit.actions.createOrUpdateRepoSecret({
@@ -417,12 +535,12 @@ jobs:
         encrypted_value: encryptedValue,
         key_id: publicKey.key_id,
       });
-      
+
       this.logger.log(`Secret ${secretName} creado con éxito`);
     } catch (error: any) {
       this.logger.error(`Error creando secret ${secretName}: ${error.message}`);
       throw new BadRequestException(
-        `No se pudo crear el secret ${secretName}: ${error.message}`
+        `No se pudo crear el secret ${secretName}: ${error.message}`,
       );
     }
   }
@@ -435,7 +553,12 @@ jobs:
    * @param branch - Rama del repositorio
    * @returns SHA del archivo o null si no existe
    */
-  private async getFileSha(owner: string, repo: string, path: string, branch: string): Promise<string | null> {
+  private async getFileSha(
+    owner: string,
+    repo: string,
+    path: string,
+    branch: string,
+  ): Promise<string | null> {
     try {
       const { data } = await this.octokit.repos.getContent({
         owner,
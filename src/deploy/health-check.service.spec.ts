@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  HealthCheckFailedError,
+  HealthCheckService,
+} from './health-check.service';
+
+describe('HealthCheckService', () => {
+  let service: HealthCheckService;
+  let server: http.Server;
+  let port: number;
+  let statuses: number[];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthCheckService,
+        { provide: ConfigService, useValue: { get: () => '127.0.0.1' } },
+      ],
+    }).compile();
+
+    service = module.get<HealthCheckService>(HealthCheckService);
+
+    statuses = [];
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === '/health' ? (statuses.shift() ?? 200) : 404;
+      res.end();
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should fill missing fields with defaults', () => {
+    expect(service.resolveSpec({ path: '/health' })).toEqual({
+      path: '/health',
+      expectedStatus: 200,
+      timeoutSeconds: 5,
+      retries: 10,
+      intervalSeconds: 3,
+      startPeriodSeconds: 0,
+    });
+  });
+
+  it('should resolve once the expected status is returned', async () => {
+    statuses = [503];
+    const spec = service.resolveSpec({
+      path: '/health',
+      retries: 3,
+      intervalSeconds: 1,
+    });
+
+    await expect(service.waitForHealthy(port, spec)).resolves.toBeUndefined();
+  });
+
+  it('should fail after exhausting the retries', async () => {
+    const spec = service.resolveSpec({
+      path: '/missing',
+      retries: 2,
+      intervalSeconds: 1,
+    });
+
+    await expect(service.waitForHealthy(port, spec)).rejects.toBeInstanceOf(
+      HealthCheckFailedError,
+    );
+  });
+
+  it('should stop polling when the container is no longer alive', async () => {
+    const spec = service.resolveSpec({ path: '/health' });
+    const isAlive = jest
+      .fn()
+      .mockRejectedValue(new Error('El contenedor se detuvo'));
+
+    await expect(service.waitForHealthy(port, spec, isAlive)).rejects.toThrow(
+      'El contenedor se detuvo',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthCheckSpec } from './deploy.types';
+
+/**
+ * Valores por defecto de la verificación de salud
+ */
+export const DEFAULT_HEALTH_CHECK: HealthCheckSpec = {
+  path: '/',
+  expectedStatus: 200,
+  timeoutSeconds: 5,
+  retries: 10,
+  intervalSeconds: 3,
+  startPeriodSeconds: 0,
+};
+
+/**
+ * Error lanzado cuando un contenedor no supera la verificación de salud
+ */
+export class HealthCheckFailedError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly lastResult?: string,
+  ) {
+    super(message);
+    this.name = 'HealthCheckFailedError';
+  }
+}
+
+@Injectable()
+export class HealthCheckService {
+  private readonly logger = new Logger(HealthCheckService.name);
+  private readonly host: string;
+
+  constructor(private configService: ConfigService) {
+    // Host desde el que el orquestador alcanza los puertos publicados (el mismo que usa Nginx)
+    this.host =
+      this.configService.get('DEPLOY_HEALTHCHECK_HOST') || 'localhost';
+  }
+
+  /**
+   * Completa una especificación parcial con los valores por defecto
+   */
+  resolveSpec(spec?: Partial<HealthCheckSpec>): HealthCheckSpec {
+    return { ...DEFAULT_HEALTH_CHECK, ...this.withoutUndefined(spec ?? {}) };
+  }
+
+  /**
+   * Consulta el endpoint de salud hasta obtener el estado esperado o agotar los intentos
+   * @param hostPort - Puerto del host donde está publicado el contenedor
+   * @param spec - Especificación de la verificación
+   * @param isAlive - Verifica entre intentos que el contenedor siga en ejecución
+   */
+  async waitForHealthy(
+    hostPort: number,
+    spec: HealthCheckSpec,
+    isAlive?: () => Promise<unknown>,
+  ): Promise<void> {
+    const url = `http://${this.host}:${hostPort}${spec.path}`;
+
+    if (spec.startPeriodSeconds > 0) {
+      this.logger.log(
+        `Esperando ${spec.startPeriodSeconds}s de periodo de arranque antes de verificar ${url}`,
+      );
+      await this.sleep(spec.startPeriodSeconds * 1000);
+    }
+
+    let lastResult = 'sin respuesta';
+
+    for (let attempt = 1; attempt <= spec.retries; attempt++) {
+      if (isAlive) {
+        await isAlive();
+      }
+
+      try {
+        const response = await fetch(url, {
+          signal: AbortSignal.timeout(spec.timeoutSeconds * 1000),
+        });
+        if (response.status === spec.expectedStatus) {
+          this.logger.log(
+            `Health check OK en ${url} (intento ${attempt}/${spec.retries})`,
+          );
+          return;
+        }
+        lastResult = `HTTP ${response.status}`;
+      } catch (error) {
+        lastResult = (error as Error).message;
+      }
+
+      this.logger.debug(
+        `Health check ${attempt}/${spec.retries} en ${url}: ${lastResult}`,
+      );
+
+      if (attempt < spec.retries) {
+        await this.sleep(spec.intervalSeconds * 1000);
+      }
+    }
+
+    throw new HealthCheckFailedError(
+      `El health check ${url} no devolvió ${spec.expectedStatus} tras ${spec.retries} intentos (último resultado: ${lastResult})`,
+      spec.retries,
+      lastResult,
+    );
+  }
+
+  private withoutUndefined(
+    spec: Partial<HealthCheckSpec>,
+  ): Partial<HealthCheckSpec> {
+    return Object.fromEntries(
+      Object.entries(spec).filter(([, value]) => value !== undefined),
+    ) as Partial<HealthCheckSpec>;
+  }
+
+  private sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PortLeaseService } from './port-lease.service';
+import { StoreService } from '../store/store.service';
+
+describe('PortLeaseService', () => {
+  let service: PortLeaseService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      HOST_PORT_RANGE_MIN: '45100',
+      HOST_PORT_RANGE_MAX: '45110',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PortLeaseService,
+        StoreService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PortLeaseService>(PortLeaseService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep the same port for a slot across redeploys', async () => {
+    const first = await service.acquire('cliente1', 'blue');
+    const second = await service.acquire('cliente1', 'blue');
+
+    expect(second).toBe(first);
+    expect(service.list('cliente1')).toHaveLength(1);
+  });
+
+  it('should never hand out the same port to concurrent deploys', async () => {
+    const ports = await Promise.all([
+      service.acquire('cliente1', 'blue'),
+      service.acquire('cliente1', 'green'),
+      service.acquire('cliente2', 'blue'),
+    ]);
+
+    expect(new Set(ports).size).toBe(3);
+  });
+
+  it('should skip ports published by other containers or bound on the host', async () => {
+    const server = net.createServer();
+    await new Promise<void>((resolve) =>
+      server.listen(45101, '0.0.0.0', resolve),
+    );
+
+    try {
+      const port = await service.acquire('cliente1', 'blue', new Set([45100]));
+      expect(port).toBe(45102);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should free the leases of a removed deployment', async () => {
+    const port = await service.acquire('cliente1', 'blue');
+    await service.release('cliente1');
+
+    expect(service.list()).toEqual([]);
+    await expect(service.acquire('cliente2', 'blue')).resolves.toBe(port);
+  });
+});
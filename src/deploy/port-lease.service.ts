@@ -0,0 +1,173 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import { StoreService } from '../store/store.service';
+import { PortLease } from '../store/store.types';
+
+const PORT_LEASES = 'port-leases';
+
+type PortLeaseMap = Record<string, PortLease>;
+
+/**
+ * Reserva persistente de puertos del host
+ * Las asignaciones se serializan con un lock en proceso para que dos despliegues
+ * concurrentes nunca reciban el mismo puerto, y se guardan por subdominio y slot
+ * para que un redespliegue reutilice el puerto que ya tenía.
+ */
+@Injectable()
+export class PortLeaseService {
+  private readonly logger = new Logger(PortLeaseService.name);
+  private readonly min: number;
+  private readonly max: number;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private store: StoreService,
+    private configService: ConfigService,
+  ) {
+    this.min = Number(this.configService.get('HOST_PORT_RANGE_MIN') || 3003);
+    this.max = Number(this.configService.get('HOST_PORT_RANGE_MAX') || 4000);
+
+    if (
+      !Number.isInteger(this.min) ||
+      !Number.isInteger(this.max) ||
+      this.min < 1 ||
+      this.max > 65535 ||
+      this.min > this.max
+    ) {
+      throw new Error(
+        `Rango de puertos inválido: ${this.min}-${this.max}. Revisa HOST_PORT_RANGE_MIN y HOST_PORT_RANGE_MAX`,
+      );
+    }
+  }
+
+  /**
+   * Reserva un puerto para un slot de un subdominio
+   * Reutiliza la reserva existente si el puerto sigue libre; si no, asigna el primero
+   * del rango que no esté reservado, publicado por otro contenedor ni ocupado en el host
+   * @param subdomain - Subdominio del despliegue
+   * @param slot - Slot dentro del subdominio (p. ej. el color blue/green)
+   * @param usedPorts - Puertos publicados por contenedores que no pertenecen a este slot
+   */
+  acquire(
+    subdomain: string,
+    slot: string,
+    usedPorts: Set<number> = new Set(),
+  ): Promise<number> {
+    return this.withLock(async () => {
+      const leases = this.store.read<PortLeaseMap>(PORT_LEASES, {});
+      const key = this.getKey(subdomain, slot);
+      const current = leases[key];
+
+      if (current && (await this.isAvailable(current.port, usedPorts))) {
+        this.save({ ...current, updatedAt: new Date().toISOString() });
+        return current.port;
+      }
+
+      const leased = new Set(
+        Object.values(leases)
+          .filter((lease) => this.getKey(lease.subdomain, lease.slot) !== key)
+          .map((lease) => lease.port),
+      );
+
+      for (let port = this.min; port <= this.max; port++) {
+        if (leased.has(port) || !(await this.isAvailable(port, usedPorts))) {
+          continue;
+        }
+
+        if (current) {
+          this.logger.warn(
+            `El puerto ${current.port} de ${key} ya no está disponible. Nueva reserva: ${port}`,
+          );
+        } else {
+          this.logger.log(`Puerto ${port} reservado para ${key}`);
+        }
+
+        const now = new Date().toISOString();
+        this.save({
+          subdomain,
+          slot,
+          port,
+          createdAt: current?.createdAt ?? now,
+          updatedAt: now,
+        });
+        return port;
+      }
+
+      throw new BadRequestException(
+        `No hay puertos disponibles en el rango ${this.min}-${this.max}. Por favor, libera algunos despliegues.`,
+      );
+    });
+  }
+
+  /**
+   * Libera las reservas de un subdominio (todas o sólo la de un slot)
+   */
+  release(subdomain: string, slot?: string): Promise<void> {
+    return this.withLock(() => {
+      this.store.update<PortLeaseMap>(PORT_LEASES, {}, (leases) => {
+        for (const [key, lease] of Object.entries(leases)) {
+          if (
+            lease.subdomain === subdomain &&
+            (slot === undefined || lease.slot === slot)
+          ) {
+            delete leases[key];
+          }
+        }
+      });
+      this.logger.log(
+        `Reservas de puertos liberadas para ${slot ? this.getKey(subdomain, slot) : subdomain}`,
+      );
+      return Promise.resolve();
+    });
+  }
+
+  /**
+   * Reservas de un subdominio o de todos, ordenadas por puerto
+   */
+  list(subdomain?: string): PortLease[] {
+    return Object.values(this.store.read<PortLeaseMap>(PORT_LEASES, {}))
+      .filter((lease) => !subdomain || lease.subdomain === subdomain)
+      .sort((a, b) => a.port - b.port);
+  }
+
+  private save(lease: PortLease) {
+    this.store.update<PortLeaseMap>(PORT_LEASES, {}, (leases) => {
+      leases[this.getKey(lease.subdomain, lease.slot)] = lease;
+    });
+  }
+
+  private getKey(subdomain: string, slot: string) {
+    return `${subdomain}:${slot}`;
+  }
+
+  private async isAvailable(port: number, usedPorts: Set<number>) {
+    return (
+      port >= this.min &&
+      port <= this.max &&
+      !usedPorts.has(port) &&
+      (await this.isBindable(port))
+    );
+  }
+
+  /**
+   * Comprueba que el puerto se pueda abrir en el host (nadie más lo está escuchando)
+   */
+  private isBindable(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = net.createServer();
+      server.once('error', () => resolve(false));
+      server.once('listening', () => server.close(() => resolve(true)));
+      server.listen(port, '0.0.0.0');
+    });
+  }
+
+  /**
+   * Ejecuta las operaciones de una en una aunque vengan de despliegues concurrentes
+   */
+  private withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReconcilerService } from './reconciler.service';
+import { DeployService } from './deploy.service';
+import { NginxService, ProxyConfigFile } from '../nginx/nginx.service';
+import { JobsService } from '../jobs/jobs.service';
+import { StoreService } from '../store/store.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import { DeploymentRecord } from '../store/store.types';
+
+describe('ReconcilerService', () => {
+  let service: ReconcilerService;
+  let deploymentStore: DeploymentStoreService;
+  let dataDir: string;
+  let deployService: {
+    getExpectedProxy: jest.Mock;
+    getDeployment: jest.Mock;
+    restoreProxyRoute: jest.Mock;
+    listManagedContainers: jest.Mock;
+  };
+  let nginxService: {
+    removeProxyConfig: jest.Mock;
+    listConfigFiles: jest.Mock;
+  };
+  // Archivos .conf en disco y contenedores gestionados según Docker
+  let configFiles: ProxyConfigFile[];
+  let managedContainers: { subdomain: string; containerName: string }[];
+  let jobsService: {
+    list: jest.Mock;
+    enqueue: jest.Mock;
+    toReference: jest.Mock;
+  };
+  let jobs: { key: string; run: () => Promise<unknown> }[];
+
+  // Registra un despliegue y, si se indican puertos, su configuración de Nginx
+  const saveDeployment = (
+    subdomain: string,
+    ports: number[] | null,
+    status: DeploymentRecord['status'] = 'running',
+  ) => {
+    deploymentStore.saveDeployment({
+      subdomain,
+      spec: { subdomain, imageName: 'usuario/app:v1', internalPort: 3000 },
+      imageName: 'usuario/app:v1',
+      imageDigest: null,
+      imageId: null,
+      internalPort: 3000,
+      hostPort: 10000,
+      containerId: `id-${subdomain}`,
+      containerName: `container-${subdomain}`,
+      status,
+      revision: 1,
+      deployedBy: 'test',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    if (ports) {
+      saveRoute(subdomain, ports);
+    }
+  };
+
+  const saveRoute = (subdomain: string, ports: number[]) => {
+    const filePath = path.join(dataDir, `${subdomain}.conf`);
+    configFiles.push({ subdomain, filePath, mode: 'proxy', ports });
+    deploymentStore.saveProxyRoute({
+      subdomain,
+      port: ports[0],
+      ports,
+      filePath,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      RECONCILE_INTERVAL_SECONDS: '0',
+    };
+    jobs = [];
+    configFiles = [];
+    managedContainers = [];
+
+    deployService = {
+      getExpectedProxy: jest.fn((record: DeploymentRecord) => ({
+        mode: record.status === 'running' ? 'proxy' : 'maintenance',
+        ports: [10000],
+      })),
+      getDeployment: jest.fn((subdomain: string) =>
+        Promise.resolve({
+          replicaContainers: [
+            { containerName: `container-${subdomain}`, state: 'running' },
+          ],
+        }),
+      ),
+      restoreProxyRoute: jest.fn(),
+      listManagedContainers: jest.fn(() => Promise.resolve(managedContainers)),
+    };
+    nginxService = {
+      removeProxyConfig: jest.fn(),
+      listConfigFiles: jest.fn(() => configFiles),
+    };
+    jobsService = {
+      list: jest.fn(() => []),
+      enqueue: jest.fn(
+        (options: { key: string; run: () => Promise<unknown> }) => {
+          jobs.push(options);
+          return { id: `reconcile-${options.key}` };
+        },
+      ),
+      toReference: jest.fn((job: { id: string }) => ({ jobId: job.id })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconcilerService,
+        StoreService,
+        DeploymentStoreService,
+        { provide: DeployService, useValue: deployService },
+        { provide: NginxService, useValue: nginxService },
+        { provide: JobsService, useValue: jobsService },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReconcilerService>(ReconcilerService);
+    deploymentStore = module.get<DeploymentStoreService>(
+      DeploymentStoreService,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should report orphan configs, port mismatches and dead upstreams', async () => {
+    saveDeployment('cliente1', [10000]);
+    saveDeployment('cliente2', [9999]);
+    saveDeployment('cliente3', [10000]);
+    saveRoute('legacy', [9000]);
+    deployService.getDeployment.mockImplementation((subdomain: string) =>
+      Promise.resolve({
+        replicaContainers: [
+          {
+            containerName: `container-${subdomain}`,
+            state: subdomain === 'cliente3' ? 'exited' : 'running',
+          },
+        ],
+      }),
+    );
+
+    const report = await service.inspect();
+
+    expect(report).toMatchObject({ deployments: 3, proxyConfigs: 4 });
+    expect(
+      report.issues.map(({ type, subdomain, repairable }) => [
+        type,
+        subdomain,
+        repairable,
+      ]),
+    ).toEqual([
+      ['port-mismatch', 'cliente2', true],
+      ['dead-upstream', 'cliente3', false],
+      ['orphan-config', 'legacy', true],
+    ]);
+    expect(report.issues[0]).toMatchObject({
+      expectedPorts: [10000],
+      actualPorts: [9999],
+    });
+  });
+
+  it('should detect missing configs and maintenance mode mismatches', async () => {
+    saveDeployment('cliente1', null);
+    saveDeployment('cliente2', [10000], 'stopped');
+
+    const report = await service.inspect();
+
+    expect(
+      report.issues.map(({ type, subdomain }) => [type, subdomain]),
+    ).toEqual([
+      ['missing-config', 'cliente1'],
+      ['mode-mismatch', 'cliente2'],
+    ]);
+  });
+
+  it('should compare against the configs on disk and report unregistered managed containers', async () => {
+    saveDeployment('cliente1', [10000]);
+    saveDeployment('cliente2', [10000]);
+    // Editado a mano: el registro dice 10000 pero el archivo apunta a 9999
+    configFiles[0].ports = [9999];
+    // Borrado a mano: el registro conserva la ruta pero el archivo ya no existe
+    configFiles.splice(1, 1);
+    // Creado fuera del orquestador, sin ruta ni despliegue
+    configFiles.push({
+      subdomain: 'manual',
+      filePath: path.join(dataDir, 'manual.conf'),
+      mode: 'proxy',
+      ports: [8080],
+    });
+    managedContainers.push({
+      subdomain: 'huerfano',
+      containerName: 'container-huerfano-blue',
+    });
+
+    const report = await service.inspect();
+
+    expect(
+      report.issues.map(({ type, subdomain, repairable }) => [
+        type,
+        subdomain,
+        repairable,
+      ]),
+    ).toEqual([
+      ['port-mismatch', 'cliente1', true],
+      ['missing-config', 'cliente2', true],
+      ['orphan-container', 'huerfano', false],
+      ['orphan-config', 'manual', true],
+    ]);
+    expect(report.issues[0]).toMatchObject({
+      expectedPorts: [10000],
+      actualPorts: [9999],
+    });
+
+    await service.reconcile();
+    for (const job of jobs) {
+      await job.run();
+    }
+    expect(nginxService.removeProxyConfig).toHaveBeenCalledWith('manual');
+  });
+
+  it('should skip subdomains with jobs in progress', async () => {
+    saveDeployment('cliente1', [9999]);
+    jobsService.list.mockReturnValue([{ key: 'cliente1', status: 'running' }]);
+
+    const report = await service.inspect();
+
+    expect(report.issues).toEqual([]);
+    expect(report.skipped).toEqual(['cliente1']);
+  });
+
+  it('should queue repairs for repairable issues', async () => {
+    saveDeployment('cliente1', [9999]);
+    saveDeployment('cliente2', [10000]);
+    saveRoute('legacy', [9000]);
+    deployService.getDeployment.mockImplementation((subdomain: string) =>
+      Promise.resolve({
+        replicaContainers: [
+          {
+            containerName: `container-${subdomain}`,
+            state: subdomain === 'cliente2' ? 'exited' : 'running',
+          },
+        ],
+      }),
+    );
+
+    const result = await service.reconcile();
+
+    expect(result.repairs).toEqual([
+      { subdomain: 'cliente1', job: { jobId: 'reconcile-cliente1' } },
+      { subdomain: 'legacy', job: { jobId: 'reconcile-legacy' } },
+    ]);
+
+    for (const job of jobs) {
+      await job.run();
+    }
+    expect(deployService.restoreProxyRoute).toHaveBeenCalledTimes(1);
+    expect(deployService.restoreProxyRoute).toHaveBeenCalledWith('cliente1');
+    expect(nginxService.removeProxyConfig).toHaveBeenCalledWith('legacy');
+  });
+});
@@ -0,0 +1,303 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DeployService } from './deploy.service';
+import { DriftIssue, ReconcileReport } from './deploy.types';
+import { NginxService, ProxyConfigFile } from '../nginx/nginx.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobReference } from '../jobs/jobs.types';
+
+const INTERVAL_NAME = 'deploy-reconciler';
+
+/**
+ * Reconciliador entre los despliegues y las configuraciones de Nginx
+ * Los contenedores y los sitios de Nginx se gestionan por separado: una eliminación a medias
+ * o un cambio manual en /nginx dejan configuraciones huérfanas o que apuntan a puertos muertos.
+ * Cada pasada compara los registros con los archivos .conf que hay en disco y con los contenedores
+ * gestionados que lista Docker y, al reparar, reescribe o elimina las configuraciones
+ * en trabajos que se ejecutan en serie con los despliegues del mismo subdominio.
+ * Los contenedores sin despliegue sólo se informan.
+ */
+@Injectable()
+export class ReconcilerService implements OnModuleInit {
+  private readonly logger = new Logger(ReconcilerService.name);
+  private running = false;
+
+  constructor(
+    private configService: ConfigService,
+    private schedulerRegistry: SchedulerRegistry,
+    private deploymentStore: DeploymentStoreService,
+    private nginxService: NginxService,
+    private deployService: DeployService,
+    private jobsService: JobsService,
+  ) {}
+
+  /**
+   * Programa la revisión periódica (RECONCILE_INTERVAL_SECONDS, 0 la desactiva)
+   */
+  onModuleInit() {
+    const intervalSeconds = Number(
+      this.configService.get('RECONCILE_INTERVAL_SECONDS') ?? 300,
+    );
+    if (!(intervalSeconds > 0)) {
+      return;
+    }
+
+    this.schedulerRegistry.addInterval(
+      INTERVAL_NAME,
+      setInterval(() => void this.runScheduled(), intervalSeconds * 1000),
+    );
+  }
+
+  /**
+   * Detecta las diferencias sin cambiar nada
+   */
+  async inspect(): Promise<ReconcileReport> {
+    const records = this.deploymentStore.listDeployments();
+    const routes = this.deploymentStore.listProxyRoutes();
+    const files = this.nginxService.listConfigFiles();
+    const containers = await this.deployService.listManagedContainers();
+    // Durante un despliegue el proxy y las réplicas cambian: no se revisan hasta que termine
+    const busy = new Set(
+      this.jobsService
+        .list()
+        .filter((job) => job.status === 'queued' || job.status === 'running')
+        .map((job) => job.key),
+    );
+    const subdomains = [
+      ...new Set([
+        ...records.map((record) => record.subdomain),
+        ...routes.map((route) => route.subdomain),
+        ...files.map((file) => file.subdomain),
+        ...containers.map((container) => container.subdomain),
+      ]),
+    ].sort();
+
+    const issues: DriftIssue[] = [];
+    for (const subdomain of subdomains.filter((item) => !busy.has(item))) {
+      issues.push(
+        ...(await this.inspectSubdomain(
+          subdomain,
+          files.find((file) => file.subdomain === subdomain),
+          containers
+            .filter((container) => container.subdomain === subdomain)
+            .map((container) => container.containerName),
+        )),
+      );
+    }
+
+    return {
+      checkedAt: new Date().toISOString(),
+      deployments: records.length,
+      proxyConfigs: files.length,
+      issues,
+      skipped: subdomains.filter((subdomain) => busy.has(subdomain)),
+    };
+  }
+
+  /**
+   * Detecta las diferencias y encola la reparación de cada subdominio afectado
+   * Las que no se pueden reparar automáticamente (dead-upstream) sólo se informan
+   */
+  async reconcile(): Promise<
+    ReconcileReport & { repairs: { subdomain: string; job: JobReference }[] }
+  > {
+    const report = await this.inspect();
+    const subdomains = [
+      ...new Set(
+        report.issues
+          .filter((issue) => issue.repairable)
+          .map((issue) => issue.subdomain),
+      ),
+    ];
+
+    const repairs = subdomains.map((subdomain) => {
+      const job = this.jobsService.enqueue({
+        type: 'reconcile',
+        key: subdomain,
+        description: `Reparar la configuración de Nginx de ${subdomain}`,
+        run: () => this.repair(subdomain),
+      });
+      return { subdomain, job: this.jobsService.toReference(job) };
+    });
+
+    return { ...report, repairs };
+  }
+
+  /**
+   * Repara un subdominio; las diferencias se recalculan al ejecutar el trabajo
+   */
+  private async repair(subdomain: string) {
+    const file = this.nginxService
+      .listConfigFiles()
+      .find((item) => item.subdomain === subdomain);
+    const issues = await this.inspectSubdomain(subdomain, file);
+    const repairable = issues.filter((issue) => issue.repairable);
+
+    if (repairable.some((issue) => issue.type === 'orphan-config')) {
+      if (this.deploymentStore.getDeployment(subdomain)) {
+        await this.deployService.restoreProxyRoute(subdomain);
+      } else if (file) {
+        await this.nginxService.removeProxyConfig(subdomain);
+      } else {
+        this.deploymentStore.removeProxyRoute(subdomain);
+      }
+    } else if (repairable.length > 0) {
+      await this.deployService.restoreProxyRoute(subdomain);
+    }
+
+    for (const issue of repairable) {
+      this.logger.log(
+        `Reparado ${issue.type} en ${subdomain}: ${issue.message}`,
+      );
+    }
+    return {
+      subdomain,
+      repaired: repairable,
+      remaining: issues.filter((issue) => !issue.repairable),
+    };
+  }
+
+  /**
+   * @param file - Configuración del subdominio en disco: es la que decide los puertos reales
+   * @param containers - Contenedores gestionados del subdominio según Docker
+   */
+  private async inspectSubdomain(
+    subdomain: string,
+    file: ProxyConfigFile | undefined,
+    containers: string[] = [],
+  ): Promise<DriftIssue[]> {
+    const record = this.deploymentStore.getDeployment(subdomain);
+    const route = this.deploymentStore.getProxyRoute(subdomain);
+    const expected = record
+      ? this.deployService.getExpectedProxy(record)
+      : null;
+    const actualPorts = file
+      ? file.ports
+      : route
+        ? (route.ports ?? [route.port])
+        : null;
+    const issue = (
+      type: DriftIssue['type'],
+      message: string,
+      repairable = true,
+    ): DriftIssue => ({
+      type,
+      subdomain,
+      message,
+      expectedPorts: expected?.ports ?? null,
+      actualPorts,
+      repairable,
+    });
+
+    if (!record || !expected) {
+      const issues: DriftIssue[] = [];
+      if (route || file) {
+        issues.push(
+          issue(
+            'orphan-config',
+            record
+              ? `${subdomain} no tiene proxy público pero tiene configuración de Nginx`
+              : `Configuración de Nginx sin despliegue (puertos ${actualPorts?.join(', ')})`,
+          ),
+        );
+      }
+      if (!record && containers.length > 0) {
+        issues.push(
+          issue(
+            'orphan-container',
+            `${containers.join(', ')} está(n) gestionado(s) por el orquestador pero ${subdomain} no tiene despliegue. ` +
+              `Elimínalo(s) con DELETE /deploy/${subdomain}`,
+            false,
+          ),
+        );
+      }
+      return issues;
+    }
+
+    if (!file) {
+      return [
+        issue(
+          'missing-config',
+          route
+            ? `Falta el archivo ${route.filePath}`
+            : `${subdomain} no tiene configuración de Nginx`,
+        ),
+      ];
+    }
+
+    const issues: DriftIssue[] = [];
+    const { mode } = file;
+    if (mode !== expected.mode) {
+      issues.push(
+        issue(
+          'mode-mismatch',
+          `Nginx sirve ${mode === 'maintenance' ? 'la página de mantenimiento' : 'el proxy'} pero el despliegue está ${record.status}`,
+        ),
+      );
+    }
+    if (expected.mode === 'maintenance') {
+      return issues;
+    }
+
+    const sorted = (ports: number[]) => [...ports].sort((a, b) => a - b);
+    if (
+      sorted(actualPorts ?? []).join(',') !== sorted(expected.ports).join(',')
+    ) {
+      issues.push(
+        issue(
+          'port-mismatch',
+          `Nginx apunta a ${actualPorts?.join(', ')} en lugar de ${expected.ports.join(', ')}`,
+        ),
+      );
+    }
+
+    const { replicaContainers } =
+      await this.deployService.getDeployment(subdomain);
+    const stopped = replicaContainers.filter(
+      (replica) => replica.state !== 'running',
+    );
+    if (stopped.length > 0) {
+      issues.push(
+        issue(
+          'dead-upstream',
+          `${stopped.map((replica) => `${replica.containerName} (${replica.state})`).join(', ')} no está(n) en ejecución. ` +
+            `Redespliega o haz rollback de ${subdomain}`,
+          false,
+        ),
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Pasada programada: informa de las diferencias y, con RECONCILE_AUTO_REPAIR=true, las repara
+   */
+  private async runScheduled() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const autoRepair =
+        this.configService.get('RECONCILE_AUTO_REPAIR') === 'true';
+      const report = autoRepair ? await this.reconcile() : await this.inspect();
+
+      for (const issue of report.issues) {
+        this.logger.warn(
+          `${issue.type} en ${issue.subdomain}: ${issue.message}${autoRepair && issue.repairable ? ' (reparación encolada)' : ''}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error en la reconciliación programada: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
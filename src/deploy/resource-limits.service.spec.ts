@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ResourceLimitsService } from './resource-limits.service';
+
+describe('ResourceLimitsService', () => {
+  let service: ResourceLimitsService;
+
+  beforeEach(async () => {
+    const config: Record<string, string> = {
+      CONTAINER_MEMORY_LIMIT_MB: '256',
+      CONTAINER_MAX_MEMORY_MB: '1024',
+      CONTAINER_MAX_CPUS: '2',
+      CONTAINER_MAX_PIDS: '512',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ResourceLimitsService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ResourceLimitsService>(ResourceLimitsService);
+  });
+
+  it('should keep the historical defaults when nothing is requested', () => {
+    expect(service.resolve()).toEqual({
+      memoryMb: 256,
+      memorySwapMb: 512,
+      cpus: null,
+      cpuShares: null,
+      pidsLimit: 512,
+      restartPolicy: 'unless-stopped',
+      maxRestartRetries: 0,
+    });
+  });
+
+  it('should map the limits to the Docker host config', () => {
+    const limits = service.resolve({
+      memoryMb: 512,
+      cpus: 0.5,
+      cpuShares: 512,
+      restartPolicy: 'on-failure',
+      maxRestartRetries: 3,
+    });
+
+    expect(service.toHostConfig(limits)).toEqual({
+      Memory: 512 * 1024 * 1024,
+      MemorySwap: 1024 * 1024 * 1024,
+      NanoCpus: 500000000,
+      CpuShares: 512,
+      PidsLimit: 512,
+      RestartPolicy: { Name: 'on-failure', MaximumRetryCount: 3 },
+    });
+  });
+
+  it('should report every limit above the operator maximums', () => {
+    try {
+      service.resolve({ memoryMb: 2048, cpus: 4, pidsLimit: 1000 });
+      fail('Se esperaba un BadRequestException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      const response = (error as BadRequestException).getResponse() as {
+        message: string[];
+      };
+      expect(response.message).toHaveLength(4);
+      expect(response.message[0]).toContain('memoryMb (2048)');
+    }
+  });
+});
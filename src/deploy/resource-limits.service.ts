@@ -0,0 +1,139 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as Docker from 'dockerode';
+import { ResourceLimits } from './deploy.types';
+
+/**
+ * Máximos que el operador permite pedir en un despliegue
+ * `null` significa que no hay máximo configurado
+ */
+export interface ResourceMaximums {
+  memoryMb: number;
+  memorySwapMb: number;
+  cpus: number;
+  pidsLimit: number | null;
+}
+
+@Injectable()
+export class ResourceLimitsService {
+  private readonly defaultMemoryMb: number;
+  private readonly maximums: ResourceMaximums;
+
+  constructor(private configService: ConfigService) {
+    // Límite histórico común a todos los despliegues (vital en instancias t3.micro)
+    this.defaultMemoryMb = Number(
+      this.configService.get('CONTAINER_MEMORY_LIMIT_MB') || 256,
+    );
+
+    const maxMemoryMb = Number(
+      this.configService.get('CONTAINER_MAX_MEMORY_MB') || 1024,
+    );
+    const maxPids = this.configService.get<string>('CONTAINER_MAX_PIDS');
+    this.maximums = {
+      memoryMb: maxMemoryMb,
+      memorySwapMb: Number(
+        this.configService.get('CONTAINER_MAX_MEMORY_SWAP_MB') ||
+          maxMemoryMb * 2,
+      ),
+      cpus: Number(this.configService.get('CONTAINER_MAX_CPUS') || 1),
+      pidsLimit: maxPids ? Number(maxPids) : null,
+    };
+  }
+
+  /**
+   * Completa los límites pedidos con los valores por defecto y los valida contra los máximos
+   * @throws BadRequestException con una entrada por cada límite que se excede
+   */
+  resolve(requested?: Partial<ResourceLimits>): ResourceLimits {
+    const memoryMb = requested?.memoryMb ?? this.defaultMemoryMb;
+    const limits: ResourceLimits = {
+      memoryMb,
+      // Por defecto se permite swap (el doble de la memoria) para evitar el OOM Killer
+      memorySwapMb: requested?.memorySwapMb ?? memoryMb * 2,
+      cpus: requested?.cpus ?? null,
+      cpuShares: requested?.cpuShares ?? null,
+      pidsLimit: requested?.pidsLimit ?? this.maximums.pidsLimit,
+      restartPolicy: requested?.restartPolicy ?? 'unless-stopped',
+      maxRestartRetries: requested?.maxRestartRetries ?? 0,
+    };
+
+    const violations: string[] = [];
+    const max = this.maximums;
+
+    if (limits.memoryMb > max.memoryMb) {
+      violations.push(
+        `memoryMb (${limits.memoryMb}) supera el máximo permitido (${max.memoryMb})`,
+      );
+    }
+
+    if (limits.memorySwapMb === -1) {
+      if (max.memorySwapMb !== -1) {
+        violations.push(
+          `memorySwapMb ilimitado (-1) no está permitido; máximo ${max.memorySwapMb}`,
+        );
+      }
+    } else if (limits.memorySwapMb < limits.memoryMb) {
+      violations.push(
+        `memorySwapMb (${limits.memorySwapMb}) debe ser mayor o igual que memoryMb (${limits.memoryMb})`,
+      );
+    } else if (
+      max.memorySwapMb !== -1 &&
+      limits.memorySwapMb > max.memorySwapMb
+    ) {
+      violations.push(
+        `memorySwapMb (${limits.memorySwapMb}) supera el máximo permitido (${max.memorySwapMb})`,
+      );
+    }
+
+    if (limits.cpus !== null && limits.cpus > max.cpus) {
+      violations.push(
+        `cpus (${limits.cpus}) supera el máximo permitido (${max.cpus})`,
+      );
+    }
+
+    if (
+      limits.pidsLimit !== null &&
+      max.pidsLimit !== null &&
+      limits.pidsLimit > max.pidsLimit
+    ) {
+      violations.push(
+        `pidsLimit (${limits.pidsLimit}) supera el máximo permitido (${max.pidsLimit})`,
+      );
+    }
+
+    if (limits.maxRestartRetries > 0 && limits.restartPolicy !== 'on-failure') {
+      violations.push(
+        'maxRestartRetries sólo se puede usar con la política on-failure',
+      );
+    }
+
+    if (violations.length > 0) {
+      throw new BadRequestException(violations);
+    }
+
+    return limits;
+  }
+
+  /**
+   * Traduce los límites a la configuración de host de Docker
+   */
+  toHostConfig(limits: ResourceLimits): Docker.HostConfig {
+    const mb = 1024 * 1024;
+
+    return {
+      Memory: limits.memoryMb * mb,
+      MemorySwap: limits.memorySwapMb === -1 ? -1 : limits.memorySwapMb * mb,
+      ...(limits.cpus !== null && {
+        NanoCpus: Math.round(limits.cpus * 1e9),
+      }),
+      ...(limits.cpuShares !== null && { CpuShares: limits.cpuShares }),
+      ...(limits.pidsLimit !== null && { PidsLimit: limits.pidsLimit }),
+      RestartPolicy: {
+        Name: limits.restartPolicy,
+        ...(limits.restartPolicy === 'on-failure' && {
+          MaximumRetryCount: limits.maxRestartRetries,
+        }),
+      },
+    };
+  }
+}
@@ -1,38 +1,70 @@
 import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { InfraService } from './infra.service';
+import { JobsService } from '../jobs/jobs.service';
 import { CreateVpcEc2Dto } from './dto/create-vpc-ec2.dto';
 import { CreateLoadBalancerDto } from './dto/create-load-balancer.dto';
 
 @ApiTags('Infra (VPC + EC2)')
 @Controller('infra')
 export class InfraController {
-  constructor(private readonly infraService: InfraService) {}
+  constructor(
+    private readonly infraService: InfraService,
+    private readonly jobsService: JobsService,
+  ) {}
 
   @Post('vpc-ec2')
-  @ApiOperation({ summary: 'Crea VPC, subred pública, security group y EC2 con Docker' })
-  @ApiResponse({ status: 201, description: 'VPC y EC2 creados. Retorna publicIp y publicDns.' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Crea VPC, subred pública, security group y EC2 con Docker',
+    description:
+      'Se ejecuta como trabajo: consulta GET /jobs/:id para obtener publicIp y publicDns.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Trabajo encolado. Retorna el jobId.',
+  })
   @ApiResponse({ status: 400, description: 'Datos de entrada inválidos.' })
-  @ApiResponse({ status: 500, description: 'Error en Pulumi (p. ej. keyName inexistente en AWS).' })
-  async createVpcEc2(@Body() dto: CreateVpcEc2Dto) {
-    return this.infraService.createVpcEc2(
-      dto.keyName,
-      dto.name ?? 'host-platform',
-      dto.instanceType ?? 't3.micro',
-    );
+  createVpcEc2(@Body() dto: CreateVpcEc2Dto) {
+    const name = dto.name ?? 'host-platform';
+    const job = this.jobsService.enqueue({
+      type: 'infra',
+      key: 'pulumi:vpc-ec2',
+      description: `Creación de VPC y EC2 (${name})`,
+      run: (job) =>
+        this.infraService.createVpcEc2(
+          dto.keyName,
+          name,
+          dto.instanceType ?? 't3.micro',
+          job,
+        ),
+    });
+    return this.jobsService.toReference(job);
   }
 
   @Post('load-balancer')
-  @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Crea un Application Load Balancer (ALB) para la instancia EC2 existente' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary:
+      'Crea un Application Load Balancer (ALB) para la instancia EC2 existente',
+    description:
+      'Se ejecuta como trabajo: el resultado descrito abajo queda en `result` de GET /jobs/:id.',
+  })
   @ApiResponse({
-    status: 201,
-    description: 'Load Balancer creado exitosamente. Retorna DNS name y ARN del ALB.',
+    status: 202,
+    description:
+      'Trabajo encolado. Al completarse, su resultado contiene el DNS name y ARN del ALB.',
     schema: {
       type: 'object',
       properties: {
-        loadBalancerArn: { type: 'string', example: 'arn:aws:elasticloadbalancing:...' },
-        loadBalancerDns: { type: 'string', example: 'host-platform-alb-123456789.us-east-1.elb.amazonaws.com' },
+        loadBalancerArn: {
+          type: 'string',
+          example: 'arn:aws:elasticloadbalancing:...',
+        },
+        loadBalancerDns: {
+          type: 'string',
+          example: 'host-platform-alb-123456789.us-east-1.elb.amazonaws.com',
+        },
         targetGroupArn: { type: 'string' },
         httpListenerArn: { type: 'string' },
         httpsListenerArn: { type: 'string', nullable: true },
@@ -42,18 +74,21 @@ export class InfraController {
     },
   })
   @ApiResponse({ status: 400, description: 'Datos de entrada inválidos.' })
-  @ApiResponse({
-    status: 404,
-    description: 'No se encontró la infraestructura VPC/EC2 con el nombre especificado.',
-  })
-  @ApiResponse({ status: 500, description: 'Error en Pulumi al crear el Load Balancer.' })
-  async createLoadBalancer(@Body() dto: CreateLoadBalancerDto) {
-    return this.infraService.createLoadBalancer(
-      dto.name,
-      dto.httpPort ?? 80,
-      dto.httpsPort,
-      dto.targetPort ?? 3000,
-      dto.loadBalancerType ?? 'application',
-    );
+  createLoadBalancer(@Body() dto: CreateLoadBalancerDto) {
+    const job = this.jobsService.enqueue({
+      type: 'infra',
+      key: 'pulumi:load-balancer',
+      description: `Creación del Load Balancer (${dto.name})`,
+      run: (job) =>
+        this.infraService.createLoadBalancer(
+          dto.name,
+          dto.httpPort ?? 80,
+          dto.httpsPort,
+          dto.targetPort ?? 3000,
+          dto.loadBalancerType ?? 'application',
+          job,
+        ),
+    });
+    return this.jobsService.toReference(job);
   }
 }
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
+import { JobsModule } from '../jobs/jobs.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 import { InfraController } from './infra.controller';
 import { InfraService } from './infra.service';
 
 @Module({
+  imports: [JobsModule, NotificationsModule],
   controllers: [InfraController],
   providers: [InfraService],
 })
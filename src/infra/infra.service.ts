@@ -2,17 +2,23 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { LocalWorkspace } from '@pulumi/pulumi/automation';
 import * as aws from '@pulumi/aws';
+import { JobContext } from '../jobs/jobs.types';
+import { NotificationsService } from '../notifications/notifications.service';
 
 @Injectable()
 export class InfraService {
   private readonly logger = new Logger(InfraService.name);
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private notifications: NotificationsService,
+  ) {}
 
   async createVpcEc2(
     keyName: string,
     name: string = 'host-platform',
     instanceType: string = 't3.micro',
+    job?: JobContext,
   ) {
     const awsRegion = this.configService.get('AWS_REGION') || 'us-east-1';
     const availabilityZone = `${awsRegion}a`;
@@ -57,11 +63,28 @@ export class InfraService {
         vpcId: vpc.id,
         description: 'Allow SSH and Web traffic',
         ingress: [
-          { protocol: 'tcp', fromPort: 22, toPort: 22, cidrBlocks: ['0.0.0.0/0'] }, // SSH
-          { protocol: 'tcp', fromPort: 80, toPort: 80, cidrBlocks: ['0.0.0.0/0'] }, // HTTP
-          { protocol: 'tcp', fromPort: 443, toPort: 443, cidrBlocks: ['0.0.0.0/0'] }, // HTTPS
+          {
+            protocol: 'tcp',
+            fromPort: 22,
+            toPort: 22,
+            cidrBlocks: ['0.0.0.0/0'],
+          }, // SSH
+          {
+            protocol: 'tcp',
+            fromPort: 80,
+            toPort: 80,
+            cidrBlocks: ['0.0.0.0/0'],
+          }, // HTTP
+          {
+            protocol: 'tcp',
+            fromPort: 443,
+            toPort: 443,
+            cidrBlocks: ['0.0.0.0/0'],
+          }, // HTTPS
+        ],
+        egress: [
+          { protocol: '-1', fromPort: 0, toPort: 0, cidrBlocks: ['0.0.0.0/0'] },
         ],
-        egress: [{ protocol: '-1', fromPort: 0, toPort: 0, cidrBlocks: ['0.0.0.0/0'] }],
         tags: { Name: `${name}-web-secgroup` },
       });
 
@@ -86,7 +109,10 @@ systemctl start docker
 systemctl enable docker
 usermod -aG docker ec2-user
 `,
-        tags: { Name: `${name}-master-server`, ManagedBy: 'NestJS-Orchestrator' },
+        tags: {
+          Name: `${name}-master-server`,
+          ManagedBy: 'NestJS-Orchestrator',
+        },
       });
 
       return {
@@ -106,16 +132,27 @@ usermod -aG docker ec2-user
       await stack.setConfig('aws:region', { value: awsRegion });
 
       this.logger.log(`Creando VPC y EC2 (${name}) en ${awsRegion}...`);
-      const upRes = await stack.up({ onOutput: (msg) => this.logger.debug(msg) });
+      job?.step('pulumi-up', 'Ejecutando pulumi up');
+      const upRes = await stack.up({
+        onOutput: (msg) => {
+          this.logger.debug(msg);
+          job?.log(msg);
+        },
+      });
 
       const outputs: Record<string, unknown> = {};
       for (const [k, v] of Object.entries(upRes.outputs)) {
         outputs[k] = (v as { value?: unknown })?.value ?? v;
       }
 
+      this.notifyStackUp('vpc-ec2', { outputs });
       return outputs;
     } catch (e) {
-      this.logger.error(`Error en VPC/EC2: ${(e as Error).message}`, (e as Error).stack);
+      this.notifyStackUp('vpc-ec2', { error: e as Error });
+      this.logger.error(
+        `Error en VPC/EC2: ${(e as Error).message}`,
+        (e as Error).stack,
+      );
       throw e;
     }
   }
@@ -126,6 +163,7 @@ usermod -aG docker ec2-user
     httpsPort?: number,
     targetPort: number = 3000,
     loadBalancerType: string = 'application',
+    job?: JobContext,
   ) {
     const awsRegion = this.configService.get('AWS_REGION') || 'us-east-1';
     const availabilityZone = `${awsRegion}a`;
@@ -162,7 +200,9 @@ usermod -aG docker ec2-user
       });
 
       if (!instancesResult.ids || instancesResult.ids.length === 0) {
-        throw new Error(`No se encontró una instancia EC2 en ejecución para ${name}`);
+        throw new Error(
+          `No se encontró una instancia EC2 en ejecución para ${name}`,
+        );
       }
 
       // Usar la primera instancia encontrada
@@ -173,13 +213,30 @@ usermod -aG docker ec2-user
         vpcId: vpcResult.id,
         description: 'Security group for Application Load Balancer',
         ingress: [
-          { protocol: 'tcp', fromPort: httpPort, toPort: httpPort, cidrBlocks: ['0.0.0.0/0'] },
+          {
+            protocol: 'tcp',
+            fromPort: httpPort,
+            toPort: httpPort,
+            cidrBlocks: ['0.0.0.0/0'],
+          },
           ...(httpsPort
-            ? [{ protocol: 'tcp', fromPort: httpsPort, toPort: httpsPort, cidrBlocks: ['0.0.0.0/0'] }]
+            ? [
+                {
+                  protocol: 'tcp',
+                  fromPort: httpsPort,
+                  toPort: httpsPort,
+                  cidrBlocks: ['0.0.0.0/0'],
+                },
+              ]
             : []),
         ],
-        egress: [{ protocol: '-1', fromPort: 0, toPort: 0, cidrBlocks: ['0.0.0.0/0'] }],
-        tags: { Name: `${name}-alb-secgroup`, ManagedBy: 'NestJS-Orchestrator' },
+        egress: [
+          { protocol: '-1', fromPort: 0, toPort: 0, cidrBlocks: ['0.0.0.0/0'] },
+        ],
+        tags: {
+          Name: `${name}-alb-secgroup`,
+          ManagedBy: 'NestJS-Orchestrator',
+        },
       });
 
       // 5. Actualizar Security Group de EC2 para permitir tráfico desde el ALB
@@ -220,7 +277,10 @@ usermod -aG docker ec2-user
           protocol: 'HTTP',
           matcher: '200',
         },
-        tags: { Name: `${name}-target-group`, ManagedBy: 'NestJS-Orchestrator' },
+        tags: {
+          Name: `${name}-target-group`,
+          ManagedBy: 'NestJS-Orchestrator',
+        },
       });
 
       // 7. Registrar instancia EC2 en el Target Group
@@ -293,17 +353,50 @@ usermod -aG docker ec2-user
       await stack.setConfig('aws:region', { value: awsRegion });
 
       this.logger.log(`Creando Load Balancer para ${name} en ${awsRegion}...`);
-      const upRes = await stack.up({ onOutput: (msg) => this.logger.debug(msg) });
+      job?.step('pulumi-up', 'Ejecutando pulumi up');
+      const upRes = await stack.up({
+        onOutput: (msg) => {
+          this.logger.debug(msg);
+          job?.log(msg);
+        },
+      });
 
       const outputs: Record<string, unknown> = {};
       for (const [k, v] of Object.entries(upRes.outputs)) {
         outputs[k] = (v as { value?: unknown })?.value ?? v;
       }
 
+      this.notifyStackUp('load-balancer', { outputs });
       return outputs;
     } catch (e) {
-      this.logger.error(`Error creando Load Balancer: ${(e as Error).message}`, (e as Error).stack);
+      this.notifyStackUp('load-balancer', { error: e as Error });
+      this.logger.error(
+        `Error creando Load Balancer: ${(e as Error).message}`,
+        (e as Error).stack,
+      );
       throw e;
     }
   }
+
+  /**
+   * Notifica el resultado de un `pulumi up` (evento infra.up)
+   */
+  private notifyStackUp(
+    projectName: string,
+    result: { outputs?: Record<string, unknown>; error?: Error },
+  ) {
+    void this.notifications.notify('infra.up', {
+      subject: `${projectName}/dev`,
+      message: result.error
+        ? `Falló pulumi up del stack ${projectName}/dev: ${result.error.message}`
+        : `Stack ${projectName}/dev actualizado con pulumi up`,
+      data: {
+        project: projectName,
+        stack: 'dev',
+        success: !result.error,
+        outputs: result.outputs ?? null,
+        error: result.error?.message ?? null,
+      },
+    });
+  }
 }
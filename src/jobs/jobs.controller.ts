@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  MessageEvent,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable, map } from 'rxjs';
+import { JobsService } from './jobs.service';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+@ApiTags('jobs')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar los trabajos recientes (del más reciente al más antiguo)',
+  })
+  @ApiQuery({
+    name: 'key',
+    required: false,
+    description: 'Filtrar por clave (p. ej. el subdominio)',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['queued', 'running', 'succeeded', 'failed'],
+  })
+  list(@Query('key') key?: string, @Query('status') status?: string) {
+    return this.jobsService
+      .list({ key, status })
+      .map(({ events, ...job }) => ({ ...job, eventCount: events.length }));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Estado, fase y resultado de un trabajo' })
+  @ApiParam({ name: 'id', description: 'ID del trabajo devuelto al encolarlo' })
+  @ApiResponse({
+    status: 200,
+    description: 'Estado del trabajo',
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        type: { type: 'string', example: 'deploy' },
+        key: { type: 'string', example: 'cliente1' },
+        description: { type: 'string' },
+        status: {
+          type: 'string',
+          enum: ['queued', 'running', 'succeeded', 'failed'],
+        },
+        phase: { type: 'string', example: 'pulling' },
+        createdAt: { type: 'string', format: 'date-time' },
+        startedAt: { type: 'string', format: 'date-time', nullable: true },
+        finishedAt: { type: 'string', format: 'date-time', nullable: true },
+        result: { type: 'object', nullable: true },
+        error: { type: 'object', nullable: true },
+        events: { type: 'array', items: { type: 'object' } },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El trabajo no existe o ya se descartó del historial',
+  })
+  get(@Param('id', ParseUUIDPipe) id: string) {
+    return this.jobsService.get(id);
+  }
+
+  @Sse(':id/events')
+  @ApiOperation({
+    summary: 'Eventos del trabajo en tiempo real (Server-Sent Events)',
+    description:
+      'Emite los eventos ya ocurridos y los nuevos: cambios de fase (step), progreso de la descarga (progress), ' +
+      'logs (log) y el resultado final (result). El flujo se cierra al terminar el trabajo.',
+  })
+  @ApiParam({ name: 'id', description: 'ID del trabajo devuelto al encolarlo' })
+  events(@Param('id', ParseUUIDPipe) id: string): Observable<MessageEvent> {
+    return this.jobsService
+      .events(id)
+      .pipe(map((event) => ({ type: event.type, data: event })));
+  }
+}
@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { firstValueFrom, toArray } from 'rxjs';
+import { JobsService } from './jobs.service';
+
+describe('JobsService', () => {
+  let service: JobsService;
+
+  const waitFor = async (id: string) => {
+    await firstValueFrom(service.events(id).pipe(toArray()));
+    return service.get(id);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobsService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<JobsService>(JobsService);
+  });
+
+  it('should run jobs with the same key one at a time', async () => {
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      order.push(`${name}:end`);
+    };
+
+    const first = service.enqueue({
+      type: 'deploy',
+      key: 'cliente1',
+      description: 'a',
+      run: task('a'),
+    });
+    const second = service.enqueue({
+      type: 'deploy',
+      key: 'cliente1',
+      description: 'b',
+      run: task('b'),
+    });
+
+    expect(service.get(second.id).status).toBe('queued');
+    await waitFor(first.id);
+    await waitFor(second.id);
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  it('should record phases, progress and the result', async () => {
+    const job = service.enqueue({
+      type: 'deploy',
+      key: 'cliente1',
+      description: 'deploy',
+      run: async (ctx) => {
+        ctx.step('pulling');
+        ctx.progress('capa 1: Downloading', { current: 1, total: 2 });
+        return Promise.resolve({ success: true });
+      },
+    });
+
+    const finished = await waitFor(job.id);
+
+    expect(finished.status).toBe('succeeded');
+    expect(finished.result).toEqual({ success: true });
+    expect(finished.events.map((event) => event.type)).toEqual(
+      expect.arrayContaining(['step', 'progress', 'result']),
+    );
+  });
+
+  it('should keep the details of HTTP errors', async () => {
+    const job = service.enqueue({
+      type: 'deploy',
+      key: 'cliente1',
+      description: 'deploy',
+      run: () =>
+        Promise.reject(
+          new BadRequestException({
+            message: 'Health check fallido',
+            logs: ['boom'],
+          }),
+        ),
+    });
+
+    const finished = await waitFor(job.id);
+
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toMatchObject({
+      statusCode: 400,
+      details: { logs: ['boom'] },
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Observable, Subject, lastValueFrom } from 'rxjs';
+import {
+  EnqueueJobOptions,
+  Job,
+  JobContext,
+  JobError,
+  JobEvent,
+  JobEventType,
+  JobReference,
+} from './jobs.types';
+
+// Eventos que se conservan por trabajo para reenviarlos a los clientes que se conectan tarde
+const MAX_EVENTS_PER_JOB = 200;
+
+/**
+ * Cola de trabajos en memoria
+ * Los trabajos con la misma clave (p. ej. el subdominio) se ejecutan en serie;
+ * los de claves distintas, en paralelo. Los trabajos terminados se conservan
+ * hasta JOBS_HISTORY_LIMIT y se pierden al reiniciar el proceso.
+ */
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly jobs = new Map<string, Job>();
+  private readonly streams = new Map<string, Subject<JobEvent>>();
+  private readonly queues = new Map<string, Promise<void>>();
+  private readonly historyLimit: number;
+
+  constructor(private configService: ConfigService) {
+    this.historyLimit = Number(
+      this.configService.get('JOBS_HISTORY_LIMIT') || 200,
+    );
+  }
+
+  /**
+   * Encola un trabajo y devuelve su estado inicial sin esperar a que termine
+   */
+  enqueue<T>(options: EnqueueJobOptions<T>): Job {
+    const job: Job = {
+      id: randomUUID(),
+      type: options.type,
+      key: options.key,
+      description: options.description,
+      status: 'queued',
+      phase: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      result: null,
+      error: null,
+      events: [],
+    };
+
+    this.jobs.set(job.id, job);
+    this.streams.set(job.id, new Subject<JobEvent>());
+    this.pruneHistory();
+
+    const pending = [...this.jobs.values()].filter(
+      (item) =>
+        item.key === job.key &&
+        item.id !== job.id &&
+        item.status !== 'succeeded' &&
+        item.status !== 'failed',
+    ).length;
+    this.emit(
+      job,
+      'status',
+      pending > 0
+        ? `En cola detrás de ${pending} trabajo(s) de ${job.key}`
+        : 'En cola',
+    );
+
+    const previous = this.queues.get(job.key) ?? Promise.resolve();
+    const next = previous.then(() => this.execute(job, options.run));
+    this.queues.set(job.key, next);
+    void next.then(() => {
+      if (this.queues.get(job.key) === next) {
+        this.queues.delete(job.key);
+      }
+    });
+
+    this.logger.log(`Trabajo ${job.id} (${job.type}) encolado para ${job.key}`);
+    return job;
+  }
+
+  /**
+   * Referencia corta que devuelven los endpoints al encolar un trabajo
+   * El estado se consulta en GET /jobs/:id y el progreso en GET /jobs/:id/events
+   */
+  toReference(job: Job): JobReference {
+    return {
+      jobId: job.id,
+      type: job.type,
+      key: job.key,
+      description: job.description,
+      status: job.status,
+    };
+  }
+
+  get(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`No se encontró el trabajo ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Lista los trabajos, del más reciente al más antiguo
+   */
+  list(filter: { key?: string; status?: string } = {}): Job[] {
+    return [...this.jobs.values()]
+      .filter((job) => !filter.key || job.key === filter.key)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Flujo de eventos de un trabajo: primero los ya emitidos y después los nuevos
+   * Se completa cuando el trabajo termina
+   */
+  events(id: string): Observable<JobEvent> {
+    const job = this.get(id);
+
+    return new Observable<JobEvent>((subscriber) => {
+      job.events.forEach((event) => subscriber.next(event));
+
+      const stream = this.streams.get(id);
+      if (!stream) {
+        subscriber.complete();
+        return;
+      }
+
+      const subscription = stream.subscribe(subscriber);
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  /**
+   * Espera a que el trabajo termine y devuelve su estado final
+   */
+  async wait(id: string): Promise<Job> {
+    await lastValueFrom(this.events(id), { defaultValue: null });
+    return this.get(id);
+  }
+
+  private async execute<T>(job: Job, run: (job: JobContext) => Promise<T>) {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.emit(job, 'status', 'En ejecución');
+
+    try {
+      job.result = await run(this.createContext(job));
+      job.status = 'succeeded';
+      job.phase = 'done';
+      this.emit(job, 'result', 'Trabajo completado', {
+        status: job.status,
+        result: job.result,
+      });
+    } catch (error) {
+      const jobError = this.toJobError(error);
+      job.status = 'failed';
+      job.error = jobError;
+      this.logger.error(
+        `Trabajo ${job.id} (${job.type}) fallido: ${jobError.message}`,
+      );
+      this.emit(job, 'result', jobError.message, {
+        status: job.status,
+        error: jobError,
+      });
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      this.streams.get(job.id)?.complete();
+      this.streams.delete(job.id);
+    }
+  }
+
+  private createContext(job: Job): JobContext {
+    return {
+      id: job.id,
+      step: (phase, message) => {
+        job.phase = phase;
+        this.emit(job, 'step', message ?? phase, { phase });
+      },
+      progress: (message, data) => this.emit(job, 'progress', message, data),
+      log: (message) => this.emit(job, 'log', message),
+    };
+  }
+
+  private emit(
+    job: Job,
+    type: JobEventType,
+    message: string,
+    data?: Record<string, unknown>,
+  ) {
+    const event: JobEvent = {
+      type,
+      message,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    job.events.push(event);
+    if (job.events.length > MAX_EVENTS_PER_JOB) {
+      job.events.splice(0, job.events.length - MAX_EVENTS_PER_JOB);
+    }
+
+    this.streams.get(job.id)?.next(event);
+  }
+
+  private toJobError(error: unknown): JobError {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      return {
+        message: error.message,
+        statusCode: error.getStatus(),
+        details: typeof response === 'object' ? response : undefined,
+      };
+    }
+    return { message: (error as Error).message };
+  }
+
+  /**
+   * Descarta los trabajos terminados más antiguos por encima del límite
+   */
+  private pruneHistory() {
+    const finished = [...this.jobs.values()]
+      .filter((job) => job.status === 'succeeded' || job.status === 'failed')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const excess = this.jobs.size - this.historyLimit;
+    finished
+      .slice(0, Math.max(excess, 0))
+      .forEach((job) => this.jobs.delete(job.id));
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Tipos del módulo de trabajos asíncronos
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type JobEventType = 'status' | 'step' | 'progress' | 'log' | 'result';
+
+/**
+ * Evento emitido durante la ejecución de un trabajo (se reenvía por SSE)
+ */
+export interface JobEvent {
+  type: JobEventType;
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * Error de un trabajo fallido
+ * `details` contiene la respuesta completa de las excepciones HTTP (p. ej. los logs de un health check)
+ */
+export interface JobError {
+  message: string;
+  statusCode?: number;
+  details?: unknown;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  // Clave de serialización: los trabajos con la misma clave se ejecutan de uno en uno
+  key: string;
+  description: string;
+  status: JobStatus;
+  phase: string;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: unknown;
+  error: JobError | null;
+  events: JobEvent[];
+}
+
+export type JobReference = Pick<
+  Job,
+  'type' | 'key' | 'description' | 'status'
+> & {
+  jobId: string;
+};
+
+/**
+ * Interfaz que recibe la tarea para informar de su progreso
+ */
+export interface JobContext {
+  readonly id: string;
+  // Cambio de fase (pulling, health-check, switching...)
+  step(phase: string, message?: string): void;
+  // Progreso dentro de una fase (p. ej. descarga de capas de la imagen)
+  progress(message: string, data?: Record<string, unknown>): void;
+  log(message: string): void;
+}
+
+export interface EnqueueJobOptions<T> {
+  type: string;
+  key: string;
+  description: string;
+  run: (job: JobContext) => Promise<T>;
+}
@@ -1,15 +1,16 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
   // --- CAMBIO CLAVE PARA AWS ---
   // Esto hace que Nest responda en /orchestrator/... y no en la raíz
   app.setGlobalPrefix('orchestrator');
-  
+
   // Habilitar CORS (Configuración recomendada para producción)
   app.enableCors({
     origin: '*', // En producción podrías poner 'https://boogiepop.cloud'
@@ -18,6 +19,16 @@ async function bootstrap() {
   });
   // -----------------------------
 
+  // Los manifiestos (POST /manifests/plan y /manifests/apply) y los stacks (POST /stacks) también se aceptan en YAML
+  app.useBodyParser('text', {
+    type: ['application/yaml', 'application/x-yaml', 'text/yaml'],
+  });
+  // Contextos de construcción (POST /deploy/build/contexts): tarball en el cuerpo
+  app.useBodyParser('raw', {
+    type: ['application/x-tar', 'application/gzip', 'application/x-gzip'],
+    limit: `${process.env.BUILD_CONTEXT_MAX_MB || 50}mb`,
+  });
+
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true,
@@ -28,10 +39,12 @@ async function bootstrap() {
       },
     }),
   );
-  
+
   const config = new DocumentBuilder()
     .setTitle('Infra Orchestrator API')
-    .setDescription('API para gestionar proyectos de infraestructura con Pulumi, AWS y GitHub')
+    .setDescription(
+      'API para gestionar proyectos de infraestructura con Pulumi, AWS y GitHub',
+    )
     .setVersion('1.0')
     .addTag('projects')
     .addBearerAuth(
@@ -44,15 +57,17 @@ async function bootstrap() {
       'bearer',
     )
     .build();
-  
+
   const document = SwaggerModule.createDocument(app, config);
   // Swagger también se moverá a /orchestrator/api
   SwaggerModule.setup('orchestrator/api', app, document);
-  
+
   const port = process.env.PORT ?? 3000;
   await app.listen(port);
-  
+
   console.log(`Backend corriendo en: http://localhost:${port}/orchestrator`);
-  console.log(`Swagger UI disponible en: http://localhost:${port}/orchestrator/api`);
+  console.log(
+    `Swagger UI disponible en: http://localhost:${port}/orchestrator/api`,
+  );
 }
-bootstrap();
\ No newline at end of file
+bootstrap();
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeployDto } from '../../deploy/dto/deploy.dto';
+
+export class ManifestDto {
+  @ApiProperty({
+    type: [DeployDto],
+    description:
+      'Servicios que deben estar desplegados, con los mismos campos que POST /deploy. ' +
+      'Cada subdominio solo puede aparecer una vez',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DeployDto)
+  services: DeployDto[];
+}
@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ManifestsService } from './manifests.service';
+import { ManifestDto } from './dto/manifest.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+const PRUNE_QUERY = {
+  name: 'prune',
+  required: false,
+  description:
+    'true: elimina los despliegues y configuraciones de Nginx que no aparecen en el manifiesto ' +
+    '(los volúmenes se conservan). Por defecto solo se listan como unmanaged',
+  example: false,
+};
+
+@ApiTags('manifests')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('manifests')
+export class ManifestsController {
+  constructor(private readonly manifestsService: ManifestsService) {}
+
+  // El cuerpo se valida en el servicio: puede llegar como JSON o como texto YAML
+  @Post('plan')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Calcular las diferencias entre un manifiesto y el host',
+    description:
+      'Compara cada servicio con el despliegue actual (especificación, contenedores y configuración de Nginx) ' +
+      'y devuelve las acciones create, update, delete o unchanged sin aplicar nada. ' +
+      'Acepta JSON o YAML (Content-Type: application/yaml).',
+  })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: ManifestDto })
+  @ApiQuery(PRUNE_QUERY)
+  @ApiResponse({ status: 200, description: 'Plan calculado' })
+  @ApiResponse({ status: 400, description: 'Manifiesto inválido' })
+  async plan(@Body() body: unknown, @Query('prune') prune?: string) {
+    const manifest = await this.manifestsService.parse(body);
+    return this.manifestsService.plan(manifest, prune === 'true');
+  }
+
+  @Post('apply')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Aplicar un manifiesto',
+    description:
+      'Calcula el plan y encola un trabajo por cada acción (despliegue o eliminación); ' +
+      'el progreso se consulta en GET /jobs/:id. Si alguna acción no se puede aplicar ' +
+      '(imagen no permitida, límites, canary activo...) responde 400 con el plan y no encola nada.',
+  })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: ManifestDto })
+  @ApiQuery(PRUNE_QUERY)
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién aplica el manifiesto. Se guarda en el historial de revisiones',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Plan aplicado: trabajos encolados',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Manifiesto inválido o plan con acciones que no se pueden aplicar',
+  })
+  async apply(
+    @Body() body: unknown,
+    @Query('prune') prune?: string,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    const manifest = await this.manifestsService.parse(body);
+    return this.manifestsService.apply(
+      manifest,
+      prune === 'true',
+      deployedBy || 'manifest',
+    );
+  }
+}
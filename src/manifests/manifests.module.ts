@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ManifestsService } from './manifests.service';
+import { ManifestsController } from './manifests.controller';
+import { DeployModule } from '../deploy/deploy.module';
+import { NginxModule } from '../nginx/nginx.module';
+import { StoreModule } from '../store/store.module';
+import { JobsModule } from '../jobs/jobs.module';
+
+@Module({
+  imports: [DeployModule, NginxModule, StoreModule, JobsModule],
+  controllers: [ManifestsController],
+  providers: [ManifestsService],
+})
+export class ManifestsModule {}
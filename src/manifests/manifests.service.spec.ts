@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ManifestsService } from './manifests.service';
+import { DeployService } from '../deploy/deploy.service';
+import { DeploySpec } from '../deploy/deploy.types';
+import { NginxService } from '../nginx/nginx.service';
+import { JobsService } from '../jobs/jobs.service';
+import { StoreService } from '../store/store.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+
+describe('ManifestsService', () => {
+  let service: ManifestsService;
+  let deploymentStore: DeploymentStoreService;
+  let dataDir: string;
+  let deployService: {
+    resolveSpec: jest.Mock;
+    assertDeployable: jest.Mock;
+    getDeployment: jest.Mock;
+    queueDeploy: jest.Mock;
+    removeDeployment: jest.Mock;
+  };
+  let jobsService: { enqueue: jest.Mock; toReference: jest.Mock };
+
+  const manifestYaml = `
+services:
+  - subdomain: cliente1
+    imageName: usuario/app:v1
+    internalPort: 3000
+  - subdomain: cliente2
+    imageName: usuario/api:v2
+    internalPort: 8080
+    env:
+      LOG_LEVEL: debug
+  - subdomain: nuevo
+    imageName: usuario/nuevo:v1
+    internalPort: 3000
+`;
+
+  // Registra un despliegue en marcha con su configuración de Nginx
+  const saveDeployment = (spec: DeploySpec) => {
+    const filePath = path.join(dataDir, `${spec.subdomain}.conf`);
+    fs.writeFileSync(filePath, '');
+    deploymentStore.saveDeployment({
+      subdomain: spec.subdomain,
+      spec,
+      imageName: spec.imageName,
+      imageDigest: null,
+      imageId: null,
+      internalPort: spec.internalPort ?? null,
+      hostPort: 10000,
+      containerId: `id-${spec.subdomain}`,
+      containerName: `container-${spec.subdomain}`,
+      status: 'running',
+      revision: 1,
+      deployedBy: 'test',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    deploymentStore.saveProxyRoute({
+      subdomain: spec.subdomain,
+      port: 10000,
+      filePath,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = { ORCHESTRATOR_DATA_DIR: dataDir };
+
+    deployService = {
+      resolveSpec: jest.fn((spec: DeploySpec) => ({
+        ...spec,
+        replicas: spec.replicas ?? 1,
+        kind: spec.kind ?? 'web',
+      })),
+      assertDeployable: jest.fn(),
+      getDeployment: jest.fn((subdomain: string) =>
+        Promise.resolve({
+          replicaContainers: [
+            { containerName: `container-${subdomain}`, state: 'running' },
+          ],
+        }),
+      ),
+      queueDeploy: jest.fn((spec: DeploySpec) => ({
+        jobId: `deploy-${spec.subdomain}`,
+      })),
+      removeDeployment: jest.fn(),
+    };
+    jobsService = {
+      enqueue: jest.fn((options: { key: string }) => ({
+        id: `remove-${options.key}`,
+      })),
+      toReference: jest.fn((job: { id: string }) => ({ jobId: job.id })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ManifestsService,
+        StoreService,
+        DeploymentStoreService,
+        { provide: DeployService, useValue: deployService },
+        { provide: NginxService, useValue: {} },
+        { provide: JobsService, useValue: jobsService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ManifestsService>(ManifestsService);
+    deploymentStore = module.get<DeploymentStoreService>(
+      DeploymentStoreService,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should validate manifests written in YAML', async () => {
+    await expect(service.parse(manifestYaml)).resolves.toMatchObject({
+      services: [
+        { subdomain: 'cliente1', internalPort: 3000 },
+        { subdomain: 'cliente2', env: { LOG_LEVEL: 'debug' } },
+        { subdomain: 'nuevo' },
+      ],
+    });
+
+    await expect(
+      service.parse({
+        services: [
+          { subdomain: 'a', imageName: 'app', internalPort: 3000 },
+          { subdomain: 'a', imageName: 'app', internalPort: 3000 },
+        ],
+      }),
+    ).rejects.toThrow('Subdominios repetidos en el manifiesto: a');
+    await expect(
+      service.parse('services:\n  - subdomain: a\n    puerto: 3000\n'),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should plan creates, updates and unmanaged resources', async () => {
+    saveDeployment({
+      subdomain: 'cliente1',
+      imageName: 'usuario/app:v1',
+      internalPort: 3000,
+    });
+    saveDeployment({
+      subdomain: 'cliente2',
+      imageName: 'usuario/api:v2',
+      internalPort: 8080,
+    });
+    saveDeployment({
+      subdomain: 'viejo',
+      imageName: 'usuario/viejo:v1',
+      internalPort: 3000,
+    });
+
+    const plan = await service.plan(await service.parse(manifestYaml));
+
+    expect(
+      plan.actions.map(({ action, subdomain }) => [action, subdomain]),
+    ).toEqual([
+      ['unchanged', 'cliente1'],
+      ['update', 'cliente2'],
+      ['create', 'nuevo'],
+    ]);
+    expect(plan.actions[1].changes).toEqual([
+      { field: 'env', from: null, to: { LOG_LEVEL: 'debug' } },
+    ]);
+    expect(plan.unmanaged).toEqual([
+      { resource: 'deployment', subdomain: 'viejo' },
+    ]);
+    expect(plan.summary).toEqual({
+      create: 1,
+      update: 1,
+      delete: 0,
+      unchanged: 1,
+    });
+  });
+
+  it('should report drift and prune unmanaged resources on apply', async () => {
+    saveDeployment({
+      subdomain: 'cliente1',
+      imageName: 'usuario/app:v1',
+      internalPort: 3000,
+    });
+    deploymentStore.saveProxyRoute({
+      subdomain: 'legacy',
+      port: 9000,
+      filePath: path.join(dataDir, 'legacy.conf'),
+      updatedAt: new Date().toISOString(),
+    });
+    deployService.getDeployment.mockResolvedValue({
+      replicaContainers: [
+        { containerName: 'container-cliente1', state: 'missing' },
+      ],
+    });
+
+    const manifest = await service.parse({
+      services: [
+        {
+          subdomain: 'cliente1',
+          imageName: 'usuario/app:v1',
+          internalPort: 3000,
+        },
+      ],
+    });
+    const result = await service.apply(manifest, true, 'ci');
+
+    expect(result.plan.actions).toEqual([
+      expect.objectContaining({
+        action: 'update',
+        subdomain: 'cliente1',
+        changes: [],
+        drift: ['Falta el contenedor container-cliente1'],
+      }),
+      expect.objectContaining({
+        action: 'delete',
+        resource: 'nginx',
+        subdomain: 'legacy',
+      }),
+    ]);
+    expect(deployService.queueDeploy).toHaveBeenCalledWith(
+      manifest.services[0],
+      { deployedBy: 'ci' },
+    );
+    expect(result.jobs.map(({ job }) => job.jobId)).toEqual([
+      'deploy-cliente1',
+      'remove-legacy',
+    ]);
+  });
+
+  it('should not apply anything when an action is not allowed', async () => {
+    deployService.assertDeployable.mockImplementation((spec: DeploySpec) => {
+      if (spec.subdomain === 'nuevo') {
+        throw new ForbiddenException('Imagen no permitida');
+      }
+    });
+
+    await expect(
+      service.apply(await service.parse(manifestYaml)),
+    ).rejects.toMatchObject({
+      response: {
+        plan: {
+          valid: false,
+          actions: [
+            {},
+            {},
+            { subdomain: 'nuevo', error: 'Imagen no permitida' },
+          ],
+        },
+      },
+    });
+    expect(deployService.queueDeploy).not.toHaveBeenCalled();
+  });
+});
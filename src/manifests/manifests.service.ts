@@ -0,0 +1,371 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  ValidationPipe,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { DeployService } from '../deploy/deploy.service';
+import { DeploySpec } from '../deploy/deploy.types';
+import { NginxService } from '../nginx/nginx.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import { DeploymentRecord } from '../store/store.types';
+import { JobsService } from '../jobs/jobs.service';
+import { ManifestDto } from './dto/manifest.dto';
+import {
+  Manifest,
+  ManifestAction,
+  ManifestApplyResult,
+  ManifestFieldChange,
+  ManifestPlan,
+  UnmanagedResource,
+} from './manifests.types';
+
+// Campos de la especificación que se comparan con el despliegue actual
+const SPEC_FIELDS: (keyof DeploySpec)[] = [
+  'imageName',
+  'kind',
+  'internalPort',
+  'replicas',
+  'resources',
+  'healthCheck',
+  'loadBalancing',
+  'env',
+  'secrets',
+  'volumes',
+  'network',
+  'public',
+  'preSwitch',
+];
+
+// Misma validación que el ValidationPipe global, para los manifiestos recibidos en YAML
+const manifestValidation = new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  transform: true,
+  transformOptions: {
+    enableImplicitConversion: true,
+  },
+});
+
+/**
+ * Manifiestos de estado deseado: describen todos los servicios del host y el orquestador
+ * calcula las diferencias (plan) con los despliegues, contenedores y configuraciones de
+ * Nginx actuales, y las aplica encolando despliegues y eliminaciones.
+ * Los recursos que no aparecen en el manifiesto sólo se eliminan con `prune`.
+ */
+@Injectable()
+export class ManifestsService {
+  private readonly logger = new Logger(ManifestsService.name);
+
+  constructor(
+    private deployService: DeployService,
+    private deploymentStore: DeploymentStoreService,
+    private nginxService: NginxService,
+    private jobsService: JobsService,
+  ) {}
+
+  /**
+   * Valida un manifiesto recibido como objeto JSON o como texto YAML
+   */
+  async parse(input: unknown): Promise<Manifest> {
+    let raw = input;
+    if (typeof input === 'string') {
+      try {
+        raw = yaml.load(input);
+      } catch (error) {
+        throw new BadRequestException(
+          `El manifiesto no es YAML ni JSON válido: ${(error as Error).message}`,
+        );
+      }
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new BadRequestException(
+        'El manifiesto debe ser un objeto con la lista de servicios (services)',
+      );
+    }
+
+    const dto = (await manifestValidation.transform(raw, {
+      type: 'body',
+      metatype: ManifestDto,
+    })) as ManifestDto;
+
+    const subdomains = dto.services.map((service) => service.subdomain);
+    const duplicates = subdomains.filter(
+      (subdomain, index) => subdomains.indexOf(subdomain) !== index,
+    );
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Subdominios repetidos en el manifiesto: ${[...new Set(duplicates)].join(', ')}`,
+      );
+    }
+
+    return {
+      services: dto.services.map((service) => ({
+        imageName: service.imageName,
+        subdomain: service.subdomain,
+        internalPort: service.internalPort,
+        kind: service.kind,
+        healthCheck: service.healthCheck,
+        resources: service.resources,
+        replicas: service.replicas,
+        loadBalancing: service.loadBalancing,
+        env: service.env,
+        secrets: service.secrets,
+        volumes: service.volumes,
+        network: service.network,
+        public: service.public,
+        preSwitch: service.preSwitch,
+      })),
+    };
+  }
+
+  /**
+   * Diferencias entre el manifiesto y el estado actual, sin aplicar nada
+   */
+  async plan(manifest: Manifest, prune = false): Promise<ManifestPlan> {
+    const records = new Map(
+      this.deploymentStore
+        .listDeployments()
+        .map((record) => [record.subdomain, record]),
+    );
+    const desired = new Set(
+      manifest.services.map((service) => service.subdomain),
+    );
+    const actions: ManifestAction[] = [];
+
+    for (const spec of manifest.services) {
+      const record = records.get(spec.subdomain);
+      const action: ManifestAction = {
+        action: 'create',
+        resource: 'deployment',
+        subdomain: spec.subdomain,
+        changes: [],
+        drift: [],
+        error: null,
+      };
+
+      if (record) {
+        action.changes = this.diffSpecs(record.spec, spec);
+        action.drift = await this.detectDrift(record);
+        action.action =
+          action.changes.length > 0 || action.drift.length > 0
+            ? 'update'
+            : 'unchanged';
+      }
+
+      if (action.action !== 'unchanged') {
+        try {
+          this.deployService.assertDeployable(spec);
+        } catch (error) {
+          action.error = (error as Error).message;
+        }
+      }
+      actions.push(action);
+    }
+
+    // Recursos fuera del manifiesto: despliegues y configuraciones de Nginx sin despliegue
+    // Los servicios de los stacks se gestionan con /stacks y nunca se consideran fuera del manifiesto
+    const unmanaged: UnmanagedResource[] = [
+      ...[...records.values()]
+        .filter(
+          (record) => !desired.has(record.subdomain) && !record.spec.stack,
+        )
+        .map((record) => ({
+          resource: 'deployment' as const,
+          subdomain: record.subdomain,
+        })),
+      ...this.deploymentStore
+        .listProxyRoutes()
+        .filter(
+          (route) =>
+            !records.has(route.subdomain) && !desired.has(route.subdomain),
+        )
+        .map((route) => ({
+          resource: 'nginx' as const,
+          subdomain: route.subdomain,
+        })),
+    ];
+
+    if (prune) {
+      actions.push(
+        ...unmanaged.map((resource) => ({
+          action: 'delete' as const,
+          ...resource,
+          changes: [],
+          drift: [],
+          error: null,
+        })),
+      );
+    }
+
+    const count = (type: ManifestAction['action']) =>
+      actions.filter((action) => action.action === type).length;
+
+    return {
+      prune,
+      actions,
+      unmanaged: prune ? [] : unmanaged,
+      summary: {
+        create: count('create'),
+        update: count('update'),
+        delete: count('delete'),
+        unchanged: count('unchanged'),
+      },
+      valid: actions.every((action) => action.error === null),
+    };
+  }
+
+  /**
+   * Calcula el plan y encola un trabajo por cada acción
+   * Si alguna acción no se puede aplicar no se encola nada
+   */
+  async apply(
+    manifest: Manifest,
+    prune = false,
+    deployedBy = 'manifest',
+  ): Promise<ManifestApplyResult> {
+    const plan = await this.plan(manifest, prune);
+    if (!plan.valid) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Invalid Manifest Plan',
+        message:
+          'El plan tiene acciones que no se pueden aplicar. No se ha aplicado ningún cambio',
+        plan,
+      });
+    }
+
+    const specs = new Map(
+      manifest.services.map((service) => [service.subdomain, service]),
+    );
+    const jobs: ManifestApplyResult['jobs'] = [];
+
+    for (const { action, resource, subdomain } of plan.actions) {
+      if (action === 'create' || action === 'update') {
+        jobs.push({
+          action,
+          resource,
+          subdomain,
+          job: this.deployService.queueDeploy(specs.get(subdomain)!, {
+            deployedBy,
+          }),
+        });
+      } else if (action === 'delete') {
+        const job = this.jobsService.enqueue({
+          type: 'remove',
+          key: subdomain,
+          description:
+            resource === 'deployment'
+              ? `Eliminar el despliegue de ${subdomain} (fuera del manifiesto)`
+              : `Eliminar la configuración de Nginx de ${subdomain} (fuera del manifiesto)`,
+          run: () =>
+            resource === 'deployment'
+              ? this.deployService.removeDeployment(subdomain)
+              : this.nginxService.removeProxyConfig(subdomain),
+        });
+        jobs.push({
+          action,
+          resource,
+          subdomain,
+          job: this.jobsService.toReference(job),
+        });
+      }
+    }
+
+    this.logger.log(
+      `Manifiesto aplicado por ${deployedBy}: ${plan.summary.create} creación(es), ` +
+        `${plan.summary.update} actualización(es), ${plan.summary.delete} eliminación(es)`,
+    );
+    return { plan, jobs };
+  }
+
+  /**
+   * Campos que cambian entre la especificación desplegada y la deseada
+   * Ambas se comparan con los valores por defecto aplicados
+   */
+  private diffSpecs(
+    current: DeploySpec,
+    desired: DeploySpec,
+  ): ManifestFieldChange[] {
+    const from = this.resolveSpec(current);
+    const to = this.resolveSpec(desired);
+
+    return SPEC_FIELDS.filter(
+      (field) =>
+        JSON.stringify(this.normalize(from[field])) !==
+        JSON.stringify(this.normalize(to[field])),
+    ).map((field) => ({
+      field,
+      from: from[field] ?? null,
+      to: to[field] ?? null,
+    }));
+  }
+
+  private resolveSpec(spec: DeploySpec): DeploySpec {
+    try {
+      const resolved = this.deployService.resolveSpec(spec);
+      // Los servicios web son públicos salvo que se indique lo contrario
+      return {
+        ...resolved,
+        public: resolved.kind === 'worker' ? undefined : spec.public !== false,
+      };
+    } catch {
+      // Límites fuera de los máximos: se compara tal cual y apply lo rechaza
+      return spec;
+    }
+  }
+
+  /**
+   * Forma canónica para comparar: claves ordenadas y sin valores vacíos
+   */
+  private normalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.length > 0
+        ? value.map((item) => this.normalize(item))
+        : undefined;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .map(([key, item]) => [key, this.normalize(item)] as const)
+        .filter(([, item]) => item !== undefined && item !== null)
+        .sort(([a], [b]) => a.localeCompare(b));
+      return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+    return value ?? undefined;
+  }
+
+  /**
+   * Diferencias entre el registro de un despliegue y lo que realmente hay en el host
+   */
+  private async detectDrift(record: DeploymentRecord): Promise<string[]> {
+    const drift: string[] = [];
+
+    if (record.status !== 'running') {
+      drift.push(`El despliegue está ${record.status}`);
+    } else {
+      const { replicaContainers } = await this.deployService.getDeployment(
+        record.subdomain,
+      );
+      for (const replica of replicaContainers) {
+        if (replica.state === 'missing') {
+          drift.push(`Falta el contenedor ${replica.containerName}`);
+        } else if (replica.state !== 'running') {
+          drift.push(
+            `El contenedor ${replica.containerName} está ${replica.state}`,
+          );
+        }
+      }
+    }
+
+    if (record.spec.kind !== 'worker' && record.spec.public !== false) {
+      const route = this.deploymentStore.getProxyRoute(record.subdomain);
+      if (!route || !fs.existsSync(route.filePath)) {
+        drift.push('Falta la configuración de Nginx');
+      }
+    }
+
+    return drift;
+  }
+}
@@ -0,0 +1,75 @@
+import type { DeploySpec } from '../deploy/deploy.types';
+import type { JobReference } from '../jobs/jobs.types';
+
+/**
+ * Tipos de los manifiestos de estado deseado
+ */
+
+/**
+ * Manifiesto: todos los servicios que deben estar desplegados en el host
+ */
+export interface Manifest {
+  services: DeploySpec[];
+}
+
+export type ManifestActionType = 'create' | 'update' | 'delete' | 'unchanged';
+
+/**
+ * deployment: despliegue del orquestador; nginx: configuración de proxy sin despliegue
+ */
+export type ManifestResource = 'deployment' | 'nginx';
+
+/**
+ * Campo de la especificación que cambia
+ */
+export interface ManifestFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Acción del plan sobre un subdominio
+ */
+export interface ManifestAction {
+  action: ManifestActionType;
+  resource: ManifestResource;
+  subdomain: string;
+  // Diferencias con la especificación desplegada (sólo en update)
+  changes: ManifestFieldChange[];
+  // Diferencias con el estado real: contenedores ausentes, proxy sin configurar...
+  drift: string[];
+  // Motivo por el que la acción no se puede aplicar (imagen no permitida, límites...)
+  error: string | null;
+}
+
+/**
+ * Recurso que existe en el host pero no aparece en el manifiesto
+ */
+export interface UnmanagedResource {
+  resource: ManifestResource;
+  subdomain: string;
+}
+
+/**
+ * Diferencia entre el manifiesto y el estado actual del host
+ */
+export interface ManifestPlan {
+  prune: boolean;
+  actions: ManifestAction[];
+  // Recursos fuera del manifiesto que se conservan (sin prune)
+  unmanaged: UnmanagedResource[];
+  summary: Record<ManifestActionType, number>;
+  // false si alguna acción tiene error: apply no ejecuta nada
+  valid: boolean;
+}
+
+/**
+ * Resultado de aplicar un plan: un trabajo por acción
+ */
+export interface ManifestApplyResult {
+  plan: ManifestPlan;
+  jobs: (Pick<ManifestAction, 'action' | 'resource' | 'subdomain'> & {
+    job: JobReference;
+  })[];
+}
@@ -1,14 +1,49 @@
+/**
+ * Métodos de balanceo admitidos para el upstream de un subdominio
+ */
+export type LoadBalancingMethod = 'round_robin' | 'least_conn' | 'ip_hash';
+
+export const LOAD_BALANCING_METHODS: LoadBalancingMethod[] = [
+  'round_robin',
+  'least_conn',
+  'ip_hash',
+];
+
+// Nombre del upstream; es global en Nginx, por eso incluye el subdominio
+const getUpstreamName = (subdomain: string) => `${subdomain}_backend`;
+
+/**
+ * Servidor del upstream: un puerto del host y su peso relativo (1 por defecto)
+ */
+export interface UpstreamServer {
+  port: number;
+  weight?: number;
+}
+
+const getServerLine = ({ port, weight }: UpstreamServer) =>
+  `    server localhost:${port}${weight && weight !== 1 ? ` weight=${weight}` : ''};`;
+
 /**
  * Plantilla de configuración de Nginx
- * Genera el archivo de configuración para cada subdominio
+ * Genera el archivo de configuración para cada subdominio: un upstream con un servidor
+ * por réplica y el proxy del subdominio hacia ese upstream. Los pesos reparten el tráfico
+ * entre servidores (p. ej. entre las réplicas estables y un canary)
  */
-export const getNginxConfig = (subdomain: string, port: number) => `
+export const getNginxConfig = (
+  subdomain: string,
+  servers: UpstreamServer[],
+  method: LoadBalancingMethod = 'round_robin',
+) => `
+upstream ${getUpstreamName(subdomain)} {
+${method === 'round_robin' ? '' : `    ${method};\n`}${servers.map(getServerLine).join('\n')}
+}
+
 server {
     listen 80;
     server_name ${subdomain}.boogiepop.cloud;
 
     location / {
-        proxy_pass http://localhost:${port};
+        proxy_pass http://${getUpstreamName(subdomain)};
         proxy_http_version 1.1;
         proxy_set_header Upgrade $http_upgrade;
         proxy_set_header Connection 'upgrade';
@@ -17,3 +52,21 @@ server {
     }
 }
 `;
+
+/**
+ * Plantilla de mantenimiento para un subdominio detenido o en pausa
+ * Responde 503 con una página propia en lugar del 502 de un upstream caído
+ */
+export const getMaintenanceConfig = (subdomain: string) => `
+server {
+    listen 80;
+    server_name ${subdomain}.boogiepop.cloud;
+
+    location / {
+        default_type text/html;
+        add_header Retry-After 300 always;
+        add_header Cache-Control "no-store" always;
+        return 503 '<!DOCTYPE html><html><head><meta charset="utf-8"><title>En mantenimiento</title></head><body><h1>${subdomain}.boogiepop.cloud está en mantenimiento</h1><p>El servicio volverá a estar disponible en breve.</p></body></html>';
+    }
+}
+`;
@@ -1,9 +1,28 @@
-import { Controller, Post, Delete, Get, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Delete,
+  Get,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { NginxService } from './nginx.service';
 import { CreateProxyConfigDto } from './dto/create-proxy-config.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
 
 @ApiTags('nginx')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
 @Controller('nginx')
 export class NginxController {
   constructor(private readonly nginxService: NginxService) {}
@@ -26,12 +45,17 @@ export class NginxController {
     },
   })
   async createProxyConfig(@Body() dto: CreateProxyConfigDto) {
-    return this.nginxService.createProxyConfig(dto.subdomain, dto.containerPort);
+    return this.nginxService.createProxyConfig(
+      dto.subdomain,
+      dto.containerPort,
+    );
   }
 
   @Delete('proxy/:subdomain')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Eliminar configuración de proxy para un subdominio' })
+  @ApiOperation({
+    summary: 'Eliminar configuración de proxy para un subdominio',
+  })
   @ApiParam({
     name: 'subdomain',
     description: 'El subdominio a eliminar (sin el dominio base)',
@@ -57,12 +81,20 @@ export class NginxController {
         properties: {
           subdomain: { type: 'string' },
           port: { type: 'number' },
+          ports: { type: 'array', items: { type: 'number' } },
+          weights: { type: 'array', items: { type: 'number' }, nullable: true },
+          loadBalancing: {
+            type: 'string',
+            enum: ['round_robin', 'least_conn', 'ip_hash'],
+          },
           filePath: { type: 'string' },
+          mode: { type: 'string', enum: ['proxy', 'maintenance'] },
+          updatedAt: { type: 'string', format: 'date-time' },
         },
       },
     },
   })
-  async listProxyConfigs() {
+  listProxyConfigs() {
     return this.nginxService.listProxyConfigs();
   }
 }
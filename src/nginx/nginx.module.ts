@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { NginxService } from './nginx.service';
 import { NginxController } from './nginx.controller';
+import { StoreModule } from '../store/store.module';
 
 @Module({
+  imports: [StoreModule],
   controllers: [NginxController],
   providers: [NginxService],
   exports: [NginxService], // Exportar para que otros módulos puedan usarlo
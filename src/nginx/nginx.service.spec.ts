@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NginxService } from './nginx.service';
+import { StoreService } from '../store/store.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+
+// nginx -t y nginx -s reload: por defecto terminan bien
+const mockExec = jest.fn<void, [string, (error: Error | null) => void]>();
+jest.mock('child_process', () => ({
+  exec: (command: string, callback: (error: Error | null) => void) =>
+    mockExec(command, callback),
+}));
+
+describe('NginxService', () => {
+  let service: NginxService;
+  let deploymentStore: DeploymentStoreService;
+  let dataDir: string;
+  let nginxPath: string;
+
+  beforeEach(async () => {
+    mockExec.mockReset();
+    mockExec.mockImplementation(
+      (_command: string, callback: (error: Error | null) => void) =>
+        callback(null),
+    );
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    nginxPath = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-nginx-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      NGINX_CONF_PATH: nginxPath,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NginxService,
+        StoreService,
+        DeploymentStoreService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NginxService>(NginxService);
+    deploymentStore = module.get<DeploymentStoreService>(
+      DeploymentStoreService,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    fs.rmSync(nginxPath, { recursive: true, force: true });
+  });
+
+  it('should balance the replicas through an upstream', async () => {
+    await service.createProxyConfig('cliente1', [3005, 3006], 'least_conn');
+
+    const content = fs.readFileSync(
+      path.join(nginxPath, 'cliente1.conf'),
+      'utf8',
+    );
+    expect(content).toContain('upstream cliente1_backend {');
+    expect(content).toContain('least_conn;');
+    expect(content).toContain('server localhost:3005;');
+    expect(content).toContain('server localhost:3006;');
+    expect(content).toContain('proxy_pass http://cliente1_backend;');
+    expect(deploymentStore.getProxyRoute('cliente1')).toMatchObject({
+      port: 3005,
+      ports: [3005, 3006],
+      loadBalancing: 'least_conn',
+    });
+  });
+
+  it('should split the traffic with upstream weights', async () => {
+    await service.createProxyConfig('cliente1', [
+      { port: 3005, weight: 90 },
+      { port: 3006, weight: 10 },
+    ]);
+
+    const content = fs.readFileSync(
+      path.join(nginxPath, 'cliente1.conf'),
+      'utf8',
+    );
+    expect(content).toContain('server localhost:3005 weight=90;');
+    expect(content).toContain('server localhost:3006 weight=10;');
+    expect(deploymentStore.getProxyRoute('cliente1')).toMatchObject({
+      ports: [3005, 3006],
+      weights: [90, 10],
+    });
+  });
+
+  it('should reject invalid upstream weights', async () => {
+    await expect(
+      service.createProxyConfig('cliente1', [{ port: 3005, weight: 0 }]),
+    ).rejects.toThrow();
+  });
+
+  it('should swap the proxy for the maintenance page and keep the port', async () => {
+    await service.createProxyConfig('cliente1', 3005);
+    await service.setMaintenanceConfig('cliente1');
+
+    const content = fs.readFileSync(
+      path.join(nginxPath, 'cliente1.conf'),
+      'utf8',
+    );
+    expect(content).toContain('return 503');
+    expect(content).not.toContain('proxy_pass');
+    expect(deploymentStore.getProxyRoute('cliente1')).toMatchObject({
+      port: 3005,
+      mode: 'maintenance',
+    });
+  });
+
+  it('should restore the proxy when the config is created again', async () => {
+    await service.createProxyConfig('cliente1', 3005);
+    await service.setMaintenanceConfig('cliente1');
+    await service.createProxyConfig('cliente1', 3005);
+
+    expect(service.listProxyConfigs()).toEqual([
+      expect.objectContaining({ port: 3005, mode: 'proxy' }),
+    ]);
+  });
+
+  it('should test the config before reloading and restore the previous one when required', async () => {
+    await service.createProxyConfig('cliente1', 3005);
+    const filePath = path.join(nginxPath, 'cliente1.conf');
+    const previous = fs.readFileSync(filePath, 'utf8');
+    expect(mockExec.mock.calls.map(([command]) => command)).toEqual([
+      'nginx -t',
+      'nginx -s reload',
+    ]);
+
+    mockExec.mockClear();
+    mockExec.mockImplementation(
+      (command: string, callback: (error: Error | null) => void) =>
+        callback(
+          command === 'nginx -t'
+            ? new Error('nginx: [emerg] host not found in upstream')
+            : null,
+        ),
+    );
+    await expect(
+      service.createProxyConfig('cliente1', 3006, 'round_robin', {
+        requireReload: true,
+      }),
+    ).rejects.toThrow('host not found in upstream');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(previous);
+    expect(deploymentStore.getProxyRoute('cliente1')).toMatchObject({
+      port: 3005,
+    });
+    expect(mockExec).not.toHaveBeenCalledWith(
+      'nginx -s reload',
+      expect.anything(),
+    );
+
+    // Sin requireReload se conserva el comportamiento anterior: se escribe y se avisa
+    await service.createProxyConfig('cliente1', 3006);
+    expect(fs.readFileSync(filePath, 'utf8')).toContain('localhost:3006');
+  });
+
+  it('should list the subdomain configs on disk with the ports they point to', async () => {
+    await service.createProxyConfig('cliente1', [3005, 3006]);
+    await service.createProxyConfig('cliente2', 3007);
+    await service.setMaintenanceConfig('cliente2');
+    fs.writeFileSync(
+      path.join(nginxPath, 'default.conf'),
+      'server { listen 80 default_server; return 444; }',
+    );
+
+    expect(service.listConfigFiles()).toEqual([
+      {
+        subdomain: 'cliente1',
+        filePath: path.join(nginxPath, 'cliente1.conf'),
+        mode: 'proxy',
+        ports: [3005, 3006],
+      },
+      {
+        subdomain: 'cliente2',
+        filePath: path.join(nginxPath, 'cliente2.conf'),
+        mode: 'maintenance',
+        ports: [],
+      },
+    ]);
+  });
+
+  it('should reject maintenance for an unknown subdomain', async () => {
+    await expect(service.setMaintenanceConfig('cliente2')).rejects.toThrow(
+      'La configuración para cliente2 no existe',
+    );
+  });
+});
@@ -1,81 +1,256 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { getNginxConfig } from './nginx-template';
+import {
+  getMaintenanceConfig,
+  getNginxConfig,
+  LoadBalancingMethod,
+  UpstreamServer,
+} from './nginx-template';
+import { DeploymentStoreService } from '../store/deployment-store.service';
 
 const execPromise = promisify(exec);
 
+/**
+ * Configuración de un subdominio tal como está en disco
+ */
+export interface ProxyConfigFile {
+  subdomain: string;
+  filePath: string;
+  mode: 'proxy' | 'maintenance';
+  // Puertos a los que apunta realmente el archivo
+  ports: number[];
+}
+
 @Injectable()
-export class NginxService {
+export class NginxService implements OnModuleInit {
   private readonly logger = new Logger(NginxService.name);
   private readonly nginxPath: string;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private deploymentStore: DeploymentStoreService,
+  ) {
     // Permite configurar la ruta de nginx desde variables de entorno
     // Por defecto usa /etc/nginx/conf.d (ruta estándar en contenedores/hosts)
-    this.nginxPath = this.configService.get('NGINX_CONF_PATH') || '/etc/nginx/conf.d';
+    this.nginxPath =
+      this.configService.get('NGINX_CONF_PATH') || '/etc/nginx/conf.d';
+  }
+
+  /**
+   * Importa al registro las configuraciones creadas antes de que existiera
+   */
+  onModuleInit() {
+    try {
+      if (!fs.existsSync(this.nginxPath)) {
+        return;
+      }
+
+      const files = fs
+        .readdirSync(this.nginxPath)
+        .filter((file) => file.endsWith('.conf'));
+      for (const file of files) {
+        const subdomain = file.replace('.conf', '');
+        if (
+          !/^[a-z0-9-]+$/.test(subdomain) ||
+          this.deploymentStore.getProxyRoute(subdomain)
+        ) {
+          continue;
+        }
+
+        const filePath = `${this.nginxPath}/${file}`;
+        const ports = this.readPorts(fs.readFileSync(filePath, 'utf8'));
+        if (ports.length === 0) {
+          continue;
+        }
+
+        this.deploymentStore.saveProxyRoute({
+          subdomain,
+          port: ports[0],
+          ports,
+          filePath,
+          updatedAt: fs.statSync(filePath).mtime.toISOString(),
+        });
+        this.logger.log(
+          `Configuración existente importada al registro: ${filePath}`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `No se pudieron importar las configuraciones existentes: ${(error as Error).message}`,
+      );
+    }
   }
 
   /**
    * Crea una configuración de proxy para un subdominio
    * @param subdomain - El subdominio (sin el dominio base)
-   * @param containerPort - El puerto del contenedor al que se hará proxy
+   * @param containerPort - El puerto (o los puertos, uno por réplica, con peso opcional) al que se hará proxy
+   * @param loadBalancing - Método de balanceo entre réplicas
+   * @param options.requireReload - Si `nginx -t` o la recarga fallan, se restaura la configuración anterior y se lanza el error.
+   * Lo usan los despliegues, que sólo drenan los contenedores anteriores si el cambio se aplicó
    * @returns Objeto con el resultado de la operación
    */
-  async createProxyConfig(subdomain: string, containerPort: number) {
-    this.logger.log(`Creando configuración de proxy para ${subdomain} en puerto ${containerPort}`);
+  async createProxyConfig(
+    subdomain: string,
+    containerPort: number | (number | UpstreamServer)[],
+    loadBalancing: LoadBalancingMethod = 'round_robin',
+    options: { requireReload?: boolean } = {},
+  ) {
+    const servers: UpstreamServer[] = (
+      Array.isArray(containerPort) ? containerPort : [containerPort]
+    ).map((server) => (typeof server === 'number' ? { port: server } : server));
+    const ports = servers.map((server) => server.port);
+    const isWeighted = servers.some(
+      (server) => server.weight !== undefined && server.weight !== 1,
+    );
+    this.logger.log(
+      `Creando configuración de proxy para ${subdomain} en puerto(s) ${ports.join(', ')}`,
+    );
 
     // Validar que el subdominio sea válido
     if (!subdomain || !/^[a-z0-9-]+$/.test(subdomain)) {
       throw new Error(
-        `Subdominio inválido: ${subdomain}. Solo se permiten letras minúsculas, números y guiones.`
+        `Subdominio inválido: ${subdomain}. Solo se permiten letras minúsculas, números y guiones.`,
       );
     }
 
-    // Validar que el puerto sea válido
-    if (!Number.isInteger(containerPort) || containerPort < 1 || containerPort > 65535) {
-      throw new Error(`Puerto inválido: ${containerPort}. Debe ser un número entre 1 y 65535.`);
+    // Validar que los puertos sean válidos
+    if (ports.length === 0) {
+      throw new Error(`Se necesita al menos un puerto para ${subdomain}`);
+    }
+    for (const { port, weight } of servers) {
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(
+          `Puerto inválido: ${port}. Debe ser un número entre 1 y 65535.`,
+        );
+      }
+      if (weight !== undefined && (!Number.isInteger(weight) || weight < 1)) {
+        throw new Error(
+          `Peso inválido para el puerto ${port}: ${weight}. Debe ser un entero mayor que 0.`,
+        );
+      }
     }
 
-    const config = getNginxConfig(subdomain, containerPort);
+    const config = getNginxConfig(subdomain, servers, loadBalancing);
     const filePath = `${this.nginxPath}/${subdomain}.conf`;
 
     try {
       // Asegurar que el directorio existe
       if (!fs.existsSync(this.nginxPath)) {
-        this.logger.warn(`El directorio ${this.nginxPath} no existe. Intentando crearlo...`);
+        this.logger.warn(
+          `El directorio ${this.nginxPath} no existe. Intentando crearlo...`,
+        );
         fs.mkdirSync(this.nginxPath, { recursive: true });
       }
 
       // 1. Escribir el archivo en el volumen compartido
+      const previous = fs.existsSync(filePath)
+        ? fs.readFileSync(filePath, 'utf8')
+        : null;
       fs.writeFileSync(filePath, config, 'utf8');
       this.logger.log(`Archivo de configuración creado: ${filePath}`);
 
-      // 2. Recargar Nginx para que reconozca el nuevo subdominio
+      // 2. Validar la configuración y recargar Nginx para que reconozca el nuevo subdominio
       // Nota: Esto requiere que Nginx esté corriendo en el host o en otro contenedor
-      // y que el contenedor tenga permisos para ejecutar nginx -s reload
+      // y que el contenedor tenga permisos para ejecutar nginx -t y nginx -s reload
       try {
-        await execPromise('nginx -s reload');
-        this.logger.log('Nginx recargado exitosamente');
+        await this.testAndReload();
       } catch (reloadError) {
+        if (options.requireReload) {
+          // Nginx sigue sirviendo la configuración anterior: el archivo vuelve a coincidir con ella
+          if (previous === null) {
+            fs.unlinkSync(filePath);
+          } else {
+            fs.writeFileSync(filePath, previous, 'utf8');
+          }
+          throw new Error(
+            `No se pudo aplicar la configuración de Nginx para ${subdomain}: ${(reloadError as Error).message}`,
+          );
+        }
         this.logger.warn(
           `No se pudo recargar Nginx automáticamente: ${(reloadError as Error).message}. ` +
-          `El archivo de configuración fue creado pero necesitarás recargar Nginx manualmente.`
+            `El archivo de configuración fue creado pero necesitarás recargar Nginx manualmente.`,
         );
         // No lanzamos el error porque el archivo sí se creó correctamente
       }
 
+      this.deploymentStore.saveProxyRoute({
+        subdomain,
+        port: ports[0],
+        ports,
+        // Sólo se guardan si reparten el tráfico de forma desigual (p. ej. durante un canary)
+        weights: isWeighted
+          ? servers.map((server) => server.weight ?? 1)
+          : undefined,
+        loadBalancing,
+        filePath,
+        mode: 'proxy',
+        updatedAt: new Date().toISOString(),
+      });
+
       return {
         success: true,
         message: `Configuración creada para ${subdomain}.boogiepop.cloud`,
         filePath,
         subdomain: `${subdomain}.boogiepop.cloud`,
-        port: containerPort,
+        port: ports[0],
+        ports,
+        weights: isWeighted
+          ? servers.map((server) => server.weight ?? 1)
+          : undefined,
+        loadBalancing,
       };
     } catch (error) {
-      this.logger.error(`Error configurando Nginx: ${(error as Error).message}`);
+      this.logger.error(
+        `Error configurando Nginx: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sustituye el proxy de un subdominio por la página de mantenimiento (503)
+   * Se usa al detener o pausar un despliegue; el puerto registrado se conserva para restaurarlo
+   * @param subdomain - El subdominio (sin el dominio base)
+   */
+  async setMaintenanceConfig(subdomain: string) {
+    this.logger.log(`Activando la página de mantenimiento para ${subdomain}`);
+
+    const route = this.deploymentStore.getProxyRoute(subdomain);
+    if (!route) {
+      throw new Error(`La configuración para ${subdomain} no existe`);
+    }
+
+    try {
+      fs.writeFileSync(route.filePath, getMaintenanceConfig(subdomain), 'utf8');
+      this.deploymentStore.saveProxyRoute({
+        ...route,
+        mode: 'maintenance',
+        updatedAt: new Date().toISOString(),
+      });
+
+      try {
+        await this.testAndReload();
+      } catch (reloadError) {
+        this.logger.warn(
+          `No se pudo recargar Nginx automáticamente: ${(reloadError as Error).message}. ` +
+            `La página de mantenimiento fue escrita pero necesitarás recargar Nginx manualmente.`,
+        );
+      }
+
+      return {
+        success: true,
+        message: `Página de mantenimiento activada para ${subdomain}.boogiepop.cloud`,
+        filePath: route.filePath,
+        subdomain: `${subdomain}.boogiepop.cloud`,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error activando la página de mantenimiento: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
@@ -97,15 +272,15 @@ export class NginxService {
       // Eliminar el archivo
       fs.unlinkSync(filePath);
       this.logger.log(`Archivo de configuración eliminado: ${filePath}`);
+      this.deploymentStore.removeProxyRoute(subdomain);
 
       // Recargar Nginx
       try {
-        await execPromise('nginx -s reload');
-        this.logger.log('Nginx recargado exitosamente');
+        await this.testAndReload();
       } catch (reloadError) {
         this.logger.warn(
           `No se pudo recargar Nginx automáticamente: ${(reloadError as Error).message}. ` +
-          `El archivo fue eliminado pero necesitarás recargar Nginx manualmente.`
+            `El archivo fue eliminado pero necesitarás recargar Nginx manualmente.`,
         );
       }
 
@@ -115,42 +290,84 @@ export class NginxService {
         subdomain: `${subdomain}.boogiepop.cloud`,
       };
     } catch (error) {
-      this.logger.error(`Error eliminando configuración de Nginx: ${(error as Error).message}`);
+      this.logger.error(
+        `Error eliminando configuración de Nginx: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
 
   /**
-   * Lista todas las configuraciones existentes
+   * Configuraciones de subdominios que hay en disco, con los puertos a los que apuntan realmente
+   * Pueden no coincidir con el registro si alguien edita o borra los archivos a mano.
+   * Sólo cuentan los archivos con el server_name de su subdominio (no, p. ej., default.conf)
    */
-  async listProxyConfigs() {
-    try {
-      if (!fs.existsSync(this.nginxPath)) {
-        return [];
-      }
+  listConfigFiles(): ProxyConfigFile[] {
+    if (!fs.existsSync(this.nginxPath)) {
+      return [];
+    }
 
-      const files = fs.readdirSync(this.nginxPath);
-      const configs = files
-        .filter((file) => file.endsWith('.conf'))
-        .map((file) => {
-          const subdomain = file.replace('.conf', '');
-          const filePath = `${this.nginxPath}/${file}`;
-          const content = fs.readFileSync(filePath, 'utf8');
-          
-          // Extraer el puerto de la configuración
-          const portMatch = content.match(/proxy_pass http:\/\/localhost:(\d+)/);
-          const port = portMatch ? parseInt(portMatch[1], 10) : null;
-
-          return {
-            subdomain: `${subdomain}.boogiepop.cloud`,
-            port,
+    return fs
+      .readdirSync(this.nginxPath)
+      .filter((file) => file.endsWith('.conf'))
+      .flatMap((file): ProxyConfigFile[] => {
+        const subdomain = file.replace('.conf', '');
+        const filePath = `${this.nginxPath}/${file}`;
+        const content = fs.readFileSync(filePath, 'utf8');
+        if (!content.includes(`server_name ${subdomain}.boogiepop.cloud;`)) {
+          return [];
+        }
+
+        return [
+          {
+            subdomain,
             filePath,
-          };
-        });
+            // La página de mantenimiento responde 503 sin proxy
+            mode: content.includes('proxy_pass ') ? 'proxy' : 'maintenance',
+            ports: this.readPorts(content),
+          },
+        ];
+      });
+  }
+
+  /**
+   * Puertos de una configuración: admite tanto el proxy directo antiguo como los servidores de un upstream
+   */
+  private readPorts(content: string) {
+    return [
+      ...content.matchAll(/(?:proxy_pass http:\/\/|server )localhost:(\d+)/g),
+    ].map((match) => parseInt(match[1], 10));
+  }
+
+  /**
+   * Valida la configuración con `nginx -t` y sólo entonces recarga Nginx
+   * Con una configuración inválida, `nginx -s reload` deja el proceso maestro con la anterior sin avisar
+   */
+  private async testAndReload() {
+    await execPromise('nginx -t');
+    await execPromise('nginx -s reload');
+    this.logger.log('Nginx recargado exitosamente');
+  }
 
-      return configs;
+  /**
+   * Lista todas las configuraciones registradas
+   */
+  listProxyConfigs() {
+    try {
+      return this.deploymentStore.listProxyRoutes().map((route) => ({
+        subdomain: `${route.subdomain}.boogiepop.cloud`,
+        port: route.port,
+        ports: route.ports ?? [route.port],
+        weights: route.weights ?? null,
+        loadBalancing: route.loadBalancing ?? 'round_robin',
+        filePath: route.filePath,
+        mode: route.mode ?? 'proxy',
+        updatedAt: route.updatedAt,
+      }));
     } catch (error) {
-      this.logger.error(`Error listando configuraciones: ${(error as Error).message}`);
+      this.logger.error(
+        `Error listando configuraciones: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
@@ -0,0 +1,124 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  MinLength,
+} from 'class-validator';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+} from '../notifications.types';
+import type {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookFormat,
+} from '../notifications.types';
+
+export class UpdateWebhookDto {
+  @ApiProperty({
+    example: 'https://hooks.slack.com/services/T000/B000/XXXX',
+    description: 'URL que recibe los eventos por POST (obligatoria al crear)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  url?: string;
+
+  @ApiProperty({
+    example: ['deploy.succeeded', 'deploy.failed', 'container.crash'],
+    description: 'Eventos suscritos. Vacío o sin indicar: todos',
+    required: false,
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiProperty({
+    example: 'json',
+    description:
+      'json (por defecto): el evento completo; slack: { text } para los Incoming Webhooks de Slack',
+    required: false,
+    enum: WEBHOOK_FORMATS,
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_FORMATS)
+  format?: WebhookFormat;
+
+  @ApiProperty({
+    description:
+      'Clave HMAC para firmar las entregas (se guarda cifrada). Al crear, si se omite se genera una',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Si es false no se envían eventos (por defecto true)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class CreateWebhookDto extends UpdateWebhookDto {
+  @ApiProperty({
+    example: 'slack-despliegues',
+    description: 'Nombre del webhook (letras minúsculas, números y guiones)',
+  })
+  @IsString()
+  @Matches(/^[a-z0-9-]+$/, {
+    message:
+      'El nombre del webhook solo permite letras minúsculas, números y guiones (-).',
+  })
+  name: string;
+}
+
+export class DeliveriesQueryDto {
+  @ApiProperty({
+    example: 'slack-despliegues',
+    description: 'Sólo las entregas de este webhook',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  webhook?: string;
+
+  @ApiProperty({
+    example: 'failed',
+    description: 'Sólo las entregas con este estado',
+    required: false,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+
+  @ApiProperty({
+    example: 50,
+    description: 'Número máximo de entregas',
+    required: false,
+    default: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
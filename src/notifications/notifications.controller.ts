@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import {
+  CreateWebhookDto,
+  DeliveriesQueryDto,
+  UpdateWebhookDto,
+} from './dto/webhook.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+@ApiTags('notifications')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get('webhooks')
+  @ApiOperation({ summary: 'Listar los webhooks (sin la clave de firma)' })
+  list() {
+    return this.notificationsService.list();
+  }
+
+  @Get('webhooks/:name')
+  @ApiOperation({ summary: 'Detalle de un webhook' })
+  @ApiParam({ name: 'name', example: 'slack-despliegues' })
+  @ApiResponse({ status: 404, description: 'El webhook no existe' })
+  get(@Param('name') name: string) {
+    return this.notificationsService.get(name);
+  }
+
+  @Post('webhooks')
+  @ApiOperation({
+    summary: 'Registrar un webhook',
+    description:
+      'Cada evento se envía por POST con las cabeceras X-Orchestrator-Event, X-Orchestrator-Delivery, ' +
+      'X-Orchestrator-Timestamp y X-Orchestrator-Signature (sha256=<HMAC-SHA256 en hex de "<timestamp>.<cuerpo>">). ' +
+      'Las entregas fallidas se reintentan con backoff exponencial (WEBHOOK_MAX_ATTEMPTS, 5 por defecto). ' +
+      'La respuesta incluye la clave de firma; no se vuelve a mostrar.',
+  })
+  @ApiResponse({ status: 201, description: 'Webhook creado' })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya existe un webhook con ese nombre',
+  })
+  create(@Body() createWebhookDto: CreateWebhookDto) {
+    const { name, ...input } = createWebhookDto;
+    return this.notificationsService.create(name, input);
+  }
+
+  @Put('webhooks/:name')
+  @ApiOperation({
+    summary: 'Actualizar un webhook',
+    description: 'Los campos omitidos (incluida la clave) conservan su valor',
+  })
+  @ApiParam({ name: 'name', example: 'slack-despliegues' })
+  @ApiResponse({ status: 404, description: 'El webhook no existe' })
+  update(
+    @Param('name') name: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ) {
+    return this.notificationsService.update(name, updateWebhookDto);
+  }
+
+  @Delete('webhooks/:name')
+  @ApiOperation({ summary: 'Eliminar un webhook y su historial de entregas' })
+  @ApiParam({ name: 'name', example: 'slack-despliegues' })
+  @ApiResponse({ status: 404, description: 'El webhook no existe' })
+  remove(@Param('name') name: string) {
+    return this.notificationsService.remove(name);
+  }
+
+  @Post('webhooks/:name/test')
+  @ApiOperation({
+    summary: 'Enviar un evento de prueba (webhook.test) al webhook',
+    description:
+      'Un solo intento, sin reintentos. Devuelve la entrega con el código HTTP recibido',
+  })
+  @ApiParam({ name: 'name', example: 'slack-despliegues' })
+  @ApiResponse({ status: 404, description: 'El webhook no existe' })
+  test(@Param('name') name: string) {
+    return this.notificationsService.sendTest(name);
+  }
+
+  @Get('deliveries')
+  @ApiOperation({
+    summary: 'Historial de entregas (de la más reciente a la más antigua)',
+  })
+  listDeliveries(@Query() query: DeliveriesQueryDto) {
+    return this.notificationsService.listDeliveries(query);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { StoreModule } from '../store/store.module';
+import { SecretsModule } from '../secrets/secrets.module';
+
+@Module({
+  imports: [StoreModule, SecretsModule],
+  controllers: [NotificationsController],
+  providers: [NotificationsService],
+  exports: [NotificationsService], // Usado por deploy, infra y projects para emitir eventos
+})
+export class NotificationsModule {}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { NotificationsService } from './notifications.service';
+import { StoreService } from '../store/store.service';
+import { CipherService } from '../secrets/cipher.service';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let dataDir: string;
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  // Códigos HTTP que devuelve el receptor, en orden (después, 200)
+  let responses: number[];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      SECRETS_ENCRYPTION_KEY: 'clave-de-pruebas-suficientemente-larga',
+      WEBHOOK_MAX_ATTEMPTS: '3',
+      WEBHOOK_RETRY_BASE_MS: '5',
+    };
+
+    received = [];
+    responses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        StoreService,
+        CipherService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should deliver signed events to the subscribed webhooks', async () => {
+    const { secret } = service.create('equipo', {
+      url,
+      events: ['deploy.succeeded'],
+      secret: 'clave-hmac-de-pruebas',
+    });
+    expect(secret).toBe('clave-hmac-de-pruebas');
+    expect(service.get('equipo')).not.toHaveProperty('secret');
+
+    await expect(
+      service.notify('deploy.started', {
+        subject: 'cliente1',
+        message: 'Desplegando',
+      }),
+    ).resolves.toEqual([]);
+    const [delivery] = await service.notify('deploy.succeeded', {
+      subject: 'cliente1',
+      message: 'cliente1 desplegado',
+      data: { revision: 3 },
+    });
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const timestamp = headers['x-orchestrator-timestamp'] as string;
+    expect(headers['x-orchestrator-signature']).toBe(
+      `sha256=${createHmac('sha256', 'clave-hmac-de-pruebas')
+        .update(`${timestamp}.${body}`)
+        .digest('hex')}`,
+    );
+    expect(headers['x-orchestrator-event']).toBe('deploy.succeeded');
+    expect(JSON.parse(body)).toMatchObject({
+      id: delivery.id,
+      event: 'deploy.succeeded',
+      subject: 'cliente1',
+      data: { revision: 3 },
+    });
+    expect(service.listDeliveries({ webhook: 'equipo' })).toEqual([
+      expect.objectContaining({
+        status: 'delivered',
+        attempts: 1,
+        responseStatus: 200,
+      }),
+    ]);
+  });
+
+  it('should retry failed deliveries with backoff until the attempts run out', async () => {
+    service.create('caido', { url });
+    responses = [503, 503, 503];
+
+    const [delivery] = await service.notify('deploy.failed', {
+      subject: 'cliente1',
+      message: 'Falló el despliegue',
+    });
+
+    expect(received).toHaveLength(3);
+    expect(
+      new Set(
+        received.map(({ headers }) => headers['x-orchestrator-delivery']),
+      ),
+    ).toEqual(new Set([delivery.id]));
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      responseStatus: 503,
+      error: 'HTTP 503',
+    });
+  });
+
+  it('should not retry client errors and send slack payloads', async () => {
+    service.create('slack', { url, format: 'slack' });
+    responses = [503, 200];
+
+    const [recovered] = await service.notify('container.crash', {
+      subject: 'cliente1',
+      message: 'container-cliente1 terminó inesperadamente',
+    });
+    expect(recovered).toMatchObject({ status: 'delivered', attempts: 2 });
+    expect(JSON.parse(received[1].body)).toEqual({
+      text: ':boom: container-cliente1 terminó inesperadamente',
+    });
+
+    responses = [404];
+    const [rejected] = await service.notify('deploy.rollback', {
+      subject: 'cliente1',
+      message: 'Rollback de cliente1',
+    });
+    expect(rejected).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      responseStatus: 404,
+    });
+    expect(received).toHaveLength(3);
+
+    await expect(service.sendTest('slack')).resolves.toMatchObject({
+      event: 'webhook.test',
+      status: 'delivered',
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { StoreService } from '../store/store.service';
+import { CipherService } from '../secrets/cipher.service';
+import {
+  Notification,
+  WEBHOOK_TEST_EVENT,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInput,
+  WebhookPayload,
+  WebhookRecord,
+} from './notifications.types';
+
+const WEBHOOKS_COLLECTION = 'webhooks';
+const DELIVERIES_COLLECTION = 'webhook-deliveries';
+const NAME_PATTERN = /^[a-z0-9-]+$/;
+
+// Icono de cada evento en el formato slack
+const SLACK_ICONS: Record<WebhookPayload['event'], string> = {
+  'deploy.started': ':rocket:',
+  'deploy.succeeded': ':white_check_mark:',
+  'deploy.failed': ':x:',
+  'deploy.rollback': ':rewind:',
+  'container.crash': ':boom:',
+  'infra.up': ':building_construction:',
+  'repo.created': ':package:',
+  [WEBHOOK_TEST_EVENT]: ':bell:',
+};
+
+type WebhookMap = Record<string, WebhookRecord>;
+
+/**
+ * Notificaciones salientes: cada evento se envía por POST a los webhooks suscritos
+ * El cuerpo va firmado con HMAC-SHA256 (cabecera X-Orchestrator-Signature sobre
+ * `<timestamp>.<cuerpo>`) y las entregas fallidas se reintentan con backoff exponencial.
+ * Cada entrega queda registrada en `webhook-deliveries`.
+ */
+@Injectable()
+export class NotificationsService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  private readonly historyLimit: number;
+
+  constructor(
+    private store: StoreService,
+    private cipher: CipherService,
+    private configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get('WEBHOOK_MAX_ATTEMPTS') || 5,
+    );
+    this.retryBaseMs = Number(
+      this.configService.get('WEBHOOK_RETRY_BASE_MS') || 1000,
+    );
+    this.timeoutMs = Number(
+      this.configService.get('WEBHOOK_TIMEOUT_MS') || 10000,
+    );
+    this.historyLimit = Number(
+      this.configService.get('WEBHOOK_DELIVERY_HISTORY') || 200,
+    );
+  }
+
+  /**
+   * Los reintentos viven en memoria: las entregas que un reinicio dejó a medias se dan por fallidas
+   */
+  onModuleInit() {
+    const interrupted = new Date().toISOString();
+    this.store.update<WebhookDelivery[]>(
+      DELIVERIES_COLLECTION,
+      [],
+      (deliveries) => {
+        for (const delivery of deliveries) {
+          if (delivery.status === 'pending') {
+            delivery.status = 'failed';
+            delivery.lastAttemptAt = delivery.lastAttemptAt ?? interrupted;
+            delivery.error =
+              'Entrega interrumpida por un reinicio del orquestador';
+          }
+        }
+      },
+    );
+  }
+
+  /**
+   * Webhooks guardados (sin la clave de firma)
+   */
+  list() {
+    return Object.values(this.readAll())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => this.describe(record));
+  }
+
+  get(name: string) {
+    return this.describe(this.getRecord(name));
+  }
+
+  /**
+   * Crea un webhook
+   * Si no se indica la clave de firma se genera una; sólo se devuelve en esta respuesta
+   */
+  create(name: string, input: WebhookInput) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'El nombre del webhook solo permite letras minúsculas, números y guiones (-).',
+      );
+    }
+    if (this.readAll()[name]) {
+      throw new ConflictException(`El webhook ${name} ya existe`);
+    }
+
+    const secret = input.secret ?? randomBytes(32).toString('hex');
+    return { ...this.save(name, { ...input, secret }, null), secret };
+  }
+
+  /**
+   * Actualiza un webhook; los campos omitidos conservan su valor
+   */
+  update(name: string, input: WebhookInput) {
+    return this.save(name, input, this.getRecord(name));
+  }
+
+  /**
+   * Elimina el webhook y su historial de entregas
+   */
+  remove(name: string) {
+    this.getRecord(name);
+    this.store.update<WebhookMap>(WEBHOOKS_COLLECTION, {}, (all) => {
+      delete all[name];
+    });
+    this.store.update<WebhookDelivery[]>(
+      DELIVERIES_COLLECTION,
+      [],
+      (deliveries) =>
+        deliveries.filter((delivery) => delivery.webhook !== name),
+    );
+    this.logger.log(`Webhook ${name} eliminado`);
+    return { success: true, name };
+  }
+
+  /**
+   * Entregas registradas, de la más reciente a la más antigua
+   */
+  listDeliveries(
+    filter: {
+      webhook?: string;
+      status?: WebhookDeliveryStatus;
+      limit?: number;
+    } = {},
+  ) {
+    return this.store
+      .read<WebhookDelivery[]>(DELIVERIES_COLLECTION, [])
+      .filter(
+        (delivery) =>
+          (!filter.webhook || delivery.webhook === filter.webhook) &&
+          (!filter.status || delivery.status === filter.status),
+      )
+      .slice(0, filter.limit ?? 50);
+  }
+
+  /**
+   * Envía un evento a los webhooks activos suscritos a él
+   * Nunca lanza: un receptor caído no debe interrumpir el despliegue que emite el evento.
+   * La promesa se resuelve cuando terminan todas las entregas (incluidos los reintentos).
+   */
+  async notify(
+    event: WebhookEvent,
+    notification: Notification,
+  ): Promise<WebhookDelivery[]> {
+    const webhooks = Object.values(this.readAll()).filter(
+      (record) =>
+        record.enabled &&
+        (record.events.length === 0 || record.events.includes(event)),
+    );
+
+    return Promise.all(
+      webhooks.map((record) =>
+        this.deliver(record, event, notification, this.maxAttempts).catch(
+          (error: Error) => {
+            this.logger.error(
+              `Error entregando ${event} al webhook ${record.name}: ${error.message}`,
+              error.stack,
+            );
+            return null;
+          },
+        ),
+      ),
+    ).then((deliveries) =>
+      deliveries.filter((delivery): delivery is WebhookDelivery => !!delivery),
+    );
+  }
+
+  /**
+   * Envía un evento de prueba a un webhook (un solo intento, aunque esté desactivado)
+   */
+  sendTest(name: string) {
+    return this.deliver(
+      this.getRecord(name),
+      WEBHOOK_TEST_EVENT,
+      {
+        subject: name,
+        message: `Prueba del webhook ${name} del orquestador`,
+      },
+      1,
+    );
+  }
+
+  private async deliver(
+    record: WebhookRecord,
+    event: WebhookPayload['event'],
+    notification: Notification,
+    maxAttempts: number,
+  ): Promise<WebhookDelivery> {
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      timestamp: new Date().toISOString(),
+      ...notification,
+    };
+    const body = JSON.stringify(
+      record.format === 'slack'
+        ? { text: `${SLACK_ICONS[event]} ${notification.message}` }
+        : payload,
+    );
+    const secret = this.cipher.decrypt(record.secret);
+
+    let delivery: WebhookDelivery = {
+      id: payload.id,
+      webhook: record.name,
+      event,
+      subject: notification.subject,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: payload.timestamp,
+      lastAttemptAt: null,
+      deliveredAt: null,
+    };
+    this.store.update<WebhookDelivery[]>(
+      DELIVERIES_COLLECTION,
+      [],
+      (deliveries) => [delivery, ...deliveries].slice(0, this.historyLimit),
+    );
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      let retryable = true;
+      let changes: Partial<WebhookDelivery>;
+
+      try {
+        const response = await fetch(record.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'infra-orchestrator',
+            'X-Orchestrator-Event': event,
+            'X-Orchestrator-Delivery': payload.id,
+            'X-Orchestrator-Timestamp': timestamp,
+            'X-Orchestrator-Signature': `sha256=${createHmac('sha256', secret)
+              .update(`${timestamp}.${body}`)
+              .digest('hex')}`,
+          },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        // El cuerpo de la respuesta no se usa, pero hay que consumirlo para liberar la conexión
+        await response.text().catch(() => undefined);
+
+        changes = {
+          responseStatus: response.status,
+          error: response.ok ? null : `HTTP ${response.status}`,
+        };
+        if (response.ok) {
+          changes.status = 'delivered';
+          changes.deliveredAt = new Date().toISOString();
+        }
+        // Los 4xx no se arreglan reintentando, salvo timeout y rate limit
+        retryable =
+          response.status >= 500 ||
+          response.status === 408 ||
+          response.status === 429;
+      } catch (error) {
+        changes = { responseStatus: null, error: (error as Error).message };
+      }
+
+      delivery = this.updateDelivery(delivery, {
+        ...changes,
+        attempts: attempt,
+        lastAttemptAt: new Date().toISOString(),
+      });
+      if (delivery.status === 'delivered') {
+        return delivery;
+      }
+
+      if (!retryable || attempt === maxAttempts) {
+        break;
+      }
+      const delayMs = this.retryBaseMs * 2 ** (attempt - 1);
+      this.logger.warn(
+        `Entrega ${event} al webhook ${record.name} fallida (${delivery.error}). Reintento en ${delayMs}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    this.logger.error(
+      `No se pudo entregar ${event} al webhook ${record.name} tras ${delivery.attempts} intento(s): ${delivery.error}`,
+    );
+    return this.updateDelivery(delivery, { status: 'failed' });
+  }
+
+  private updateDelivery(
+    delivery: WebhookDelivery,
+    changes: Partial<WebhookDelivery>,
+  ): WebhookDelivery {
+    const updated = { ...delivery, ...changes };
+    this.store.update<WebhookDelivery[]>(
+      DELIVERIES_COLLECTION,
+      [],
+      (deliveries) => {
+        const index = deliveries.findIndex((item) => item.id === delivery.id);
+        if (index !== -1) {
+          deliveries[index] = updated;
+        }
+      },
+    );
+    return updated;
+  }
+
+  private save(
+    name: string,
+    input: WebhookInput,
+    current: WebhookRecord | null,
+  ) {
+    const url = input.url ?? current?.url;
+    let protocol: string | undefined;
+    try {
+      protocol = url ? new URL(url).protocol : undefined;
+    } catch {
+      protocol = undefined;
+    }
+    if (!url || (protocol !== 'http:' && protocol !== 'https:')) {
+      throw new BadRequestException(`URL de webhook inválida: ${url}`);
+    }
+
+    const now = new Date().toISOString();
+    const record: WebhookRecord = {
+      name,
+      url,
+      events: input.events ?? current?.events ?? [],
+      format: input.format ?? current?.format ?? 'json',
+      secret: input.secret
+        ? this.cipher.encrypt(input.secret)
+        : (current?.secret ?? ''),
+      enabled: input.enabled ?? current?.enabled ?? true,
+      createdAt: current?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.store.update<WebhookMap>(WEBHOOKS_COLLECTION, {}, (all) => {
+      all[name] = record;
+    });
+
+    this.logger.log(
+      `Webhook ${name} ${current ? 'actualizado' : 'creado'} (${record.events.length ? record.events.join(', ') : 'todos los eventos'})`,
+    );
+    return this.describe(record);
+  }
+
+  private describe(record: WebhookRecord) {
+    return {
+      name: record.name,
+      url: record.url,
+      events: record.events,
+      format: record.format,
+      enabled: record.enabled,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private getRecord(name: string): WebhookRecord {
+    const record = this.readAll()[name];
+    if (!record) {
+      throw new NotFoundException(`El webhook ${name} no existe`);
+    }
+    return record;
+  }
+
+  private readAll(): WebhookMap {
+    return this.store.read<WebhookMap>(WEBHOOKS_COLLECTION, {});
+  }
+}
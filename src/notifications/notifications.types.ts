@@ -0,0 +1,109 @@
+/**
+ * Tipos de las notificaciones salientes (webhooks)
+ */
+
+/**
+ * Eventos que se pueden notificar
+ */
+export type WebhookEvent =
+  | 'deploy.started'
+  | 'deploy.succeeded'
+  | 'deploy.failed'
+  | 'deploy.rollback'
+  | 'container.crash'
+  | 'infra.up'
+  | 'repo.created';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'deploy.started',
+  'deploy.succeeded',
+  'deploy.failed',
+  'deploy.rollback',
+  'container.crash',
+  'infra.up',
+  'repo.created',
+];
+
+// Evento de las entregas de prueba (POST /notifications/webhooks/:name/test)
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * json: el evento completo, firmado
+ * slack: `{ text }`, compatible con los Incoming Webhooks de Slack
+ */
+export type WebhookFormat = 'json' | 'slack';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack'];
+
+/**
+ * Webhook guardado (colección `webhooks`)
+ */
+export interface WebhookRecord {
+  name: string;
+  url: string;
+  // Eventos suscritos; vacío = todos
+  events: WebhookEvent[];
+  format: WebhookFormat;
+  // Clave HMAC cifrada con CipherService
+  secret: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Datos de un webhook al crearlo o actualizarlo (valores en claro)
+ */
+export interface WebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  format?: WebhookFormat;
+  secret?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Notificación que emiten los servicios
+ */
+export interface Notification {
+  // Recurso afectado: subdominio, stack de Pulumi, repositorio...
+  subject: string;
+  // Resumen legible (es el texto del formato slack)
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Cuerpo de las entregas en formato json
+ */
+export interface WebhookPayload extends Notification {
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  timestamp: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'delivered',
+  'failed',
+];
+
+/**
+ * Entrega de un evento a un webhook (colección `webhook-deliveries`)
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhook: string;
+  event: WebhookPayload['event'];
+  subject: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // Código HTTP de la última respuesta (null si no hubo respuesta)
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+}
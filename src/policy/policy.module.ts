@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { PolicyService } from './policy.service';
+
+@Module({
+  providers: [PolicyService],
+  exports: [PolicyService], // Usado por deploy antes de descargar cada imagen
+})
+export class PolicyModule {}
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PolicyService } from './policy.service';
+
+describe('PolicyService', () => {
+  const createService = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PolicyService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    return module.get<PolicyService>(PolicyService);
+  };
+
+  it('should allow any image without configuration', async () => {
+    const service = await createService({});
+
+    expect(
+      service.evaluate({ subdomain: 'cliente1', imageName: 'nginx' }),
+    ).toEqual([]);
+  });
+
+  it('should enforce registries, namespaces and subdomain bindings', async () => {
+    const service = await createService({
+      DEPLOY_ALLOWED_REGISTRIES: 'ghcr.io, docker.io',
+      DEPLOY_ALLOWED_NAMESPACES: 'ghcr.io/miorg/*,docker.io/library/*',
+      DEPLOY_SUBDOMAIN_BINDINGS: 'cliente1=ghcr.io/miorg/cliente1',
+    });
+
+    expect(
+      service.evaluate({
+        subdomain: 'cliente1',
+        imageName: 'ghcr.io/miorg/cliente1:v1',
+      }),
+    ).toEqual([]);
+    expect(
+      service
+        .evaluate({ subdomain: 'cliente1', imageName: 'ghcr.io/miorg/otro:v1' })
+        .map((violation) => violation.rule),
+    ).toEqual(['subdomain-binding']);
+    expect(
+      service
+        .evaluate({ subdomain: 'cliente2', imageName: 'quay.io/ajeno/app:v1' })
+        .map((violation) => violation.rule),
+    ).toEqual(['allowed-registries', 'allowed-namespaces']);
+  });
+
+  it('should block latest unless the image is pinned by digest', async () => {
+    const service = await createService({ NODE_ENV: 'production' });
+
+    expect(
+      service.evaluate({ subdomain: 'cliente1', imageName: 'org/app' }),
+    ).toEqual([expect.objectContaining({ rule: 'block-latest' })]);
+    expect(
+      service.evaluate({ subdomain: 'cliente1', imageName: 'org/app:latest' }),
+    ).toHaveLength(1);
+    // Un rollback descarga la imagen fijada por digest aunque se desplegara con latest
+    expect(
+      service.evaluate({
+        subdomain: 'cliente1',
+        imageName: 'org/app:latest',
+        imageRef: 'org/app@sha256:abc',
+      }),
+    ).toEqual([]);
+  });
+
+  it('should only let each subdomain deploy its own local builds', async () => {
+    const service = await createService({
+      NODE_ENV: 'production',
+      DEPLOY_ALLOWED_REGISTRIES: 'ghcr.io',
+      DEPLOY_ALLOW_BUILDS: 'true',
+    });
+
+    expect(
+      service.evaluate({
+        subdomain: 'cliente1',
+        imageName: 'orchestrator.local/cliente1:build-1',
+      }),
+    ).toEqual([]);
+    expect(
+      service
+        .evaluate({
+          subdomain: 'cliente2',
+          imageName: 'orchestrator.local/cliente1:build-1',
+        })
+        .map((violation) => violation.rule),
+    ).toEqual(['local-build']);
+
+    const disabled = await createService({ DEPLOY_ALLOW_BUILDS: 'false' });
+    expect(
+      disabled
+        .evaluate({
+          subdomain: 'cliente1',
+          imageName: 'orchestrator.local/cliente1:build-1',
+        })
+        .map((violation) => violation.rule),
+    ).toEqual(['local-build']);
+  });
+
+  it('should disable builds by default when registries or namespaces are restricted', async () => {
+    const service = await createService({
+      DEPLOY_ALLOWED_NAMESPACES: 'ghcr.io/miorg/*',
+      DEPLOY_SUBDOMAIN_BINDINGS: 'cliente2=orchestrator.local/cliente2',
+    });
+
+    expect(service.getPolicy().allowBuilds).toBe(false);
+    expect(
+      service
+        .evaluate({
+          subdomain: 'cliente1',
+          imageName: 'orchestrator.local/cliente1:build-1',
+        })
+        .map((violation) => violation.rule),
+    ).toEqual(['local-build']);
+    // Un vínculo que incluye sus builds las habilita para ese subdominio
+    expect(
+      service.evaluate({
+        subdomain: 'cliente2',
+        imageName: 'orchestrator.local/cliente2:build-1',
+      }),
+    ).toEqual([]);
+  });
+
+  it('should check build base images against the allowed registries and namespaces', async () => {
+    const service = await createService({
+      DEPLOY_ALLOWED_REGISTRIES: 'ghcr.io,docker.io',
+      DEPLOY_ALLOWED_NAMESPACES: 'docker.io/library/*,ghcr.io/miorg/*',
+    });
+    const input = (imageName: string) => ({ subdomain: 'cliente1', imageName });
+
+    expect(() =>
+      service.assertAllowedBaseImage(input('node:20-alpine')),
+    ).not.toThrow();
+    expect(() =>
+      service.assertAllowedBaseImage(input('ghcr.io/otra/base:1')),
+    ).toThrow(ForbiddenException);
+    expect(() =>
+      service.assertAllowedBaseImage(input('quay.io/miorg/base:1')),
+    ).toThrow(ForbiddenException);
+    expect(() => service.assertAllowedBaseImage(input('$BASE'))).toThrow(
+      ForbiddenException,
+    );
+
+    const open = await createService({});
+    expect(() => open.assertAllowedBaseImage(input('$BASE'))).not.toThrow();
+  });
+
+  it('should answer with a structured 403 naming the failed rule', async () => {
+    const service = await createService({
+      DEPLOY_REQUIRE_DIGEST: 'true',
+      DEPLOY_MAX_IMAGE_SIZE_MB: '100',
+    });
+
+    try {
+      service.assertAllowed({ subdomain: 'cliente1', imageName: 'org/app:v1' });
+      fail('Se esperaba un ForbiddenException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toMatchObject({
+        statusCode: 403,
+        rule: 'require-digest',
+        violations: [{ rule: 'require-digest' }],
+      });
+    }
+
+    expect(() =>
+      service.assertImageSize(
+        { subdomain: 'cliente1', imageName: 'org/app@sha256:abc' },
+        150 * 1024 * 1024,
+      ),
+    ).toThrow('La imagen ocupa 150MB y el máximo es 100MB');
+  });
+});
@@ -0,0 +1,300 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeployPolicy, PolicyInput, PolicyViolation } from './policy.types';
+import {
+  LOCAL_BUILD_HOST,
+  parseImageReference,
+} from '../registries/registry-host.util';
+
+/**
+ * Política de imágenes que se evalúa antes de descargar nada
+ * Se configura sólo con variables de entorno: quien tenga el token de la API no puede relajarla.
+ */
+@Injectable()
+export class PolicyService {
+  private readonly logger = new Logger(PolicyService.name);
+  private readonly policy: DeployPolicy;
+
+  constructor(private configService: ConfigService) {
+    const maxImageSizeMb = Number(
+      this.configService.get('DEPLOY_MAX_IMAGE_SIZE_MB') || 0,
+    );
+
+    const allowedRegistries = this.getList('DEPLOY_ALLOWED_REGISTRIES');
+    const allowedNamespaces = this.getList('DEPLOY_ALLOWED_NAMESPACES');
+
+    this.policy = {
+      allowedRegistries,
+      allowedNamespaces,
+      requireTag: this.getFlag('DEPLOY_REQUIRE_TAG', false),
+      requireDigest: this.getFlag('DEPLOY_REQUIRE_DIGEST', false),
+      // En producción `:latest` se bloquea salvo que se desactive explícitamente
+      blockLatest: this.getFlag(
+        'DEPLOY_BLOCK_LATEST',
+        this.configService.get('NODE_ENV') === 'production',
+      ),
+      maxImageSizeMb: maxImageSizeMb > 0 ? maxImageSizeMb : null,
+      subdomainBindings: this.getBindings(),
+      // Con una lista de registros o namespaces, las builds se habilitan explícitamente:
+      // una imagen construida en el host no pasaría por ninguna de las dos
+      allowBuilds: this.getFlag(
+        'DEPLOY_ALLOW_BUILDS',
+        allowedRegistries.length === 0 && allowedNamespaces.length === 0,
+      ),
+    };
+
+    this.logger.log(
+      `Política de despliegue: ${this.policy.allowedRegistries.length} registro(s), ` +
+        `${this.policy.allowedNamespaces.length} namespace(s), ` +
+        `${Object.keys(this.policy.subdomainBindings).length} subdominio(s) vinculados`,
+    );
+  }
+
+  getPolicy(): DeployPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Reglas que incumple una imagen (todas, no sólo la primera)
+   * El tamaño se comprueba aparte con `assertImageSize`: antes de la descarga con el
+   * tamaño comprimido del registro y después con el real
+   */
+  evaluate(input: PolicyInput): PolicyViolation[] {
+    const { host, repository, tag, digest } = parseImageReference(
+      input.imageName,
+    );
+    const fullName = `${host}/${repository}`;
+    const ref = input.imageRef ?? input.imageName;
+    // Los rollbacks y redespliegues descargan la imagen fijada por digest o por ID
+    const pinned =
+      digest !== null ||
+      ref.startsWith('sha256:') ||
+      parseImageReference(ref).digest !== null;
+    const violations: PolicyViolation[] = [];
+
+    // Las imágenes construidas en el host no vienen de ningún registro: las reglas de registro,
+    // namespace y tag no aplican (sí a sus imágenes base, ver `assertAllowedBaseImage`),
+    // pero cada subdominio sólo puede desplegar sus propias builds
+    if (host === LOCAL_BUILD_HOST) {
+      // Un vínculo que incluye las builds del subdominio las habilita aunque estén desactivadas
+      const bound = (this.policy.subdomainBindings[input.subdomain] ?? []).some(
+        (pattern) => this.matches(pattern, fullName),
+      );
+      if (!this.policy.allowBuilds && !bound) {
+        violations.push({
+          rule: 'local-build',
+          message:
+            'La construcción de imágenes en el host está desactivada (DEPLOY_ALLOW_BUILDS)',
+        });
+      } else if (repository !== input.subdomain) {
+        violations.push({
+          rule: 'local-build',
+          message: `La imagen ${fullName} se construyó para otro subdominio`,
+        });
+      }
+      return [
+        ...violations,
+        ...this.evaluateBindings(input.subdomain, fullName),
+      ];
+    }
+
+    violations.push(...this.evaluateAllowlists(host, fullName));
+
+    if (this.policy.requireDigest && !pinned) {
+      violations.push({
+        rule: 'require-digest',
+        message: `La imagen debe fijarse por digest (${input.imageName}@sha256:...)`,
+      });
+    }
+
+    if (this.policy.requireTag && !tag && !pinned) {
+      violations.push({
+        rule: 'require-tag',
+        message: `La imagen debe indicar un tag explícito (${input.imageName}:<versión>)`,
+      });
+    }
+
+    if (this.policy.blockLatest && !pinned && (!tag || tag === 'latest')) {
+      violations.push({
+        rule: 'block-latest',
+        message: `El tag latest (explícito o implícito) está bloqueado: usa una versión o un digest`,
+      });
+    }
+
+    return [...violations, ...this.evaluateBindings(input.subdomain, fullName)];
+  }
+
+  /**
+   * Reglas de registros y namespaces permitidos
+   */
+  private evaluateAllowlists(
+    host: string,
+    fullName: string,
+  ): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+
+    if (
+      this.policy.allowedRegistries.length > 0 &&
+      !this.policy.allowedRegistries.includes(host)
+    ) {
+      violations.push({
+        rule: 'allowed-registries',
+        message: `El registro ${host} no está permitido (permitidos: ${this.policy.allowedRegistries.join(', ')})`,
+      });
+    }
+
+    if (
+      this.policy.allowedNamespaces.length > 0 &&
+      !this.policy.allowedNamespaces.some((pattern) =>
+        this.matches(pattern, fullName),
+      )
+    ) {
+      violations.push({
+        rule: 'allowed-namespaces',
+        message: `El repositorio ${fullName} no está en ningún namespace permitido`,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Un subdominio vinculado sólo puede desplegar los repositorios de su vínculo
+   * (las imágenes construidas en el host tampoco, salvo que el vínculo las incluya)
+   */
+  private evaluateBindings(
+    subdomain: string,
+    fullName: string,
+  ): PolicyViolation[] {
+    const bindings = this.policy.subdomainBindings[subdomain];
+    if (
+      !bindings ||
+      bindings.some((pattern) => this.matches(pattern, fullName))
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        rule: 'subdomain-binding',
+        message: `El subdominio ${subdomain} sólo puede desplegar ${bindings.join(', ')}`,
+      },
+    ];
+  }
+
+  /**
+   * Lanza un 403 con las reglas incumplidas
+   */
+  assertAllowed(input: PolicyInput) {
+    this.throwIfViolated(input, this.evaluate(input));
+  }
+
+  /**
+   * Lanza un 403 si la imagen base de un FROM de una build no está en los registros o namespaces permitidos
+   * Si la referencia depende de un ARG sin resolver no se puede comprobar y, con listas configuradas, se rechaza
+   */
+  assertAllowedBaseImage(input: PolicyInput) {
+    const { allowedRegistries, allowedNamespaces } = this.policy;
+    if (allowedRegistries.length === 0 && allowedNamespaces.length === 0) {
+      return;
+    }
+
+    if (input.imageName.includes('$')) {
+      return this.throwIfViolated(input, [
+        {
+          rule: 'base-image',
+          message: `La imagen base ${input.imageName} depende de un ARG sin valor y no se puede comprobar`,
+        },
+      ]);
+    }
+
+    const { host, repository } = parseImageReference(input.imageName);
+    this.throwIfViolated(
+      input,
+      this.evaluateAllowlists(host, `${host}/${repository}`),
+    );
+  }
+
+  /**
+   * Comprueba el tamaño de una imagen
+   * @param compressed - true si es el tamaño comprimido del registro (antes de descargarla)
+   */
+  assertImageSize(
+    input: PolicyInput,
+    sizeBytes: number | null,
+    compressed = false,
+  ) {
+    const { maxImageSizeMb } = this.policy;
+    if (maxImageSizeMb === null || sizeBytes === null) {
+      return;
+    }
+
+    const sizeMb = Math.ceil(sizeBytes / 1024 / 1024);
+    if (sizeMb > maxImageSizeMb) {
+      this.throwIfViolated(input, [
+        {
+          rule: 'max-image-size',
+          message: `La imagen ocupa ${sizeMb}MB${compressed ? ' comprimida' : ''} y el máximo es ${maxImageSizeMb}MB`,
+        },
+      ]);
+    }
+  }
+
+  private throwIfViolated(input: PolicyInput, violations: PolicyViolation[]) {
+    if (violations.length === 0) {
+      return;
+    }
+
+    this.logger.warn(
+      `Despliegue de ${input.imageName} en ${input.subdomain} rechazado por la política: ` +
+        violations.map((violation) => violation.rule).join(', '),
+    );
+    throw new ForbiddenException({
+      statusCode: 403,
+      error: 'Policy Violation',
+      message: `La imagen ${input.imageName} no cumple la política de despliegue: ${violations[0].message}`,
+      rule: violations[0].rule,
+      violations,
+    });
+  }
+
+  /**
+   * Coincidencia de un patrón `<host>/<repositorio>` donde `*` equivale a cualquier texto
+   */
+  private matches(pattern: string, fullName: string) {
+    const regex = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(fullName);
+  }
+
+  private getList(key: string): string[] {
+    return (this.configService.get<string>(key) || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  private getFlag(key: string, fallback: boolean): boolean {
+    const value = this.configService.get<string>(key);
+    return value === undefined || value === '' ? fallback : value === 'true';
+  }
+
+  /**
+   * DEPLOY_SUBDOMAIN_BINDINGS: `cliente1=ghcr.io/org/cliente1,api=docker.io/org/api-*`
+   */
+  private getBindings(): Record<string, string[]> {
+    const bindings: Record<string, string[]> = {};
+    for (const entry of this.getList('DEPLOY_SUBDOMAIN_BINDINGS')) {
+      const [subdomain, pattern] = entry.split('=').map((part) => part.trim());
+      if (!subdomain || !pattern) {
+        throw new Error(
+          `Vínculo inválido en DEPLOY_SUBDOMAIN_BINDINGS: "${entry}". Formato: <subdominio>=<registro>/<repositorio>`,
+        );
+      }
+      (bindings[subdomain] ??= []).push(pattern);
+    }
+    return bindings;
+  }
+}
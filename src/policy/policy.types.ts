@@ -0,0 +1,45 @@
+export type PolicyRule =
+  | 'allowed-registries'
+  | 'allowed-namespaces'
+  | 'require-tag'
+  | 'require-digest'
+  | 'block-latest'
+  | 'max-image-size'
+  | 'subdomain-binding'
+  | 'local-build'
+  | 'base-image';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+/**
+ * Política de despliegue efectiva (leída de la configuración del orquestador)
+ * Las listas vacías no restringen nada
+ */
+export interface DeployPolicy {
+  // Hosts de registro permitidos (docker.io, ghcr.io...)
+  allowedRegistries: string[];
+  // Patrones `<host>/<repositorio>` permitidos; `*` equivale a cualquier texto
+  allowedNamespaces: string[];
+  requireTag: boolean;
+  requireDigest: boolean;
+  blockLatest: boolean;
+  maxImageSizeMb: number | null;
+  // Repositorios que puede desplegar cada subdominio (mismo formato que allowedNamespaces)
+  subdomainBindings: Record<string, string[]>;
+  // Construcción de imágenes en el host desde un repositorio Git o un tarball
+  // (por defecto sólo sin registros ni namespaces permitidos)
+  allowBuilds: boolean;
+}
+
+/**
+ * Imagen que se quiere desplegar
+ * `imageRef` es la referencia que se descarga realmente (el digest en rollbacks y redespliegues)
+ */
+export interface PolicyInput {
+  subdomain: string;
+  imageName: string;
+  imageRef?: string;
+}
@@ -1,16 +1,25 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ProjectsService } from './projects.service';
+import { JobsService } from '../jobs/jobs.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 
 @ApiTags('Orquestador de Proyectos')
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly projectsService: ProjectsService) {}
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly jobsService: JobsService,
+  ) {}
 
   @Post('github')
-  @ApiOperation({ summary: 'Crea solo el repositorio de GitHub desde template (sin Amplify)' })
-  @ApiResponse({ status: 201, description: 'Repositorio creado y vite.config.ts actualizado.' })
+  @ApiOperation({
+    summary: 'Crea solo el repositorio de GitHub desde template (sin Amplify)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Repositorio creado y vite.config.ts actualizado.',
+  })
   @ApiResponse({ status: 400, description: 'Datos de entrada inválidos.' })
   async createRepository(@Body() createProjectDto: CreateProjectDto) {
     const repoUrl = await this.projectsService.createRepositoryFromTemplate(
@@ -21,25 +30,56 @@ export class ProjectsController {
   }
 
   @Post('amplify')
-  @ApiOperation({ summary: 'Crea solo Amplify App (el repositorio debe existir previamente)' })
-  @ApiResponse({ status: 201, description: 'Amplify App creada exitosamente.' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Crea solo Amplify App (el repositorio debe existir previamente)',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Trabajo encolado. Consulta GET /jobs/:id para ver la URL de Amplify.',
+  })
   @ApiResponse({ status: 400, description: 'Datos de entrada inválidos.' })
-  async createAmplify(@Body() createProjectDto: CreateProjectDto) {
-    return await this.projectsService.createAmplifyApp(
-      createProjectDto.projectName,
-      createProjectDto.createS3 ?? false,
-    );
+  createAmplify(@Body() createProjectDto: CreateProjectDto) {
+    const job = this.jobsService.enqueue({
+      type: 'project',
+      key: `pulumi:${createProjectDto.projectName}`,
+      description: `Creación de Amplify App para ${createProjectDto.projectName}`,
+      run: (job) =>
+        this.projectsService.createAmplifyApp(
+          createProjectDto.projectName,
+          createProjectDto.createS3 ?? false,
+          job,
+        ),
+    });
+    return this.jobsService.toReference(job);
   }
 
   @Post()
-  @ApiOperation({ summary: 'Crea repositorio y despliega infraestructura completa (GitHub + Amplify)' })
-  @ApiResponse({ status: 201, description: 'Repositorio y Amplify creados exitosamente.' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary:
+      'Crea repositorio y despliega infraestructura completa (GitHub + Amplify)',
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Trabajo encolado. Consulta GET /jobs/:id para ver el resultado.',
+  })
   @ApiResponse({ status: 400, description: 'Datos de entrada inválidos.' })
-  async create(@Body() createProjectDto: CreateProjectDto) {
-    return await this.projectsService.createInfrastructure(
-      createProjectDto.projectName,
-      createProjectDto.description,
-      createProjectDto.createS3
-    );
+  create(@Body() createProjectDto: CreateProjectDto) {
+    const job = this.jobsService.enqueue({
+      type: 'project',
+      key: `pulumi:${createProjectDto.projectName}`,
+      description: `Creación de repositorio y Amplify App para ${createProjectDto.projectName}`,
+      run: (job) =>
+        this.projectsService.createInfrastructure(
+          createProjectDto.projectName,
+          createProjectDto.description,
+          createProjectDto.createS3,
+          job,
+        ),
+    });
+    return this.jobsService.toReference(job);
   }
 }
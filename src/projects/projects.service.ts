@@ -1,14 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { LocalWorkspace } from '@pulumi/pulumi/automation';
+import { LocalWorkspace, UpResult } from '@pulumi/pulumi/automation';
 import * as pulumi from '@pulumi/pulumi';
-import * as aws from "@pulumi/aws";
+import * as aws from '@pulumi/aws';
 import { Octokit } from '@octokit/rest';
+import { JobContext } from '../jobs/jobs.types';
+import { NotificationsService } from '../notifications/notifications.service';
 
 @Injectable()
 export class ProjectsService {
   private readonly logger = new Logger(ProjectsService.name);
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private notifications: NotificationsService,
+  ) {}
 
   /**
    * Crea un repositorio desde template y actualiza vite.config.ts
@@ -26,10 +31,14 @@ export class ProjectsService {
 
     // Validar que las variables estén configuradas
     if (!templateOwner || templateOwner === 'tu-organizacion') {
-      throw new Error('GITHUB_TEMPLATE_OWNER no está configurado o tiene un valor placeholder. Actualiza tu .env con el owner real del template.');
+      throw new Error(
+        'GITHUB_TEMPLATE_OWNER no está configurado o tiene un valor placeholder. Actualiza tu .env con el owner real del template.',
+      );
     }
     if (!templateRepo || templateRepo === 'tu-template-vite-federation') {
-      throw new Error('GITHUB_TEMPLATE_REPO no está configurado o tiene un valor placeholder. Actualiza tu .env con el nombre real del template.');
+      throw new Error(
+        'GITHUB_TEMPLATE_REPO no está configurado o tiene un valor placeholder. Actualiza tu .env con el nombre real del template.',
+      );
     }
     if (!githubToken) {
       throw new Error('GITHUB_TOKEN no está configurado en el .env');
@@ -37,7 +46,9 @@ export class ProjectsService {
 
     const octokit = new Octokit({ auth: githubToken });
 
-    this.logger.log(`Creando repositorio ${projectName} desde template ${templateOwner}/${templateRepo}...`);
+    this.logger.log(
+      `Creando repositorio ${projectName} desde template ${templateOwner}/${templateRepo}...`,
+    );
 
     try {
       // 1. Crear repositorio desde template
@@ -63,7 +74,10 @@ export class ProjectsService {
         path: 'vite.config.ts',
       });
 
-      if (Array.isArray(viteConfigResponse.data) || viteConfigResponse.data.type !== 'file') {
+      if (
+        Array.isArray(viteConfigResponse.data) ||
+        viteConfigResponse.data.type !== 'file'
+      ) {
         throw new Error('vite.config.ts no encontrado o no es un archivo');
       }
 
@@ -114,7 +128,9 @@ export default defineConfig({
 `;
 
       // 5. Hacer commit del cambio
-      this.logger.log(`Actualizando vite.config.ts con remote name: ${remoteName}...`);
+      this.logger.log(
+        `Actualizando vite.config.ts con remote name: ${remoteName}...`,
+      );
       await octokit.rest.repos.createOrUpdateFileContents({
         owner: githubOrg!,
         repo: projectName,
@@ -127,9 +143,21 @@ export default defineConfig({
 
       this.logger.log('vite.config.ts actualizado exitosamente');
 
+      void this.notifications.notify('repo.created', {
+        subject: repoResponse.data.full_name,
+        message: `Repositorio ${repoResponse.data.full_name} creado desde el template ${templateOwner}/${templateRepo}`,
+        data: {
+          fullName: repoResponse.data.full_name,
+          url: repoResponse.data.html_url,
+          template: `${templateOwner}/${templateRepo}`,
+        },
+      });
+
       return repoResponse.data.html_url;
     } catch (error) {
-      this.logger.error(`Error al crear repo desde template: ${(error as Error).message}`);
+      this.logger.error(
+        `Error al crear repo desde template: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
@@ -137,7 +165,11 @@ export default defineConfig({
   /**
    * Crea solo Amplify (asume que el repositorio ya existe)
    */
-  async createAmplifyApp(projectName: string, createS3: boolean = false) {
+  async createAmplifyApp(
+    projectName: string,
+    createS3: boolean = false,
+    job?: JobContext,
+  ) {
     const githubToken = this.configService.get('GITHUB_TOKEN');
     const templateOwner = this.configService.get('GITHUB_TEMPLATE_OWNER');
     const defaultOrg = 'host-repositories';
@@ -150,12 +182,14 @@ export default defineConfig({
         owner: githubOrg!,
         repo: projectName,
       });
-      this.logger.log(`Repositorio ${githubOrg}/${projectName} encontrado, procediendo con Amplify...`);
+      this.logger.log(
+        `Repositorio ${githubOrg}/${projectName} encontrado, procediendo con Amplify...`,
+      );
     } catch (error) {
       if ((error as { status?: number }).status === 404) {
         throw new Error(
           `El repositorio ${githubOrg}/${projectName} no existe en GitHub. ` +
-          `Primero crea el repositorio usando POST /projects/github o crea el repositorio manualmente.`
+            `Primero crea el repositorio usando POST /projects/github o crea el repositorio manualmente.`,
         );
       }
       throw error;
@@ -163,7 +197,10 @@ export default defineConfig({
 
     const pulumiProgram = async () => {
       // 1. Ahorro de Costos: Etiquetas para seguimiento
-      const commonTags = { "Project": projectName, "ManagedBy": "NestJS-Orchestrator" };
+      const commonTags = {
+        Project: projectName,
+        ManagedBy: 'NestJS-Orchestrator',
+      };
 
       // El repositorio ya existe, solo necesitamos la URL
       const repoUrlString = `https://github.com/${githubOrg}/${projectName}`;
@@ -173,8 +210,8 @@ export default defineConfig({
       const amplifyApp = new aws.amplify.App(projectName, {
         repository: repoUrl,
         accessToken: githubToken,
-        platform: "WEB",
-        
+        platform: 'WEB',
+
         // Aquí definimos el archivo de compilación por defecto para Vite
         buildSpec: `
 version: 1
@@ -194,40 +231,41 @@ frontend:
     paths:
       - node_modules/**/*
 `,
-        
+
         // Reglas personalizadas para SPA: redirige todas las rutas a index.html
         customRules: [
           {
-            source: "</^[^.]+$|\\.(?!(css|gif|ico|jpg|js|png|txt|svg|woff|woff2|ttf|map|json|webp)$)([^.]+$)/>",
-            status: "200",
-            target: "/index.html",
+            source:
+              '</^[^.]+$|\\.(?!(css|gif|ico|jpg|js|png|txt|svg|woff|woff2|ttf|map|json|webp)$)([^.]+$)/>',
+            status: '200',
+            target: '/index.html',
           },
         ],
-        
+
         enableBranchAutoBuild: true,
         tags: commonTags,
       });
 
-      new aws.amplify.Branch("main", {
+      new aws.amplify.Branch('main', {
         appId: amplifyApp.id,
-        branchName: "main",
+        branchName: 'main',
         tags: commonTags,
       });
 
       // 4. S3 Opcional
-      let s3Uri = pulumi.output("");
+      let s3Uri = pulumi.output('');
       if (createS3 === true) {
         const bucket = new aws.s3.BucketV2(`${projectName}-data`, {
           bucket: `${projectName}-${Math.random().toString(36).substring(7)}`,
           tags: commonTags,
         });
-        s3Uri = bucket.id.apply(id => `s3://${id}`);
+        s3Uri = bucket.id.apply((id) => `s3://${id}`);
       }
 
-      return { 
-        githubUrl: repoUrlString, 
-        amplifyUrl: amplifyApp.defaultDomain.apply(d => `https://main.${d}`), 
-        s3Uri 
+      return {
+        githubUrl: repoUrlString,
+        amplifyUrl: amplifyApp.defaultDomain.apply((d) => `https://main.${d}`),
+        s3Uri,
       };
     };
 
@@ -237,23 +275,65 @@ frontend:
       program: pulumiProgram,
     });
 
-    await stack.setConfig("aws:region", { value: this.configService.get('AWS_REGION') || 'us-east-1' });
+    await stack.setConfig('aws:region', {
+      value: this.configService.get('AWS_REGION') || 'us-east-1',
+    });
     this.logger.log(`Creando Amplify App para ${projectName}...`);
-    const upRes = await stack.up({ onOutput: (msg) => this.logger.debug(msg) });
-    
+    job?.step('pulumi-up', 'Ejecutando pulumi up');
+    let upRes: UpResult;
+    try {
+      upRes = await stack.up({
+        onOutput: (msg) => {
+          this.logger.debug(msg);
+          job?.log(msg);
+        },
+      });
+    } catch (error) {
+      void this.notifications.notify('infra.up', {
+        subject: `${projectName}/dev`,
+        message: `Falló pulumi up de la Amplify App ${projectName}: ${(error as Error).message}`,
+        data: {
+          project: projectName,
+          stack: 'dev',
+          success: false,
+          outputs: null,
+          error: (error as Error).message,
+        },
+      });
+      throw error;
+    }
+
     const outputs: Record<string, unknown> = {};
     for (const [k, v] of Object.entries(upRes.outputs)) {
       outputs[k] = (v as { value?: unknown })?.value ?? v;
     }
-    
+
+    void this.notifications.notify('infra.up', {
+      subject: `${projectName}/dev`,
+      message: `Amplify App ${projectName} desplegada con pulumi up`,
+      data: {
+        project: projectName,
+        stack: 'dev',
+        success: true,
+        outputs,
+        error: null,
+      },
+    });
+
     return outputs;
   }
 
-  async createInfrastructure(projectName: string, description: string | undefined, createS3: boolean | undefined) {
+  async createInfrastructure(
+    projectName: string,
+    description: string | undefined,
+    createS3: boolean | undefined,
+    job?: JobContext,
+  ) {
     // 1. Crear repositorio desde template (reutiliza el método)
+    job?.step('github', `Creando el repositorio ${projectName}`);
     await this.createRepositoryFromTemplate(projectName, description);
 
     // 2. Crear Amplify (reutiliza el método)
-    return await this.createAmplifyApp(projectName, createS3 ?? false);
+    return await this.createAmplifyApp(projectName, createS3 ?? false, job);
   }
 }
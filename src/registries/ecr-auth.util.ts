@@ -0,0 +1,109 @@
+import { createHash, createHmac } from 'crypto';
+
+const ECR_TARGET = 'AmazonEC2ContainerRegistry_V20150921.GetAuthorizationToken';
+
+export interface AwsCredentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface EcrAuthorizationToken {
+  username: string;
+  password: string;
+  expiresAt: Date;
+}
+
+/**
+ * Pide a ECR un token de registro (GetAuthorizationToken) firmado con AWS Signature V4
+ * El token dura 12 horas y se usa como contraseña del usuario `AWS`
+ */
+export async function getEcrAuthorizationToken(
+  credentials: AwsCredentials,
+  now = new Date(),
+): Promise<EcrAuthorizationToken> {
+  const host = `api.ecr.${credentials.region}.amazonaws.com`;
+  const body = '{}';
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-amz-json-1.1',
+    host,
+    'x-amz-date': amzDate,
+    'x-amz-target': ECR_TARGET,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    'POST',
+    '/',
+    '',
+    ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    sha256(body),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/ecr/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = [credentials.region, 'ecr', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(`AWS4${credentials.secretAccessKey}`, dateStamp),
+  );
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  const response = await fetch(`https://${host}/`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      authorization:
+        `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    },
+    body,
+  });
+
+  const payload = (await response.json()) as {
+    authorizationData?: { authorizationToken: string; expiresAt: number }[];
+    message?: string;
+    __type?: string;
+  };
+  const data = payload.authorizationData?.[0];
+
+  if (!response.ok || !data) {
+    throw new Error(
+      `ECR rechazó la petición de token (${response.status}): ${payload.message ?? payload.__type ?? 'sin detalle'}`,
+    );
+  }
+
+  // El token es base64("AWS:<contraseña>")
+  const decoded = Buffer.from(data.authorizationToken, 'base64').toString(
+    'utf8',
+  );
+  const separator = decoded.indexOf(':');
+
+  return {
+    username: decoded.slice(0, separator),
+    password: decoded.slice(separator + 1),
+    expiresAt: new Date(data.expiresAt * 1000),
+  };
+}
+
+function sha256(value: string) {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string) {
+  return createHmac('sha256', key).update(value, 'utf8').digest();
+}
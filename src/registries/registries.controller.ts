@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RegistriesService } from './registries.service';
+import { CreateRegistryDto, UpdateRegistryDto } from './dto/registry.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+@ApiTags('registries')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('registries')
+export class RegistriesController {
+  constructor(private readonly registriesService: RegistriesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar los registros de imágenes (sin contraseñas ni claves)',
+  })
+  list() {
+    return this.registriesService.list();
+  }
+
+  @Get(':name')
+  @ApiOperation({ summary: 'Detalle de un registro de imágenes' })
+  @ApiParam({ name: 'name', example: 'github' })
+  @ApiResponse({ status: 404, description: 'El registro no existe' })
+  get(@Param('name') name: string) {
+    return this.registriesService.get(name);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Crear las credenciales de un registro de imágenes',
+    description:
+      'Los despliegues usan automáticamente la credencial cuyo host coincide con el de la imagen ' +
+      '(p. ej. ghcr.io/org/app usa el registro con host ghcr.io). Las imágenes sin host son de Docker Hub.',
+  })
+  @ApiResponse({ status: 201, description: 'Registro creado' })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya existe un registro con ese nombre o ese host',
+  })
+  create(@Body() createRegistryDto: CreateRegistryDto) {
+    const { name, ...input } = createRegistryDto;
+    return this.registriesService.create(name, input);
+  }
+
+  @Put(':name')
+  @ApiOperation({
+    summary: 'Actualizar un registro de imágenes',
+    description:
+      'La contraseña y las claves de AWS omitidas conservan su valor actual',
+  })
+  @ApiParam({ name: 'name', example: 'github' })
+  @ApiResponse({ status: 404, description: 'El registro no existe' })
+  update(
+    @Param('name') name: string,
+    @Body() updateRegistryDto: UpdateRegistryDto,
+  ) {
+    return this.registriesService.update(name, updateRegistryDto);
+  }
+
+  @Delete(':name')
+  @ApiOperation({ summary: 'Eliminar un registro de imágenes' })
+  @ApiParam({ name: 'name', example: 'github' })
+  @ApiResponse({ status: 404, description: 'El registro no existe' })
+  remove(@Param('name') name: string) {
+    return this.registriesService.remove(name);
+  }
+}
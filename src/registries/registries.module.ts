@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RegistriesService } from './registries.service';
+import { RegistriesController } from './registries.controller';
+import { StoreModule } from '../store/store.module';
+import { SecretsModule } from '../secrets/secrets.module';
+
+@Module({
+  imports: [StoreModule, SecretsModule],
+  controllers: [RegistriesController],
+  providers: [RegistriesService],
+  exports: [RegistriesService], // Usado por deploy para autenticar las descargas de imágenes
+})
+export class RegistriesModule {}
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RegistriesService } from './registries.service';
+import { getImageRegistryHost } from './registry-host.util';
+import { fetchRemoteImageSize } from './registry-manifest.util';
+import { StoreService } from '../store/store.service';
+import { CipherService } from '../secrets/cipher.service';
+
+describe('RegistriesService', () => {
+  let service: RegistriesService;
+  let dataDir: string;
+  let config: Record<string, string>;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    config = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      SECRETS_ENCRYPTION_KEY: 'clave-de-pruebas-suficientemente-larga',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegistriesService,
+        StoreService,
+        CipherService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RegistriesService>(RegistriesService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should read the registry host from the image reference', () => {
+    expect(getImageRegistryHost('nginx')).toBe('docker.io');
+    expect(getImageRegistryHost('usuario/app:v1')).toBe('docker.io');
+    expect(getImageRegistryHost('ghcr.io/org/app:v1')).toBe('ghcr.io');
+    expect(getImageRegistryHost('localhost:5000/app@sha256:abc')).toBe(
+      'localhost:5000',
+    );
+    expect(getImageRegistryHost('index.docker.io/usuario/app')).toBe(
+      'docker.io',
+    );
+  });
+
+  it('should pick the credentials of the image registry host', async () => {
+    service.create('local', {
+      url: 'http://localhost:5000/',
+      username: 'test',
+      password: 'secreto',
+    });
+    service.create('github', {
+      url: 'ghcr.io',
+      username: 'org',
+      password: 'ghp_token',
+    });
+
+    await expect(service.resolveAuth('localhost:5000/app:v1')).resolves.toEqual(
+      {
+        username: 'test',
+        password: 'secreto',
+        serveraddress: 'localhost:5000',
+      },
+    );
+    await expect(service.resolveAuth('usuario/app')).resolves.toBeUndefined();
+    expect(service.list()).toEqual([
+      expect.objectContaining({ name: 'github', hasPassword: true }),
+      expect.objectContaining({ name: 'local', host: 'localhost:5000' }),
+    ]);
+    expect(
+      fs.readFileSync(path.join(dataDir, 'registries.json'), 'utf8'),
+    ).not.toContain('secreto');
+  });
+
+  it('should fall back to the Docker Hub environment credentials', async () => {
+    config.DOCKERHUB_USERNAME = 'usuario';
+    config.DOCKERHUB_TOKEN = 'dckr_token';
+
+    await expect(service.resolveAuth('usuario/app')).resolves.toEqual({
+      username: 'usuario',
+      password: 'dckr_token',
+      serveraddress: 'https://index.docker.io/v1/',
+    });
+  });
+
+  it('should request and cache ECR tokens', async () => {
+    const token = Buffer.from('AWS:ecr-password').toString('base64');
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          authorizationData: [
+            {
+              authorizationToken: token,
+              expiresAt: Date.now() / 1000 + 12 * 3600,
+            },
+          ],
+        }),
+      ),
+    );
+
+    service.create('ecr', {
+      url: '123456789012.dkr.ecr.eu-west-1.amazonaws.com',
+      ecr: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' },
+    });
+    const image = '123456789012.dkr.ecr.eu-west-1.amazonaws.com/app:v1';
+
+    await expect(service.resolveAuth(image)).resolves.toEqual({
+      username: 'AWS',
+      password: 'ecr-password',
+      serveraddress: 'https://123456789012.dkr.ecr.eu-west-1.amazonaws.com',
+    });
+    await service.resolveAuth(image);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.ecr.eu-west-1.amazonaws.com/');
+    expect((init?.headers as Record<string, string>).authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/ecr\/aws4_request/,
+    );
+  });
+
+  it('should read the compressed image size from the registry manifest before pulling', async () => {
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 401,
+          headers: {
+            'www-authenticate':
+              'Bearer realm="https://auth.docker.io/token",service="registry.docker.io",scope="repository:library/redis:pull"',
+          },
+        }),
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'hub' })))
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            manifests: [
+              {
+                digest: 'sha256:arm',
+                platform: { os: 'linux', architecture: 'arm64' },
+              },
+              {
+                digest: 'sha256:amd',
+                platform: { os: 'linux', architecture: 'amd64' },
+              },
+            ],
+          }),
+        ),
+      )
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 401,
+          headers: {
+            'www-authenticate':
+              'Bearer realm="https://auth.docker.io/token",service="registry.docker.io"',
+          },
+        }),
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'hub' })))
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            config: { size: 1000 },
+            layers: [{ size: 20000 }, { size: 300 }],
+          }),
+        ),
+      );
+
+    await expect(
+      fetchRemoteImageSize('redis:7', undefined, 'amd64'),
+    ).resolves.toBe(21300);
+
+    const urls = fetchMock.mock.calls.map(([url]) => url as string);
+    expect(urls[0]).toBe(
+      'https://registry-1.docker.io/v2/library/redis/manifests/7',
+    );
+    expect(urls[1]).toBe(
+      'https://auth.docker.io/token?service=registry.docker.io&scope=repository%3Alibrary%2Fredis%3Apull',
+    );
+    expect(urls[5]).toBe(
+      'https://registry-1.docker.io/v2/library/redis/manifests/sha256:amd',
+    );
+    expect(
+      (fetchMock.mock.calls[5][1]?.headers as Record<string, string>)
+        .Authorization,
+    ).toBe('Bearer hub');
+
+    // Sin respuesta del registro, el tamaño sólo se conoce tras la descarga
+    fetchMock.mockRejectedValueOnce(new Error('timeout'));
+    await expect(service.getRemoteImageSize('usuario/app:v1')).resolves.toBe(
+      null,
+    );
+  });
+
+  it('should reject a second registry for the same host', () => {
+    service.create('github', { url: 'ghcr.io', username: 'a', password: 'b' });
+
+    expect(() =>
+      service.create('github-2', {
+        url: 'https://ghcr.io',
+        username: 'a',
+        password: 'b',
+      }),
+    ).toThrow('El registro github ya usa el host ghcr.io');
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StoreService } from '../store/store.service';
+import { CipherService } from '../secrets/cipher.service';
+import {
+  DockerAuthConfig,
+  RegistryInput,
+  RegistryRecord,
+} from './registries.types';
+import {
+  DOCKER_HUB_HOST,
+  getEcrRegion,
+  getImageRegistryHost,
+  getServerAddress,
+  normalizeRegistryHost,
+} from './registry-host.util';
+import {
+  EcrAuthorizationToken,
+  getEcrAuthorizationToken,
+} from './ecr-auth.util';
+import { fetchRemoteImageSize } from './registry-manifest.util';
+
+const COLLECTION = 'registries';
+const NAME_PATTERN = /^[a-z0-9-]+$/;
+// Margen antes de la caducidad del token de ECR para pedir uno nuevo
+const ECR_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+type RegistryMap = Record<string, RegistryRecord>;
+
+/**
+ * Credenciales de los registros de imágenes (Docker Hub, GHCR, ECR, registros propios)
+ * Cada descarga usa la credencial del host que aparece en la referencia de la imagen.
+ * Los tokens y contraseñas se guardan cifrados y los tokens de ECR se renuevan al caducar.
+ */
+@Injectable()
+export class RegistriesService {
+  private readonly logger = new Logger(RegistriesService.name);
+  // Tokens de ECR vigentes por nombre de registro (sólo en memoria)
+  private readonly ecrTokens = new Map<string, EcrAuthorizationToken>();
+
+  constructor(
+    private store: StoreService,
+    private cipher: CipherService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Registros guardados (sin contraseñas ni claves)
+   */
+  list() {
+    return Object.values(this.readAll())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => this.describe(record));
+  }
+
+  get(name: string) {
+    return this.describe(this.getRecord(name));
+  }
+
+  /**
+   * Crea un registro
+   */
+  create(name: string, input: RegistryInput) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'El nombre del registro solo permite letras minúsculas, números y guiones (-).',
+      );
+    }
+    if (this.readAll()[name]) {
+      throw new ConflictException(`El registro ${name} ya existe`);
+    }
+
+    return this.save(name, input, null);
+  }
+
+  /**
+   * Actualiza un registro
+   * Las contraseñas y claves omitidas conservan su valor actual
+   */
+  update(name: string, input: RegistryInput) {
+    return this.save(name, input, this.getRecord(name));
+  }
+
+  remove(name: string) {
+    this.getRecord(name);
+    this.store.update<RegistryMap>(COLLECTION, {}, (all) => {
+      delete all[name];
+    });
+    this.ecrTokens.delete(name);
+    this.logger.log(`Registro ${name} eliminado`);
+    return { success: true, name };
+  }
+
+  /**
+   * Autenticación para descargar una imagen, elegida por el host de su referencia
+   * Docker Hub sin registro guardado usa DOCKERHUB_USERNAME y DOCKERHUB_TOKEN
+   * @returns undefined si no hay credenciales para el host (descarga anónima)
+   */
+  async resolveAuth(imageRef: string): Promise<DockerAuthConfig | undefined> {
+    const host = getImageRegistryHost(imageRef);
+    const record = Object.values(this.readAll()).find(
+      (item) => item.host === host,
+    );
+
+    if (record) {
+      this.logger.log(
+        `Usando las credenciales del registro ${record.name} (${host})`,
+      );
+      return record.authType === 'ecr'
+        ? this.getEcrAuth(record)
+        : {
+            username: record.username ?? '',
+            password: this.cipher.decrypt(record.password ?? ''),
+            serveraddress: getServerAddress(host),
+          };
+    }
+
+    if (host === DOCKER_HUB_HOST) {
+      const username = this.configService.get<string>('DOCKERHUB_USERNAME');
+      const token = this.configService.get<string>('DOCKERHUB_TOKEN');
+      if (username && token) {
+        this.logger.log('Usando credenciales de Docker Hub para autenticación');
+        return {
+          username,
+          password: token,
+          serveraddress: getServerAddress(host),
+        };
+      }
+    }
+
+    this.logger.warn(
+      `No hay credenciales para ${host}. Intentando pull sin autenticación (puede fallar para imágenes privadas)...`,
+    );
+    return undefined;
+  }
+
+  /**
+   * Tamaño comprimido de una imagen según el manifest de su registro, sin descargarla
+   * @returns null si el registro no lo informa (la imagen sólo se puede medir tras la descarga)
+   */
+  async getRemoteImageSize(imageRef: string): Promise<number | null> {
+    try {
+      return await fetchRemoteImageSize(
+        imageRef,
+        await this.resolveAuth(imageRef),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo consultar el tamaño de ${imageRef} en el registro: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Token de ECR vigente; se pide uno nuevo si no existe o está a punto de caducar
+   */
+  private async getEcrAuth(record: RegistryRecord): Promise<DockerAuthConfig> {
+    let token = this.ecrTokens.get(record.name);
+
+    if (
+      !token ||
+      token.expiresAt.getTime() - Date.now() < ECR_REFRESH_MARGIN_MS
+    ) {
+      const ecr = record.ecr;
+      const accessKeyId =
+        ecr?.accessKeyId || this.configService.get<string>('AWS_ACCESS_KEY_ID');
+      const secretAccessKey = ecr?.secretAccessKey
+        ? this.cipher.decrypt(ecr.secretAccessKey)
+        : this.configService.get<string>('AWS_SECRET_ACCESS_KEY');
+      const sessionToken = ecr?.sessionToken
+        ? this.cipher.decrypt(ecr.sessionToken)
+        : this.configService.get<string>('AWS_SESSION_TOKEN');
+      const region = ecr?.region || getEcrRegion(record.host);
+
+      if (!accessKeyId || !secretAccessKey || !region) {
+        throw new BadRequestException(
+          `El registro ${record.name} no tiene credenciales de AWS. ` +
+            'Indícalas en el registro o configura AWS_ACCESS_KEY_ID y AWS_SECRET_ACCESS_KEY',
+        );
+      }
+
+      this.logger.log(`Renovando el token de ECR de ${record.name}`);
+      try {
+        token = await getEcrAuthorizationToken({
+          region,
+          accessKeyId,
+          secretAccessKey,
+          sessionToken: sessionToken || undefined,
+        });
+      } catch (error) {
+        throw new BadRequestException(
+          `No se pudo obtener el token de ECR de ${record.name}: ${(error as Error).message}`,
+        );
+      }
+      this.ecrTokens.set(record.name, token);
+    }
+
+    return {
+      username: token.username,
+      password: token.password,
+      serveraddress: `https://${record.host}`,
+    };
+  }
+
+  private save(
+    name: string,
+    input: RegistryInput,
+    current: RegistryRecord | null,
+  ) {
+    const host = normalizeRegistryHost(input.url);
+    if (!host) {
+      throw new BadRequestException(`URL de registro inválida: ${input.url}`);
+    }
+
+    const duplicate = Object.values(this.readAll()).find(
+      (item) => item.host === host && item.name !== name,
+    );
+    if (duplicate) {
+      throw new ConflictException(
+        `El registro ${duplicate.name} ya usa el host ${host}`,
+      );
+    }
+
+    const authType =
+      input.authType ??
+      current?.authType ??
+      (getEcrRegion(host) ? 'ecr' : 'basic');
+    const now = new Date().toISOString();
+    const record: RegistryRecord = {
+      name,
+      host,
+      authType,
+      username: null,
+      password: null,
+      ecr: null,
+      createdAt: current?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    if (authType === 'basic') {
+      record.username = input.username ?? current?.username ?? null;
+      record.password = input.password
+        ? this.cipher.encrypt(input.password)
+        : (current?.password ?? null);
+
+      if (!record.username || !record.password) {
+        throw new BadRequestException(
+          'Los registros con autenticación basic necesitan username y password (o token)',
+        );
+      }
+    } else {
+      const region =
+        input.ecr?.region ?? current?.ecr?.region ?? getEcrRegion(host);
+      if (!region) {
+        throw new BadRequestException(
+          `No se pudo deducir la región de ECR de ${host}. Indícala en ecr.region`,
+        );
+      }
+
+      record.ecr = {
+        region,
+        accessKeyId:
+          input.ecr?.accessKeyId ?? current?.ecr?.accessKeyId ?? null,
+        secretAccessKey: input.ecr?.secretAccessKey
+          ? this.cipher.encrypt(input.ecr.secretAccessKey)
+          : (current?.ecr?.secretAccessKey ?? null),
+        sessionToken: input.ecr?.sessionToken
+          ? this.cipher.encrypt(input.ecr.sessionToken)
+          : (current?.ecr?.sessionToken ?? null),
+      };
+
+      if (!record.ecr.accessKeyId !== !record.ecr.secretAccessKey) {
+        throw new BadRequestException(
+          'Las credenciales de ECR necesitan accessKeyId y secretAccessKey a la vez',
+        );
+      }
+    }
+
+    this.store.update<RegistryMap>(COLLECTION, {}, (all) => {
+      all[name] = record;
+    });
+    // Las credenciales pueden haber cambiado: el próximo pull pide un token nuevo
+    this.ecrTokens.delete(name);
+
+    this.logger.log(
+      `Registro ${name} ${current ? 'actualizado' : 'creado'} (${host}, ${authType})`,
+    );
+    return this.describe(record);
+  }
+
+  private describe(record: RegistryRecord) {
+    return {
+      name: record.name,
+      host: record.host,
+      authType: record.authType,
+      username: record.username,
+      hasPassword: record.password !== null,
+      ecr: record.ecr
+        ? {
+            region: record.ecr.region,
+            accessKeyId: record.ecr.accessKeyId,
+            // Sin claves propias se usan las de AWS del orquestador
+            usesEnvironmentCredentials: record.ecr.accessKeyId === null,
+          }
+        : null,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private getRecord(name: string): RegistryRecord {
+    const record = this.readAll()[name];
+    if (!record) {
+      throw new NotFoundException(`El registro ${name} no existe`);
+    }
+    return record;
+  }
+
+  private readAll(): RegistryMap {
+    return this.store.read<RegistryMap>(COLLECTION, {});
+  }
+}
@@ -0,0 +1,56 @@
+export type RegistryAuthType = 'basic' | 'ecr';
+
+export const REGISTRY_AUTH_TYPES: RegistryAuthType[] = ['basic', 'ecr'];
+
+/**
+ * Credenciales de ECR: con ellas se pide a AWS un token de registro temporal
+ * Si se omiten las claves se usan AWS_ACCESS_KEY_ID y AWS_SECRET_ACCESS_KEY
+ */
+export interface EcrCredentials {
+  region: string;
+  accessKeyId: string | null;
+  // Cifrados con CipherService
+  secretAccessKey: string | null;
+  sessionToken: string | null;
+}
+
+/**
+ * Registro de imágenes guardado (colección `registries`)
+ */
+export interface RegistryRecord {
+  name: string;
+  // Host del registro tal y como aparece en la referencia de la imagen (ghcr.io, localhost:5000...)
+  host: string;
+  authType: RegistryAuthType;
+  username: string | null;
+  // Token o contraseña cifrados con CipherService
+  password: string | null;
+  ecr: EcrCredentials | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Datos de un registro al crearlo o actualizarlo (valores en claro)
+ */
+export interface RegistryInput {
+  url: string;
+  authType?: RegistryAuthType;
+  username?: string;
+  password?: string;
+  ecr?: {
+    region?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+  };
+}
+
+/**
+ * Autenticación que recibe Docker al descargar una imagen
+ */
+export interface DockerAuthConfig {
+  username: string;
+  password: string;
+  serveraddress: string;
+}
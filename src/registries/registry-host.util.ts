@@ -0,0 +1,95 @@
+// Host de Docker Hub y los alias con los que aparece en referencias y URLs
+export const DOCKER_HUB_HOST = 'docker.io';
+const DOCKER_HUB_ALIASES = [
+  'docker.io',
+  'index.docker.io',
+  'registry-1.docker.io',
+  'registry.hub.docker.com',
+];
+
+// Registro ficticio de las imágenes construidas en el host: `orchestrator.local/<subdominio>:<build>`
+// Nunca se descargan ni se suben a ningún registro
+export const LOCAL_BUILD_HOST = 'orchestrator.local';
+
+// <cuenta>.dkr.ecr.<región>.amazonaws.com
+const ECR_HOST_PATTERN =
+  /^\d{12}\.dkr\.ecr(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com$/;
+
+/**
+ * Normaliza el host de un registro: sin esquema, sin ruta y en minúsculas
+ * Los alias de Docker Hub se reducen a `docker.io`
+ */
+export function normalizeRegistryHost(url: string): string {
+  const host = url
+    .trim()
+    .replace(/^[a-z]+:\/\//i, '')
+    .split('/')[0]
+    .toLowerCase();
+
+  return DOCKER_HUB_ALIASES.includes(host) ? DOCKER_HUB_HOST : host;
+}
+
+export interface ImageReference {
+  // Host del registro (docker.io para Docker Hub)
+  host: string;
+  // Ruta del repositorio sin el host; las imágenes oficiales de Docker Hub llevan `library/`
+  repository: string;
+  tag: string | null;
+  digest: string | null;
+}
+
+/**
+ * Descompone una referencia de imagen con las mismas reglas que Docker:
+ * el primer componente es un registro si contiene un punto o un puerto, o si es `localhost`;
+ * en otro caso la imagen es de Docker Hub
+ * @example parseImageReference('ghcr.io/org/app:v1') // { host: 'ghcr.io', repository: 'org/app', tag: 'v1', digest: null }
+ */
+export function parseImageReference(imageRef: string): ImageReference {
+  const at = imageRef.indexOf('@');
+  const digest = at === -1 ? null : imageRef.slice(at + 1);
+  let name = at === -1 ? imageRef : imageRef.slice(0, at);
+
+  // El tag va tras los dos puntos del último componente (no del puerto del registro)
+  let tag: string | null = null;
+  const colon = name.lastIndexOf(':');
+  if (colon > name.lastIndexOf('/')) {
+    tag = name.slice(colon + 1);
+    name = name.slice(0, colon);
+  }
+
+  let host = DOCKER_HUB_HOST;
+  const slash = name.indexOf('/');
+  const first = slash === -1 ? '' : name.slice(0, slash);
+  if (first.includes('.') || first.includes(':') || first === 'localhost') {
+    host = normalizeRegistryHost(first);
+    name = name.slice(slash + 1);
+  }
+
+  const repository =
+    host === DOCKER_HUB_HOST && !name.includes('/') ? `library/${name}` : name;
+
+  return { host, repository, tag, digest };
+}
+
+/**
+ * Host del registro de una referencia de imagen
+ * @example getImageRegistryHost('ghcr.io/org/app:v1') // 'ghcr.io'
+ * @example getImageRegistryHost('usuario/app') // 'docker.io'
+ */
+export function getImageRegistryHost(imageRef: string): string {
+  return parseImageReference(imageRef).host;
+}
+
+/**
+ * Región de AWS de un host de ECR, o null si el host no es de ECR
+ */
+export function getEcrRegion(host: string): string | null {
+  return ECR_HOST_PATTERN.exec(host)?.[1] ?? null;
+}
+
+/**
+ * Dirección del servidor que Docker espera en la autenticación
+ */
+export function getServerAddress(host: string): string {
+  return host === DOCKER_HUB_HOST ? 'https://index.docker.io/v1/' : host;
+}
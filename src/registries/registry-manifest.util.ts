@@ -0,0 +1,148 @@
+import { DockerAuthConfig } from './registries.types';
+import { DOCKER_HUB_HOST, parseImageReference } from './registry-host.util';
+
+const MANIFEST_TIMEOUT_MS = 10000;
+
+const MANIFEST_ACCEPT = [
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+].join(', ');
+
+// Arquitectura de Node → arquitectura de las plataformas de un manifest list
+const ARCHITECTURES: Record<string, string> = {
+  x64: 'amd64',
+  arm64: 'arm64',
+  arm: 'arm',
+  ia32: '386',
+};
+
+interface ImageManifest {
+  config?: { size: number };
+  layers?: { size: number }[];
+  // Sólo en los manifest list / OCI index (imágenes multiplataforma)
+  manifests?: {
+    digest: string;
+    platform?: { os: string; architecture: string };
+  }[];
+}
+
+/**
+ * Tamaño comprimido de una imagen según el manifest del registro (configuración más capas),
+ * sin descargarla. Es una cota inferior del tamaño que ocupará una vez descargada.
+ * En las imágenes multiplataforma se mide la variante linux de la arquitectura del host.
+ * @throws Error si el registro no responde o no devuelve el manifest
+ */
+export async function fetchRemoteImageSize(
+  imageRef: string,
+  auth?: DockerAuthConfig,
+  architecture = ARCHITECTURES[process.arch] ?? process.arch,
+): Promise<number> {
+  const { host, repository, tag, digest } = parseImageReference(imageRef);
+  const baseUrl = `https://${host === DOCKER_HUB_HOST ? 'registry-1.docker.io' : host}/v2/${repository}/manifests/`;
+
+  let manifest = await fetchManifest(
+    baseUrl + (digest ?? tag ?? 'latest'),
+    repository,
+    auth,
+  );
+  if (manifest.manifests) {
+    const variant = manifest.manifests.find(
+      ({ platform }) =>
+        platform?.os === 'linux' && platform.architecture === architecture,
+    );
+    if (!variant) {
+      throw new Error(
+        `${imageRef} no tiene variante para linux/${architecture}`,
+      );
+    }
+    manifest = await fetchManifest(baseUrl + variant.digest, repository, auth);
+  }
+
+  return (
+    (manifest.config?.size ?? 0) +
+    (manifest.layers ?? []).reduce((total, layer) => total + layer.size, 0)
+  );
+}
+
+/**
+ * GET del manifest con el flujo de autenticación de los registros:
+ * si responde 401, se repite con Basic o con el token Bearer que indique WWW-Authenticate
+ */
+async function fetchManifest(
+  url: string,
+  repository: string,
+  auth?: DockerAuthConfig,
+): Promise<ImageManifest> {
+  const request = (authorization?: string) =>
+    fetch(url, {
+      headers: {
+        Accept: MANIFEST_ACCEPT,
+        ...(authorization ? { Authorization: authorization } : {}),
+      },
+      signal: AbortSignal.timeout(MANIFEST_TIMEOUT_MS),
+    });
+
+  let response = await request();
+  const challenge = response.headers.get('www-authenticate');
+  if (response.status === 401 && challenge) {
+    response = await request(
+      await getAuthorization(challenge, repository, auth),
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(`El registro respondió ${response.status} para ${url}`);
+  }
+  return (await response.json()) as ImageManifest;
+}
+
+async function getAuthorization(
+  challenge: string,
+  repository: string,
+  auth?: DockerAuthConfig,
+): Promise<string | undefined> {
+  const basic = auth
+    ? `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`
+    : undefined;
+  if (!/^Bearer /i.test(challenge)) {
+    return basic;
+  }
+
+  // Bearer realm="https://auth.docker.io/token",service="registry.docker.io",scope="repository:...:pull"
+  const params = Object.fromEntries(
+    [...challenge.matchAll(/(\w+)="([^"]*)"/g)].map(([, key, value]) => [
+      key,
+      value,
+    ]),
+  );
+  if (!params.realm) {
+    throw new Error(`Desafío de autenticación sin realm: ${challenge}`);
+  }
+
+  const tokenUrl = new URL(params.realm);
+  if (params.service) {
+    tokenUrl.searchParams.set('service', params.service);
+  }
+  tokenUrl.searchParams.set(
+    'scope',
+    params.scope ?? `repository:${repository}:pull`,
+  );
+
+  const response = await fetch(tokenUrl.href, {
+    headers: basic ? { Authorization: basic } : {},
+    signal: AbortSignal.timeout(MANIFEST_TIMEOUT_MS),
+  });
+  const payload = (await response.json().catch(() => ({}))) as {
+    token?: string;
+    access_token?: string;
+  };
+  const token = payload.token ?? payload.access_token;
+  if (!response.ok || !token) {
+    throw new Error(
+      `No se pudo obtener el token del registro (${response.status})`,
+    );
+  }
+  return `Bearer ${token}`;
+}
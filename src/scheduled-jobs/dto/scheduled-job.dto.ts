@@ -0,0 +1,133 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ResourceLimitsDto } from '../../deploy/dto/resource-limits.dto';
+
+export class UpdateScheduledJobDto {
+  @ApiProperty({
+    example: 'usuario/backup:latest',
+    description:
+      'Imagen de Docker de la tarea (obligatoria al crear). Se aplica la misma política de imágenes que a los despliegues',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  imageName?: string;
+
+  @ApiProperty({
+    example: ['node', 'scripts/backup.js'],
+    description: 'Comando a ejecutar. Si se omite, se usa el CMD de la imagen',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  command?: string[];
+
+  @ApiProperty({
+    example: { BACKUP_BUCKET: 'backups' },
+    description: 'Variables de entorno del contenedor',
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  env?: Record<string, string>;
+
+  @ApiProperty({
+    example: '0 3 * * *',
+    description:
+      'Expresión cron (minuto hora día mes día-de-la-semana; admite un sexto campo inicial de segundos). Obligatoria al crear',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  schedule?: string;
+
+  @ApiProperty({
+    example: 'Europe/Madrid',
+    description:
+      'Zona horaria IANA de la expresión cron. Por defecto, la del servidor',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  timezone?: string;
+
+  @ApiProperty({
+    example: 600,
+    description:
+      'Tiempo máximo de ejecución en segundos; al superarlo el contenedor se detiene. ' +
+      'Por defecto SCHEDULED_JOBS_TIMEOUT_SECONDS (3600)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(86400)
+  timeoutSeconds?: number;
+
+  @ApiProperty({
+    example: 'tienda',
+    description:
+      'Grupo de red privada al que se une el contenedor (para llegar a los servicios por su subdominio). ' +
+      'Sin grupo, se une a la red común del orquestador',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z0-9-]+$/, {
+    message:
+      'El grupo de red solo permite letras minúsculas, números y guiones (-).',
+  })
+  network?: string;
+
+  @ApiProperty({
+    type: ResourceLimitsDto,
+    description:
+      'Límites de CPU, memoria y procesos del contenedor (la política de reinicio se ignora: las tareas no se reinician)',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ResourceLimitsDto)
+  resources?: ResourceLimitsDto;
+
+  @ApiProperty({
+    example: true,
+    description:
+      'false pausa la programación (la tarea sólo se puede ejecutar a mano). Por defecto true',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class CreateScheduledJobDto extends UpdateScheduledJobDto {
+  @ApiProperty({
+    example: 'backup-nocturno',
+    description: 'Nombre de la tarea (letras minúsculas, números y guiones)',
+  })
+  @IsString()
+  @Matches(/^[a-z0-9-]+$/, {
+    message:
+      'El nombre de la tarea solo permite letras minúsculas, números y guiones (-).',
+  })
+  name: string;
+}
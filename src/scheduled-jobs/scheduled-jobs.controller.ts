@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScheduledJobsService } from './scheduled-jobs.service';
+import {
+  CreateScheduledJobDto,
+  UpdateScheduledJobDto,
+} from './dto/scheduled-job.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+@ApiTags('scheduled-jobs')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('jobs/scheduled')
+export class ScheduledJobsController {
+  constructor(private readonly scheduledJobsService: ScheduledJobsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary:
+      'Listar las tareas programadas con su próxima y su última ejecución',
+  })
+  list() {
+    return this.scheduledJobsService.list();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Crear una tarea programada',
+    description:
+      'El orquestador lanza un contenedor efímero con la imagen y el comando indicados según la expresión cron. ' +
+      'Si la ejecución anterior sigue en curso, la nueva se registra como omitida (skipped).',
+  })
+  @ApiResponse({ status: 201, description: 'Tarea creada y programada' })
+  @ApiResponse({
+    status: 400,
+    description: 'Expresión cron o zona horaria inválida',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya existe una tarea con ese nombre',
+  })
+  create(@Body() createScheduledJobDto: CreateScheduledJobDto) {
+    const { name, ...input } = createScheduledJobDto;
+    return this.scheduledJobsService.create(name, input);
+  }
+
+  @Get(':name')
+  @ApiOperation({ summary: 'Detalle de una tarea programada' })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiResponse({ status: 404, description: 'La tarea no existe' })
+  get(@Param('name') name: string) {
+    return this.scheduledJobsService.get(name);
+  }
+
+  @Put(':name')
+  @ApiOperation({
+    summary: 'Actualizar una tarea programada',
+    description:
+      'Los campos omitidos conservan su valor. La nueva programación se aplica al momento',
+  })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiResponse({ status: 404, description: 'La tarea no existe' })
+  update(
+    @Param('name') name: string,
+    @Body() updateScheduledJobDto: UpdateScheduledJobDto,
+  ) {
+    return this.scheduledJobsService.update(name, updateScheduledJobDto);
+  }
+
+  @Delete(':name')
+  @ApiOperation({
+    summary: 'Eliminar una tarea programada y su historial de ejecuciones',
+  })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiResponse({ status: 404, description: 'La tarea no existe' })
+  remove(@Param('name') name: string) {
+    return this.scheduledJobsService.remove(name);
+  }
+
+  @Get(':name/runs')
+  @ApiOperation({
+    summary:
+      'Ejecuciones de una tarea (de la más reciente a la más antigua, sin logs)',
+  })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiResponse({ status: 404, description: 'La tarea no existe' })
+  listRuns(@Param('name') name: string) {
+    return this.scheduledJobsService.listRuns(name);
+  }
+
+  @Get(':name/runs/:runId')
+  @ApiOperation({
+    summary: 'Detalle de una ejecución con su código de salida y sus logs',
+  })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiParam({ name: 'runId', description: 'ID de la ejecución' })
+  @ApiResponse({
+    status: 404,
+    description: 'La tarea o la ejecución no existen',
+  })
+  getRun(
+    @Param('name') name: string,
+    @Param('runId', ParseUUIDPipe) runId: string,
+  ) {
+    return this.scheduledJobsService.getRun(name, runId);
+  }
+
+  @Post(':name/run')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Ejecutar una tarea ahora, fuera de su programación',
+    description:
+      'Devuelve la ejecución creada y el trabajo que la ejecuta (progreso en GET /jobs/:id/events)',
+  })
+  @ApiParam({ name: 'name', example: 'backup-nocturno' })
+  @ApiResponse({ status: 202, description: 'Ejecución encolada' })
+  @ApiResponse({ status: 404, description: 'La tarea no existe' })
+  @ApiResponse({
+    status: 409,
+    description: 'La tarea ya tiene una ejecución en curso',
+  })
+  run(@Param('name') name: string) {
+    return this.scheduledJobsService.trigger(name, 'manual');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ScheduledJobsService } from './scheduled-jobs.service';
+import { ScheduledJobsController } from './scheduled-jobs.controller';
+import { DeployModule } from '../deploy/deploy.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StoreModule } from '../store/store.module';
+
+@Module({
+  imports: [DeployModule, JobsModule, StoreModule], // DeployModule lanza los contenedores de las tareas
+  controllers: [ScheduledJobsController],
+  providers: [ScheduledJobsService],
+})
+export class ScheduledJobsModule {}
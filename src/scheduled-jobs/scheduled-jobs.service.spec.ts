@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScheduledJobsService } from './scheduled-jobs.service';
+import { StoreService } from '../store/store.service';
+import { DeployService } from '../deploy/deploy.service';
+import { JobsService } from '../jobs/jobs.service';
+import { EnqueueJobOptions, JobContext } from '../jobs/jobs.types';
+
+describe('ScheduledJobsService', () => {
+  let service: ScheduledJobsService;
+  let schedulerRegistry: SchedulerRegistry;
+  let dataDir: string;
+  let enqueued: EnqueueJobOptions<unknown>[];
+  const runTaskContainer = jest.fn();
+  const context: JobContext = {
+    id: 'job-1',
+    step: jest.fn(),
+    progress: jest.fn(),
+    log: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = { ORCHESTRATOR_DATA_DIR: dataDir };
+    enqueued = [];
+    runTaskContainer.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledJobsService,
+        StoreService,
+        SchedulerRegistry,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: DeployService, useValue: { runTaskContainer } },
+        {
+          provide: JobsService,
+          useValue: {
+            enqueue: (options: EnqueueJobOptions<unknown>) => {
+              enqueued.push(options);
+              return { id: `job-${enqueued.length}` };
+            },
+            toReference: (job: { id: string }) => ({ jobId: job.id }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScheduledJobsService>(ScheduledJobsService);
+    schedulerRegistry = module.get<SchedulerRegistry>(SchedulerRegistry);
+  });
+
+  afterEach(() => {
+    schedulerRegistry.getCronJobs().forEach((cron) => void cron.stop());
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should schedule the job and reject invalid cron expressions', () => {
+    const job = service.create('backup', {
+      imageName: 'usuario/backup:v1',
+      schedule: '0 3 * * *',
+      timezone: 'Europe/Madrid',
+    });
+
+    expect(job.nextRunAt).not.toBeNull();
+    expect(job.timeoutSeconds).toBe(3600);
+    expect(schedulerRegistry.doesExist('cron', 'scheduled-job:backup')).toBe(
+      true,
+    );
+
+    expect(() =>
+      service.create('roto', { imageName: 'app', schedule: '99 * * * *' }),
+    ).toThrow(BadRequestException);
+
+    service.update('backup', { enabled: false });
+    expect(schedulerRegistry.doesExist('cron', 'scheduled-job:backup')).toBe(
+      false,
+    );
+  });
+
+  it('should skip scheduled runs while the previous one is still running', async () => {
+    service.create('backup', {
+      imageName: 'usuario/backup:v1',
+      schedule: '0 3 * * *',
+    });
+
+    const first = service.trigger('backup', 'manual');
+    expect(first.run.status).toBe('queued');
+    expect(first.job).toEqual({ jobId: 'job-1' });
+
+    expect(service.trigger('backup', 'schedule').run.status).toBe('skipped');
+    expect(() => service.trigger('backup', 'manual')).toThrow(
+      ConflictException,
+    );
+    expect(enqueued).toHaveLength(1);
+
+    runTaskContainer.mockResolvedValue({
+      containerName: 'task-backup-1',
+      exitCode: 0,
+      timedOut: false,
+      durationMs: 1200,
+      logs: ['Copia terminada'],
+    });
+    await enqueued[0].run(context);
+
+    expect(service.getRun('backup', first.run.id)).toMatchObject({
+      status: 'succeeded',
+      exitCode: 0,
+      durationMs: 1200,
+      logs: ['Copia terminada'],
+    });
+    expect(service.listRuns('backup').map((run) => run.status)).toEqual([
+      'skipped',
+      'succeeded',
+    ]);
+    expect(service.trigger('backup', 'schedule').run.status).toBe('queued');
+  });
+
+  it('should record the runs that exceed the timeout', async () => {
+    service.create('informe', {
+      imageName: 'usuario/informe:v1',
+      schedule: '*/5 * * * *',
+      timeoutSeconds: 60,
+    });
+
+    const { run } = service.trigger('informe', 'manual');
+    runTaskContainer.mockResolvedValue({
+      containerName: 'task-informe-1',
+      exitCode: null,
+      timedOut: true,
+      durationMs: 60000,
+      logs: [],
+    });
+
+    await expect(enqueued[0].run(context)).rejects.toThrow(
+      'Tiempo máximo de ejecución superado (60s)',
+    );
+    expect(runTaskContainer).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'informe', timeoutSeconds: 60 }),
+      context,
+    );
+    expect(service.getRun('informe', run.id)).toMatchObject({
+      status: 'timeout',
+      exitCode: null,
+    });
+    expect(service.get('informe').running).toBe(false);
+  });
+});
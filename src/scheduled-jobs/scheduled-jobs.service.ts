@@ -0,0 +1,450 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { randomUUID } from 'crypto';
+import { StoreService } from '../store/store.service';
+import { DeployService } from '../deploy/deploy.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobContext, JobReference } from '../jobs/jobs.types';
+import {
+  ScheduledJobInput,
+  ScheduledJobRecord,
+  ScheduledJobRun,
+  ScheduledRunTrigger,
+} from './scheduled-jobs.types';
+
+const JOBS_COLLECTION = 'scheduled-jobs';
+const RUNS_COLLECTION = 'scheduled-job-runs';
+const NAME_PATTERN = /^[a-z0-9-]+$/;
+
+type ScheduledJobMap = Record<string, ScheduledJobRecord>;
+// Ejecuciones por tarea, de la más reciente a la más antigua
+type ScheduledRunMap = Record<string, ScheduledJobRun[]>;
+
+/**
+ * Tareas programadas: contenedores efímeros que se lanzan según una expresión cron
+ * (copias de seguridad, limpiezas, informes...). Cada ejecución guarda su código de
+ * salida, duración y logs. Una tarea nunca se solapa consigo misma: si la anterior
+ * sigue en curso, la ejecución programada se registra como omitida.
+ */
+@Injectable()
+export class ScheduledJobsService implements OnModuleInit {
+  private readonly logger = new Logger(ScheduledJobsService.name);
+  // Tareas con una ejecución en cola o en curso
+  private readonly active = new Set<string>();
+  private readonly defaultTimeoutSeconds: number;
+  private readonly historyLimit: number;
+
+  constructor(
+    private store: StoreService,
+    private configService: ConfigService,
+    private schedulerRegistry: SchedulerRegistry,
+    private jobsService: JobsService,
+    private deployService: DeployService,
+  ) {
+    this.defaultTimeoutSeconds = Number(
+      this.configService.get('SCHEDULED_JOBS_TIMEOUT_SECONDS') || 3600,
+    );
+    this.historyLimit = Number(
+      this.configService.get('SCHEDULED_JOBS_RUN_HISTORY') || 50,
+    );
+  }
+
+  /**
+   * Programa las tareas guardadas y cierra las ejecuciones que un reinicio dejó a medias
+   */
+  onModuleInit() {
+    const interrupted = new Date().toISOString();
+    this.store.update<ScheduledRunMap>(RUNS_COLLECTION, {}, (all) => {
+      for (const runs of Object.values(all)) {
+        for (const run of runs) {
+          if (run.status === 'queued' || run.status === 'running') {
+            run.status = 'failed';
+            run.finishedAt = interrupted;
+            run.error =
+              'Ejecución interrumpida por un reinicio del orquestador';
+          }
+        }
+      }
+    });
+
+    for (const record of Object.values(this.readAll())) {
+      this.register(record);
+    }
+  }
+
+  list() {
+    return Object.values(this.readAll())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => this.describe(record));
+  }
+
+  get(name: string) {
+    return this.describe(this.getRecord(name));
+  }
+
+  create(name: string, input: ScheduledJobInput) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'El nombre de la tarea solo permite letras minúsculas, números y guiones (-).',
+      );
+    }
+    if (this.readAll()[name]) {
+      throw new ConflictException(`La tarea programada ${name} ya existe`);
+    }
+
+    return this.save(name, input, null);
+  }
+
+  /**
+   * Actualiza una tarea; los campos omitidos conservan su valor
+   * La nueva programación se aplica al momento (una ejecución en curso no se interrumpe)
+   */
+  update(name: string, input: ScheduledJobInput) {
+    return this.save(name, input, this.getRecord(name));
+  }
+
+  /**
+   * Elimina la tarea y su historial de ejecuciones
+   */
+  remove(name: string) {
+    this.getRecord(name);
+    this.unregister(name);
+    this.store.update<ScheduledJobMap>(JOBS_COLLECTION, {}, (all) => {
+      delete all[name];
+    });
+    this.store.update<ScheduledRunMap>(RUNS_COLLECTION, {}, (all) => {
+      delete all[name];
+    });
+    this.logger.log(`Tarea programada ${name} eliminada`);
+    return { success: true, name };
+  }
+
+  /**
+   * Ejecuciones de una tarea (sin logs), de la más reciente a la más antigua
+   */
+  listRuns(name: string) {
+    this.getRecord(name);
+    return this.readRuns(name).map(({ logs, ...run }) => ({
+      ...run,
+      logLines: logs.length,
+    }));
+  }
+
+  getRun(name: string, runId: string): ScheduledJobRun {
+    this.getRecord(name);
+    const run = this.readRuns(name).find((item) => item.id === runId);
+    if (!run) {
+      throw new NotFoundException(
+        `La ejecución ${runId} de la tarea ${name} no existe`,
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Lanza una ejecución de la tarea
+   * Si hay otra en curso, la manual se rechaza (409) y la programada se registra como omitida
+   */
+  trigger(
+    name: string,
+    trigger: ScheduledRunTrigger,
+  ): { run: ScheduledJobRun; job: JobReference | null } {
+    const record = this.getRecord(name);
+    const now = new Date().toISOString();
+
+    if (this.active.has(name)) {
+      if (trigger === 'manual') {
+        throw new ConflictException(
+          `La tarea ${name} ya tiene una ejecución en curso`,
+        );
+      }
+
+      this.logger.warn(
+        `Ejecución programada de ${name} omitida: la anterior sigue en curso`,
+      );
+      const skipped = this.addRun({
+        ...this.newRun(record, trigger, now),
+        status: 'skipped',
+        finishedAt: now,
+        durationMs: 0,
+        error: 'La ejecución anterior seguía en curso',
+      });
+      return { run: skipped, job: null };
+    }
+
+    this.active.add(name);
+    const run = this.addRun(this.newRun(record, trigger, now));
+    const job = this.jobsService.enqueue({
+      type: 'scheduled-job',
+      key: `scheduled:${name}`,
+      description: `Ejecutar la tarea programada ${name} (${trigger === 'manual' ? 'manual' : 'cron'})`,
+      run: (context) => this.execute(record, run.id, context),
+    });
+
+    return {
+      run: this.updateRun(name, run.id, { jobId: job.id }),
+      job: this.jobsService.toReference(job),
+    };
+  }
+
+  private async execute(
+    record: ScheduledJobRecord,
+    runId: string,
+    job: JobContext,
+  ): Promise<ScheduledJobRun> {
+    const { name } = record;
+    const startedAt = Date.now();
+    this.updateRun(name, runId, {
+      status: 'running',
+      startedAt: new Date(startedAt).toISOString(),
+    });
+
+    try {
+      const result = await this.deployService.runTaskContainer(
+        {
+          name,
+          imageName: record.imageName,
+          command: record.command,
+          env: Object.entries(record.env).map(
+            ([key, value]) => `${key}=${value}`,
+          ),
+          timeoutSeconds: record.timeoutSeconds,
+          network: record.network ?? undefined,
+          resources: record.resources ?? undefined,
+        },
+        job,
+      );
+
+      let error: string | null = null;
+      if (result.timedOut) {
+        error = `Tiempo máximo de ejecución superado (${record.timeoutSeconds}s)`;
+      } else if (result.exitCode !== 0) {
+        error = `El contenedor terminó con el código de salida ${result.exitCode}`;
+      }
+
+      const run = this.updateRun(name, runId, {
+        status: result.timedOut ? 'timeout' : error ? 'failed' : 'succeeded',
+        containerName: result.containerName,
+        exitCode: result.exitCode,
+        finishedAt: new Date().toISOString(),
+        durationMs: result.durationMs,
+        logs: result.logs,
+        error,
+      });
+
+      if (error) {
+        throw new Error(error);
+      }
+      return run;
+    } catch (error) {
+      // Fallos antes de que el contenedor terminara (política, descarga, arranque...)
+      if (
+        this.readRuns(name).find((item) => item.id === runId)?.status ===
+        'running'
+      ) {
+        this.updateRun(name, runId, {
+          status: 'failed',
+          finishedAt: new Date().toISOString(),
+          durationMs: Date.now() - startedAt,
+          error: (error as Error).message,
+        });
+      }
+      throw error;
+    } finally {
+      this.active.delete(name);
+    }
+  }
+
+  private save(
+    name: string,
+    input: ScheduledJobInput,
+    current: ScheduledJobRecord | null,
+  ) {
+    const now = new Date().toISOString();
+    const record: ScheduledJobRecord = {
+      name,
+      imageName: input.imageName ?? current?.imageName ?? '',
+      command: input.command ?? current?.command ?? null,
+      env: input.env ?? current?.env ?? {},
+      schedule: input.schedule ?? current?.schedule ?? '',
+      timezone: input.timezone ?? current?.timezone ?? null,
+      timeoutSeconds:
+        input.timeoutSeconds ??
+        current?.timeoutSeconds ??
+        this.defaultTimeoutSeconds,
+      network: input.network ?? current?.network ?? null,
+      resources: input.resources ?? current?.resources ?? null,
+      enabled: input.enabled ?? current?.enabled ?? true,
+      createdAt: current?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    if (!record.imageName || !record.schedule) {
+      throw new BadRequestException(
+        'Las tareas programadas necesitan imageName y schedule',
+      );
+    }
+    try {
+      new CronTime(record.schedule, record.timezone ?? undefined);
+    } catch (error) {
+      throw new BadRequestException(
+        `Programación inválida (${record.schedule}${record.timezone ? `, ${record.timezone}` : ''}): ${(error as Error).message}`,
+      );
+    }
+
+    this.store.update<ScheduledJobMap>(JOBS_COLLECTION, {}, (all) => {
+      all[name] = record;
+    });
+    this.register(record);
+
+    this.logger.log(
+      `Tarea programada ${name} ${current ? 'actualizada' : 'creada'} (${record.schedule}, ${record.enabled ? 'activa' : 'pausada'})`,
+    );
+    return this.describe(record);
+  }
+
+  /**
+   * (Re)programa el cron de una tarea; las tareas pausadas sólo se ejecutan a mano
+   */
+  private register(record: ScheduledJobRecord) {
+    this.unregister(record.name);
+    if (!record.enabled) {
+      return;
+    }
+
+    const cron = new CronJob(
+      record.schedule,
+      () => {
+        try {
+          this.trigger(record.name, 'schedule');
+        } catch (error) {
+          this.logger.error(
+            `No se pudo lanzar la tarea programada ${record.name}: ${(error as Error).message}`,
+          );
+        }
+      },
+      null,
+      false,
+      record.timezone ?? undefined,
+    );
+    this.schedulerRegistry.addCronJob(this.getCronName(record.name), cron);
+    cron.start();
+  }
+
+  private unregister(name: string) {
+    const cronName = this.getCronName(name);
+    if (this.schedulerRegistry.doesExist('cron', cronName)) {
+      this.schedulerRegistry.deleteCronJob(cronName);
+    }
+  }
+
+  private describe(record: ScheduledJobRecord) {
+    const cronName = this.getCronName(record.name);
+    const lastRun = this.readRuns(record.name)[0];
+
+    return {
+      ...record,
+      nextRunAt: this.schedulerRegistry.doesExist('cron', cronName)
+        ? this.schedulerRegistry.getCronJob(cronName).nextDate().toISO()
+        : null,
+      running: this.active.has(record.name),
+      lastRun: lastRun
+        ? {
+            id: lastRun.id,
+            trigger: lastRun.trigger,
+            status: lastRun.status,
+            exitCode: lastRun.exitCode,
+            startedAt: lastRun.startedAt,
+            durationMs: lastRun.durationMs,
+          }
+        : null,
+    };
+  }
+
+  private newRun(
+    record: ScheduledJobRecord,
+    trigger: ScheduledRunTrigger,
+    startedAt: string,
+  ): ScheduledJobRun {
+    return {
+      id: randomUUID(),
+      jobName: record.name,
+      trigger,
+      status: 'queued',
+      imageName: record.imageName,
+      jobId: null,
+      containerName: null,
+      exitCode: null,
+      startedAt,
+      finishedAt: null,
+      durationMs: null,
+      logs: [],
+      error: null,
+    };
+  }
+
+  /**
+   * Guarda una ejecución nueva y descarta las más antiguas por encima de SCHEDULED_JOBS_RUN_HISTORY
+   */
+  private addRun(run: ScheduledJobRun) {
+    this.store.update<ScheduledRunMap>(RUNS_COLLECTION, {}, (all) => {
+      all[run.jobName] = [run, ...(all[run.jobName] ?? [])].slice(
+        0,
+        this.historyLimit,
+      );
+    });
+    return run;
+  }
+
+  private updateRun(
+    name: string,
+    runId: string,
+    patch: Partial<ScheduledJobRun>,
+  ): ScheduledJobRun {
+    let updated: ScheduledJobRun | undefined;
+    this.store.update<ScheduledRunMap>(RUNS_COLLECTION, {}, (all) => {
+      const runs = all[name] ?? [];
+      const index = runs.findIndex((item) => item.id === runId);
+      if (index >= 0) {
+        updated = { ...runs[index], ...patch };
+        runs[index] = updated;
+      }
+    });
+
+    if (!updated) {
+      throw new NotFoundException(
+        `La ejecución ${runId} de la tarea ${name} no existe`,
+      );
+    }
+    return updated;
+  }
+
+  private getCronName(name: string) {
+    return `scheduled-job:${name}`;
+  }
+
+  private getRecord(name: string): ScheduledJobRecord {
+    const record = this.readAll()[name];
+    if (!record) {
+      throw new NotFoundException(`La tarea programada ${name} no existe`);
+    }
+    return record;
+  }
+
+  private readRuns(name: string): ScheduledJobRun[] {
+    return this.store.read<ScheduledRunMap>(RUNS_COLLECTION, {})[name] ?? [];
+  }
+
+  private readAll(): ScheduledJobMap {
+    return this.store.read<ScheduledJobMap>(JOBS_COLLECTION, {});
+  }
+}
@@ -0,0 +1,64 @@
+import type { ResourceLimits } from '../deploy/deploy.types';
+
+/**
+ * Tipos de las tareas programadas (contenedores efímeros lanzados por cron)
+ */
+
+/**
+ * Tarea programada guardada
+ */
+export interface ScheduledJobRecord {
+  name: string;
+  imageName: string;
+  // null = el CMD de la imagen
+  command: string[] | null;
+  env: Record<string, string>;
+  // Expresión cron (5 campos, o 6 con segundos)
+  schedule: string;
+  // Zona horaria IANA de la expresión (por defecto, la del servidor)
+  timezone: string | null;
+  timeoutSeconds: number;
+  network: string | null;
+  resources: Partial<ResourceLimits> | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduledJobInput = Partial<
+  Omit<ScheduledJobRecord, 'name' | 'createdAt' | 'updatedAt'>
+>;
+
+export type ScheduledRunTrigger = 'schedule' | 'manual';
+
+/**
+ * Estado de una ejecución
+ * `skipped`: la ejecución programada coincidió con otra todavía en curso y no se lanzó
+ */
+export type ScheduledRunStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'timeout'
+  | 'skipped';
+
+/**
+ * Ejecución de una tarea programada
+ */
+export interface ScheduledJobRun {
+  id: string;
+  jobName: string;
+  trigger: ScheduledRunTrigger;
+  status: ScheduledRunStatus;
+  imageName: string;
+  // Trabajo de la cola que ejecuta el contenedor (null en las omitidas)
+  jobId: string | null;
+  containerName: string | null;
+  exitCode: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  logs: string[];
+  error: string | null;
+}
@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CipherService } from './cipher.service';
+
+describe('CipherService', () => {
+  let service: CipherService;
+  let encryptionKey: string | undefined;
+
+  beforeEach(async () => {
+    encryptionKey = 'clave-de-pruebas-suficientemente-larga';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CipherService,
+        { provide: ConfigService, useValue: { get: () => encryptionKey } },
+      ],
+    }).compile();
+
+    service = module.get<CipherService>(CipherService);
+  });
+
+  it('should decrypt what it encrypts without storing the plain value', () => {
+    const encrypted = service.encrypt('postgres://user:secret@db/app');
+
+    expect(encrypted).not.toContain('secret');
+    expect(service.decrypt(encrypted)).toBe('postgres://user:secret@db/app');
+  });
+
+  it('should reject tampered values', () => {
+    const [version, iv, tag, data] = service.encrypt('valor').split(':');
+    const tampered = Buffer.from(data, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() =>
+      service.decrypt(
+        [version, iv, tag, tampered.toString('base64')].join(':'),
+      ),
+    ).toThrow();
+  });
+
+  it('should require an encryption key', () => {
+    encryptionKey = undefined;
+
+    expect(() => service.encrypt('valor')).toThrow('SECRETS_ENCRYPTION_KEY');
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Cifrado simétrico para los valores sensibles guardados por el orquestador
+ * Usa AES-256-GCM con una clave derivada de SECRETS_ENCRYPTION_KEY.
+ * Formato del valor cifrado: `v1:<iv>:<tag>:<datos>` (base64)
+ */
+@Injectable()
+export class CipherService {
+  constructor(private configService: ConfigService) {}
+
+  encrypt(plainText: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.getKey(), iv);
+    const data = Buffer.concat([
+      cipher.update(plainText, 'utf8'),
+      cipher.final(),
+    ]);
+    const tag = cipher.getAuthTag();
+
+    return [VERSION, iv, tag, data]
+      .map((part) =>
+        typeof part === 'string' ? part : part.toString('base64'),
+      )
+      .join(':');
+  }
+
+  decrypt(encrypted: string): string {
+    const [version, iv, tag, data] = encrypted.split(':');
+    if (version !== VERSION || !iv || !tag || data === undefined) {
+      throw new InternalServerErrorException(
+        'Formato de valor cifrado desconocido',
+      );
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      this.getKey(),
+      Buffer.from(iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private getKey(): Buffer {
+    const secret = this.configService.get<string>('SECRETS_ENCRYPTION_KEY');
+    if (!secret || secret.trim().length < 16) {
+      throw new InternalServerErrorException(
+        'SECRETS_ENCRYPTION_KEY no está configurado (mínimo 16 caracteres). Es necesario para guardar secrets.',
+      );
+    }
+    return createHash('sha256').update(secret.trim()).digest();
+  }
+}
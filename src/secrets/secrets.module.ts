@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { StoreModule } from '../store/store.module';
+import { CipherService } from './cipher.service';
+import { SecretsService } from './secrets.service';
+
+@Module({
+  imports: [StoreModule],
+  providers: [CipherService, SecretsService],
+  exports: [CipherService, SecretsService],
+})
+export class SecretsModule {}
@@ -0,0 +1,84 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretsService } from './secrets.service';
+import { CipherService } from './cipher.service';
+import { StoreService } from '../store/store.service';
+
+describe('SecretsService', () => {
+  let service: SecretsService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      SECRETS_ENCRYPTION_KEY: 'clave-de-pruebas-suficientemente-larga',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecretsService,
+        CipherService,
+        StoreService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretsService>(SecretsService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should give the deploy env precedence over the stored env and secrets over both', () => {
+    service.upsert(
+      'cliente1',
+      { LOG_LEVEL: 'info', PORT: '3000' },
+      { API_KEY: 'guardado' },
+    );
+
+    expect(
+      service
+        .resolveContainerEnv('cliente1', {
+          LOG_LEVEL: 'debug',
+          API_KEY: 'en-claro',
+        })
+        .sort(),
+    ).toEqual(['API_KEY=guardado', 'LOG_LEVEL=debug', 'PORT=3000']);
+  });
+
+  it('should only inject the requested secrets and reject missing ones', () => {
+    service.upsert('cliente1', {}, { API_KEY: 'a', DB_PASSWORD: 'b' });
+
+    expect(service.resolveContainerEnv('cliente1', {}, ['API_KEY'])).toEqual([
+      'API_KEY=a',
+    ]);
+    expect(() =>
+      service.resolveContainerEnv('cliente1', {}, ['API_KEY', 'OTRO']),
+    ).toThrow('Secrets no definidos para cliente1: OTRO');
+  });
+
+  it('should remove variables and secrets without exposing secret values', () => {
+    service.upsert('cliente1', { LOG_LEVEL: 'info' }, { API_KEY: 'valor' });
+
+    expect(service.describe('cliente1')).toMatchObject({
+      env: { LOG_LEVEL: 'info' },
+      secrets: ['API_KEY'],
+    });
+    expect(
+      fs.readFileSync(path.join(dataDir, 'deployment-env.json'), 'utf8'),
+    ).not.toContain('valor');
+
+    expect(service.remove('cliente1', 'API_KEY')).toBe(true);
+    expect(service.remove('cliente1', 'LOG_LEVEL')).toBe(true);
+    expect(service.remove('cliente1', 'LOG_LEVEL')).toBe(false);
+    expect(service.resolveContainerEnv('cliente1')).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { StoreService } from '../store/store.service';
+import { CipherService } from './cipher.service';
+
+const COLLECTION = 'deployment-env';
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface StoredEnv {
+  env: Record<string, string>;
+  // Valores cifrados con CipherService
+  secrets: Record<string, string>;
+  updatedAt: string;
+}
+
+type StoredEnvMap = Record<string, StoredEnv>;
+
+/**
+ * Variables de entorno y secrets de cada subdominio
+ * Los secrets se guardan cifrados y sus valores sólo se descifran al crear el contenedor
+ */
+@Injectable()
+export class SecretsService {
+  private readonly logger = new Logger(SecretsService.name);
+
+  constructor(
+    private store: StoreService,
+    private cipher: CipherService,
+  ) {}
+
+  /**
+   * Variables y nombres de secrets de un subdominio (nunca los valores de los secrets)
+   */
+  describe(subdomain: string) {
+    const stored = this.read(subdomain);
+    return {
+      subdomain,
+      env: stored.env,
+      secrets: Object.keys(stored.secrets).sort(),
+      updatedAt: stored.updatedAt || null,
+    };
+  }
+
+  /**
+   * Crea o actualiza variables y secrets de un subdominio
+   */
+  upsert(
+    subdomain: string,
+    env: Record<string, string> = {},
+    secrets: Record<string, string> = {},
+  ) {
+    this.assertValidEntries(env);
+    this.assertValidEntries(secrets);
+
+    const encrypted = Object.fromEntries(
+      Object.entries(secrets).map(([name, value]) => [
+        name,
+        this.cipher.encrypt(value),
+      ]),
+    );
+
+    this.store.update<StoredEnvMap>(COLLECTION, {}, (all) => {
+      const current = all[subdomain] ?? { env: {}, secrets: {}, updatedAt: '' };
+      all[subdomain] = {
+        env: { ...current.env, ...env },
+        secrets: { ...current.secrets, ...encrypted },
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+    this.logger.log(
+      `Entorno de ${subdomain} actualizado: ${Object.keys(env).length} variable(s), ${Object.keys(secrets).length} secret(s)`,
+    );
+    return this.describe(subdomain);
+  }
+
+  /**
+   * Elimina una variable o un secret de un subdominio
+   * @returns true si la clave existía
+   */
+  remove(subdomain: string, key: string): boolean {
+    let removed = false;
+
+    this.store.update<StoredEnvMap>(COLLECTION, {}, (all) => {
+      const current = all[subdomain];
+      if (!current || (!(key in current.env) && !(key in current.secrets))) {
+        return;
+      }
+      delete current.env[key];
+      delete current.secrets[key];
+      current.updatedAt = new Date().toISOString();
+      removed = true;
+    });
+
+    return removed;
+  }
+
+  /**
+   * Elimina todo el entorno de un subdominio (al eliminar el despliegue)
+   */
+  removeAll(subdomain: string) {
+    this.store.update<StoredEnvMap>(COLLECTION, {}, (all) => {
+      delete all[subdomain];
+    });
+  }
+
+  /**
+   * Construye las variables de entorno del contenedor
+   * Orden de precedencia: entorno guardado < variables del despliegue < secrets
+   * @param overrides - Variables indicadas en la petición de despliegue
+   * @param secretNames - Secrets a inyectar; si se omite se inyectan todos los del subdominio
+   */
+  resolveContainerEnv(
+    subdomain: string,
+    overrides: Record<string, string> = {},
+    secretNames?: string[],
+  ): string[] {
+    this.assertValidEntries(overrides);
+    const stored = this.read(subdomain);
+    const names = secretNames ?? Object.keys(stored.secrets);
+
+    const missing = names.filter((name) => !(name in stored.secrets));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Secrets no definidos para ${subdomain}: ${missing.join(', ')}. Créalos con PUT /deploy/${subdomain}/env`,
+      );
+    }
+
+    const secrets = Object.fromEntries(
+      names.map((name) => [name, this.cipher.decrypt(stored.secrets[name])]),
+    );
+
+    return Object.entries({ ...stored.env, ...overrides, ...secrets }).map(
+      ([key, value]) => `${key}=${value}`,
+    );
+  }
+
+  private read(subdomain: string): StoredEnv {
+    return (
+      this.store.read<StoredEnvMap>(COLLECTION, {})[subdomain] ?? {
+        env: {},
+        secrets: {},
+        updatedAt: '',
+      }
+    );
+  }
+
+  private assertValidEntries(entries: Record<string, unknown>) {
+    for (const [key, value] of Object.entries(entries)) {
+      if (!ENV_NAME_PATTERN.test(key)) {
+        throw new BadRequestException(
+          `Nombre de variable inválido: ${key}. Usa letras, números y guiones bajos, sin empezar por número.`,
+        );
+      }
+      if (typeof value !== 'string') {
+        throw new BadRequestException(`El valor de ${key} debe ser un string`);
+      }
+    }
+  }
+}
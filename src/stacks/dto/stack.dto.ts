@@ -0,0 +1,83 @@
+import {
+  ApiExtraModels,
+  ApiProperty,
+  getSchemaPath,
+  OmitType,
+} from '@nestjs/swagger';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { DeployDto } from '../../deploy/dto/deploy.dto';
+
+export class StackServiceDto extends OmitType(DeployDto, [
+  'subdomain',
+  'network',
+  'public',
+] as const) {
+  @ApiProperty({
+    example: ['db'],
+    description:
+      'Servicios del stack que deben estar desplegados y listos antes de arrancar este',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  dependsOn?: string[];
+}
+
+@ApiExtraModels(StackServiceDto)
+export class StackDto {
+  @ApiProperty({
+    example: 'facturacion',
+    description:
+      'Nombre del stack. El servicio expuesto se publica en https://<nombre>.boogiepop.cloud ' +
+      'y el resto se despliega como <nombre>-<servicio>',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[a-z0-9-]+$/, {
+    message:
+      'El nombre del stack solo permite letras minúsculas, números y guiones (-).',
+  })
+  name: string;
+
+  @ApiProperty({
+    example: 'api',
+    description: 'Servicio que se publica con Nginx (debe ser de tipo web)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  expose: string;
+
+  @ApiProperty({
+    description:
+      'Servicios por nombre, como en compose. Dentro de la red privada del stack cada servicio ' +
+      'responde a su nombre (p. ej. redis:6379)',
+    type: 'object',
+    additionalProperties: { $ref: getSchemaPath(StackServiceDto) },
+    example: {
+      api: {
+        imageName: 'tu-usuario/api:v1',
+        internalPort: 3000,
+        dependsOn: ['db', 'redis'],
+        env: { DATABASE_URL: 'postgres://app@db:5432/app' },
+      },
+      db: {
+        imageName: 'postgres:16',
+        internalPort: 5432,
+        secrets: ['POSTGRES_PASSWORD'],
+        volumes: [{ name: 'data', mountPath: '/var/lib/postgresql/data' }],
+      },
+      redis: { imageName: 'redis:7', internalPort: 6379 },
+    },
+  })
+  @IsObject()
+  services: Record<string, StackServiceDto>;
+}
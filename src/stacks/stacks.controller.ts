@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { StacksService } from './stacks.service';
+import { StackDto } from './dto/stack.dto';
+import { OrchestratorTokenGuard } from '../deploy/guards/orchestrator-token.guard';
+
+const NAME_PARAM = {
+  name: 'name',
+  description: 'Nombre del stack',
+  example: 'facturacion',
+};
+
+@ApiTags('stacks')
+@ApiBearerAuth()
+@UseGuards(OrchestratorTokenGuard)
+@Controller('stacks')
+export class StacksController {
+  constructor(private readonly stacksService: StacksService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar los stacks con el estado de cada servicio',
+  })
+  list() {
+    return this.stacksService.list();
+  }
+
+  // El cuerpo se valida en el servicio: puede llegar como JSON o como texto YAML
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Crear o actualizar un stack',
+    description:
+      'Despliega los servicios en orden de dependencias (dependsOn): cada servicio espera a que los anteriores ' +
+      'estén listos. Todos comparten la red privada del stack y se ven por su nombre; sólo el servicio ' +
+      'indicado en expose se publica con Nginx. Al actualizar, sólo se redespliegan los servicios que cambian ' +
+      'y se eliminan los que ya no aparecen (sus volúmenes se conservan). ' +
+      'Acepta JSON o YAML (Content-Type: application/yaml). El progreso se consulta en GET /jobs/:id.',
+  })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: StackDto })
+  @ApiHeader({
+    name: 'X-Deployed-By',
+    description:
+      'Quién despliega el stack. Se guarda en el historial de revisiones de cada servicio',
+    required: false,
+  })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Stack encolado: orden de arranque, acción por servicio y trabajo',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Definición inválida (dependencias desconocidas o circulares, servicio expuesto sin puerto...)',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Algún subdominio del stack ya lo usa otro despliegue u otro stack',
+  })
+  async apply(
+    @Body() body: unknown,
+    @Headers('x-deployed-by') deployedBy?: string,
+  ) {
+    const definition = await this.stacksService.parse(body);
+    return this.stacksService.apply(definition, deployedBy || 'api');
+  }
+
+  @Get(':name')
+  @ApiOperation({ summary: 'Detalle de un stack' })
+  @ApiParam(NAME_PARAM)
+  @ApiResponse({ status: 404, description: 'No se encontró el stack' })
+  get(@Param('name') name: string) {
+    return this.stacksService.get(name);
+  }
+
+  @Delete(':name')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Eliminar un stack',
+    description:
+      'Elimina todos sus servicios en orden inverso de arranque. Los volúmenes se conservan salvo con purgeVolumes=true',
+  })
+  @ApiParam(NAME_PARAM)
+  @ApiQuery({
+    name: 'purgeVolumes',
+    required: false,
+    description: 'true: elimina también los volúmenes de todos los servicios',
+    example: false,
+  })
+  @ApiResponse({ status: 202, description: 'Eliminación encolada' })
+  @ApiResponse({ status: 404, description: 'No se encontró el stack' })
+  remove(
+    @Param('name') name: string,
+    @Query('purgeVolumes') purgeVolumes?: string,
+  ) {
+    return this.stacksService.remove(name, purgeVolumes === 'true');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StacksService } from './stacks.service';
+import { StacksController } from './stacks.controller';
+import { DeployModule } from '../deploy/deploy.module';
+import { StoreModule } from '../store/store.module';
+import { JobsModule } from '../jobs/jobs.module';
+
+@Module({
+  imports: [DeployModule, StoreModule, JobsModule],
+  controllers: [StacksController],
+  providers: [StacksService],
+})
+export class StacksModule {}
@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StacksService } from './stacks.service';
+import { DeployService } from '../deploy/deploy.service';
+import { DeploySpec } from '../deploy/deploy.types';
+import { JobsService } from '../jobs/jobs.service';
+import { StoreService } from '../store/store.service';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+
+describe('StacksService', () => {
+  let service: StacksService;
+  let deploymentStore: DeploymentStoreService;
+  let dataDir: string;
+  let deployService: {
+    resolveSpec: jest.Mock;
+    assertDeployable: jest.Mock;
+    deploy: jest.Mock;
+    removeDeployment: jest.Mock;
+  };
+  let jobsService: { enqueue: jest.Mock; toReference: jest.Mock };
+  let jobs: { run: (job: unknown) => Promise<unknown> }[];
+  const jobContext = { id: 'job-1', step: jest.fn(), log: jest.fn() };
+
+  const stackYaml = `
+name: facturacion
+expose: api
+services:
+  api:
+    imageName: usuario/api:v1
+    internalPort: 3000
+    dependsOn: [db, redis]
+  redis:
+    imageName: redis:7
+    internalPort: 6379
+  db:
+    imageName: postgres:16
+    internalPort: 5432
+    volumes:
+      - name: data
+        mountPath: /var/lib/postgresql/data
+`;
+
+  // Registra un despliegue en marcha como haría DeployService.deploy
+  const saveDeployment = (spec: DeploySpec) =>
+    deploymentStore.saveDeployment({
+      subdomain: spec.subdomain,
+      spec,
+      imageName: spec.imageName,
+      imageDigest: null,
+      imageId: null,
+      internalPort: spec.internalPort ?? null,
+      hostPort: 10000,
+      containerId: `id-${spec.subdomain}`,
+      containerName: `container-${spec.subdomain}`,
+      status: 'running',
+      revision: 1,
+      deployedBy: 'test',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+  const runJobs = async () => {
+    for (const job of jobs.splice(0)) {
+      await job.run(jobContext);
+    }
+  };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = { ORCHESTRATOR_DATA_DIR: dataDir };
+    jobs = [];
+
+    deployService = {
+      resolveSpec: jest.fn((spec: DeploySpec) => spec),
+      assertDeployable: jest.fn(),
+      deploy: jest.fn((spec: DeploySpec) => saveDeployment(spec)),
+      removeDeployment: jest.fn((subdomain: string) =>
+        deploymentStore.removeDeployment(subdomain),
+      ),
+    };
+    jobsService = {
+      enqueue: jest.fn(
+        (options: { key: string; run: (job: unknown) => Promise<unknown> }) => {
+          jobs.push(options);
+          return { id: `stack-${options.key}` };
+        },
+      ),
+      toReference: jest.fn((job: { id: string }) => ({ jobId: job.id })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StacksService,
+        StoreService,
+        DeploymentStoreService,
+        { provide: DeployService, useValue: deployService },
+        { provide: JobsService, useValue: jobsService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StacksService>(StacksService);
+    deploymentStore = module.get<DeploymentStoreService>(
+      DeploymentStoreService,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should deploy the services in dependency order on their private network', async () => {
+    const result = service.apply(await service.parse(stackYaml), 'ci');
+
+    expect(result.order).toEqual(['redis', 'db', 'api']);
+    expect(result.actions.map(({ action }) => action)).toEqual([
+      'create',
+      'create',
+      'create',
+    ]);
+
+    await runJobs();
+
+    expect(
+      deployService.deploy.mock.calls.map(([spec]: [DeploySpec]) => [
+        spec.subdomain,
+        spec.network,
+        spec.public,
+      ]),
+    ).toEqual([
+      ['facturacion-redis', 'facturacion', false],
+      ['facturacion-db', 'facturacion', false],
+      ['facturacion', 'facturacion', true],
+    ]);
+    expect(deployService.deploy).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        stack: { name: 'facturacion', service: 'api', exposed: true },
+      }),
+      expect.objectContaining({ deployedBy: 'ci' }),
+    );
+    expect(service.get('facturacion')).toMatchObject({
+      status: 'running',
+      url: 'https://facturacion.boogiepop.cloud',
+      children: [
+        { service: 'redis', deploymentStatus: 'running' },
+        { service: 'db', deploymentStatus: 'running' },
+        { service: 'api', exposed: true, dependsOn: ['db', 'redis'] },
+      ],
+    });
+  });
+
+  it('should only redeploy changed services and remove dropped ones', async () => {
+    service.apply(await service.parse(stackYaml));
+    await runJobs();
+    deployService.deploy.mockClear();
+
+    const definition = await service.parse(stackYaml);
+    definition.services.api.imageName = 'usuario/api:v2';
+    definition.services.api.dependsOn = ['db'];
+    delete definition.services.redis;
+    const result = service.apply(definition);
+
+    expect(
+      result.actions.map(({ service, action }) => [service, action]),
+    ).toEqual([
+      ['db', 'unchanged'],
+      ['api', 'update'],
+      ['redis', 'delete'],
+    ]);
+
+    await runJobs();
+
+    expect(deployService.deploy).toHaveBeenCalledTimes(1);
+    expect(deployService.removeDeployment).toHaveBeenCalledWith(
+      'facturacion-redis',
+    );
+  });
+
+  it('should reject circular dependencies and subdomains in use', async () => {
+    await expect(
+      service.parse({
+        name: 'app',
+        expose: 'web',
+        services: { web: { imageName: 'web', internalPort: 'x' } },
+      }),
+    ).rejects.toThrow('Servicio web:');
+
+    const cyclic = await service.parse({
+      name: 'app',
+      expose: 'a',
+      services: {
+        a: { imageName: 'a', internalPort: 3000, dependsOn: ['b'] },
+        b: { imageName: 'b', internalPort: 3000, dependsOn: ['a'] },
+      },
+    });
+    expect(() => service.apply(cyclic)).toThrow(
+      'Dependencias circulares entre a, b',
+    );
+
+    saveDeployment({
+      subdomain: 'facturacion-db',
+      imageName: 'postgres:16',
+      internalPort: 5432,
+    });
+    expect(() =>
+      service.apply({ name: 'facturacion', expose: 'api', services: {} }),
+    ).toThrow('El stack debe tener al menos un servicio');
+    const stack = await service.parse(stackYaml);
+    expect(() => service.apply(stack)).toThrow(
+      'facturacion-db ya tiene un despliegue que no pertenece al stack facturacion',
+    );
+    expect(jobsService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should remove every service in reverse startup order', async () => {
+    service.apply(await service.parse(stackYaml));
+    await runJobs();
+
+    service.remove('facturacion', true);
+    await runJobs();
+
+    expect(deployService.removeDeployment.mock.calls).toEqual([
+      ['facturacion', true],
+      ['facturacion-db', true],
+      ['facturacion-redis', true],
+    ]);
+    expect(service.list()).toEqual([]);
+    expect(() => service.get('facturacion')).toThrow(
+      'No se encontró el stack facturacion',
+    );
+  });
+});
@@ -0,0 +1,414 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ValidationPipe,
+} from '@nestjs/common';
+import * as yaml from 'js-yaml';
+import { DeployService } from '../deploy/deploy.service';
+import { DeploySpec } from '../deploy/deploy.types';
+import { DeploymentStoreService } from '../store/deployment-store.service';
+import { StoreService } from '../store/store.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobContext, JobReference } from '../jobs/jobs.types';
+import { StackDto, StackServiceDto } from './dto/stack.dto';
+import {
+  StackApplyResult,
+  StackDefinition,
+  StackRecord,
+  StackServiceAction,
+  StackServiceSpec,
+} from './stacks.types';
+
+const STACKS = 'stacks';
+
+type StackMap = Record<string, StackRecord>;
+
+// Misma validación que el ValidationPipe global, para las definiciones recibidas en YAML
+const stackValidation = new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  transform: true,
+  transformOptions: {
+    enableImplicitConversion: true,
+  },
+});
+
+/**
+ * Stacks: varios servicios (p. ej. una API con su Postgres y su Redis) que se despliegan,
+ * actualizan y eliminan como una unidad. Cada servicio es un despliegue más, en la red
+ * privada del stack; sólo el servicio expuesto se publica con Nginx. Los servicios arrancan
+ * en orden de dependencias y cada uno espera a que el anterior esté listo.
+ */
+@Injectable()
+export class StacksService {
+  private readonly logger = new Logger(StacksService.name);
+
+  constructor(
+    private deployService: DeployService,
+    private deploymentStore: DeploymentStoreService,
+    private store: StoreService,
+    private jobsService: JobsService,
+  ) {}
+
+  /**
+   * Valida una definición recibida como objeto JSON o como texto YAML
+   */
+  async parse(input: unknown): Promise<StackDefinition> {
+    let raw = input;
+    if (typeof input === 'string') {
+      try {
+        raw = yaml.load(input);
+      } catch (error) {
+        throw new BadRequestException(
+          `La definición del stack no es YAML ni JSON válido: ${(error as Error).message}`,
+        );
+      }
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new BadRequestException(
+        'La definición del stack debe ser un objeto con name, expose y services',
+      );
+    }
+
+    const dto = (await stackValidation.transform(raw, {
+      type: 'body',
+      metatype: StackDto,
+    })) as StackDto;
+
+    const services: Record<string, StackServiceSpec> = {};
+    for (const [service, value] of Object.entries(dto.services)) {
+      if (!/^[a-z0-9-]+$/.test(service)) {
+        throw new BadRequestException(
+          `Nombre de servicio inválido: ${service}. Solo se permiten letras minúsculas, números y guiones (-)`,
+        );
+      }
+
+      let spec: StackServiceDto;
+      try {
+        spec = (await stackValidation.transform(value, {
+          type: 'body',
+          metatype: StackServiceDto,
+        })) as StackServiceDto;
+      } catch (error) {
+        const response = (error as BadRequestException).getResponse?.() as {
+          message?: string | string[];
+        };
+        throw new BadRequestException(
+          `Servicio ${service}: ${[response?.message ?? (error as Error).message].flat().join(', ')}`,
+        );
+      }
+
+      services[service] = {
+        imageName: spec.imageName,
+        internalPort: spec.internalPort,
+        kind: spec.kind,
+        healthCheck: spec.healthCheck,
+        resources: spec.resources,
+        replicas: spec.replicas,
+        loadBalancing: spec.loadBalancing,
+        env: spec.env,
+        secrets: spec.secrets,
+        volumes: spec.volumes,
+        preSwitch: spec.preSwitch,
+        dependsOn: spec.dependsOn,
+      };
+    }
+
+    return { name: dto.name, expose: dto.expose, services };
+  }
+
+  list() {
+    return Object.values(this.store.read<StackMap>(STACKS, {}))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => this.describe(record));
+  }
+
+  get(name: string) {
+    return this.describe(this.getRecord(name));
+  }
+
+  /**
+   * Crea o actualiza un stack
+   * Sólo se redespliegan los servicios que cambian (o que no están en marcha), en orden de
+   * dependencias; los servicios que desaparecen de la definición se eliminan al final
+   */
+  apply(definition: StackDefinition, deployedBy = 'api'): StackApplyResult {
+    const order = this.resolveOrder(definition);
+    const previous = this.store.read<StackMap>(STACKS, {})[definition.name];
+    // El servicio expuesto ocupa el subdominio del stack: cambiarlo movería los subdominios de los servicios
+    if (previous && previous.expose !== definition.expose) {
+      throw new BadRequestException(
+        `El stack ${definition.name} expone ${previous.expose}: para exponer otro servicio elimina el stack y vuelve a crearlo`,
+      );
+    }
+    const specs = new Map(
+      order.map((service) => [service, this.toDeploySpec(definition, service)]),
+    );
+
+    const exposed = specs.get(definition.expose)!;
+    if (exposed.kind === 'worker' || !exposed.internalPort) {
+      throw new BadRequestException(
+        `El servicio expuesto ${definition.expose} debe ser de tipo web e indicar internalPort`,
+      );
+    }
+
+    const actions: StackServiceAction[] = [];
+    for (const [service, spec] of specs) {
+      const current = this.deploymentStore.getDeployment(spec.subdomain);
+      if (current && current.spec.stack?.name !== definition.name) {
+        throw new ConflictException(
+          current.spec.stack
+            ? `${spec.subdomain} ya pertenece al stack ${current.spec.stack.name}`
+            : `${spec.subdomain} ya tiene un despliegue que no pertenece al stack ${definition.name}`,
+        );
+      }
+      this.deployService.assertDeployable(spec);
+
+      const unchanged =
+        current?.status === 'running' &&
+        JSON.stringify(this.deployService.resolveSpec(current.spec)) ===
+          JSON.stringify(this.deployService.resolveSpec(spec));
+      actions.push({
+        service,
+        subdomain: spec.subdomain,
+        action: !current ? 'create' : unchanged ? 'unchanged' : 'update',
+      });
+    }
+
+    // Servicios que ya no están en la definición, en orden inverso de arranque
+    const removed = (previous?.order ?? [])
+      .filter((service) => !specs.has(service))
+      .reverse()
+      .map((service) => ({
+        service,
+        subdomain: this.getSubdomain(previous, service),
+        action: 'delete' as const,
+      }))
+      .filter(({ subdomain }) => this.deploymentStore.getDeployment(subdomain));
+    actions.push(...removed);
+
+    const now = new Date().toISOString();
+    const record: StackRecord = {
+      ...definition,
+      order,
+      status: 'deploying',
+      error: null,
+      deployedBy,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.saveRecord(record);
+
+    const job = this.jobsService.enqueue({
+      type: 'stack',
+      key: definition.name,
+      description: `Despliegue del stack ${definition.name} (${order.join(' → ')})`,
+      run: (job) =>
+        this.runStackJob(record, job, async () => {
+          for (const [index, action] of actions.entries()) {
+            if (action.action === 'unchanged') {
+              job.log(`${action.service} sin cambios`);
+            } else if (action.action === 'delete') {
+              job.step('removing', `Eliminando ${action.service}`);
+              await this.deployService.removeDeployment(action.subdomain);
+            } else {
+              job.step(
+                'deploying',
+                `Desplegando ${action.service} (${index + 1}/${order.length})`,
+              );
+              await this.deployService.deploy(specs.get(action.service)!, {
+                deployedBy,
+                job,
+              });
+            }
+          }
+          this.saveRecord({ ...record, status: 'running' });
+          return { stack: definition.name, order, actions };
+        }),
+    });
+
+    this.logger.log(
+      `Stack ${definition.name} encolado por ${deployedBy}: ${order.join(' → ')}`,
+    );
+    return {
+      stack: definition.name,
+      order,
+      actions,
+      job: this.jobsService.toReference(job),
+    };
+  }
+
+  /**
+   * Elimina todos los servicios del stack, en orden inverso de arranque
+   */
+  remove(name: string, purgeVolumes = false): JobReference {
+    const record = this.getRecord(name);
+    this.saveRecord({
+      ...record,
+      status: 'removing',
+      updatedAt: new Date().toISOString(),
+    });
+
+    const job = this.jobsService.enqueue({
+      type: 'stack-remove',
+      key: name,
+      description: `Eliminar el stack ${name}`,
+      run: (job) =>
+        this.runStackJob(record, job, async () => {
+          const removed: string[] = [];
+          for (const service of [...record.order].reverse()) {
+            const subdomain = this.getSubdomain(record, service);
+            if (!this.deploymentStore.getDeployment(subdomain)) {
+              continue;
+            }
+            job.step('removing', `Eliminando ${service}`);
+            await this.deployService.removeDeployment(subdomain, purgeVolumes);
+            removed.push(subdomain);
+          }
+
+          this.store.update<StackMap>(STACKS, {}, (stacks) => {
+            delete stacks[name];
+          });
+          this.logger.log(`Stack ${name} eliminado`);
+          return { stack: name, removed, purgedVolumes: purgeVolumes };
+        }),
+    });
+    return this.jobsService.toReference(job);
+  }
+
+  /**
+   * Orden de arranque: cada servicio después de sus dependencias
+   * Entre servicios independientes se respeta el orden de la definición
+   */
+  private resolveOrder(definition: StackDefinition): string[] {
+    const names = Object.keys(definition.services);
+    if (names.length === 0) {
+      throw new BadRequestException('El stack debe tener al menos un servicio');
+    }
+    if (!names.includes(definition.expose)) {
+      throw new BadRequestException(
+        `El servicio expuesto ${definition.expose} no está en el stack`,
+      );
+    }
+
+    for (const [service, spec] of Object.entries(definition.services)) {
+      for (const dependency of spec.dependsOn ?? []) {
+        if (dependency === service || !names.includes(dependency)) {
+          throw new BadRequestException(
+            `Dependencia inválida en ${service}: ${dependency}`,
+          );
+        }
+      }
+    }
+
+    const order: string[] = [];
+    while (order.length < names.length) {
+      const next = names.find(
+        (service) =>
+          !order.includes(service) &&
+          (definition.services[service].dependsOn ?? []).every((dependency) =>
+            order.includes(dependency),
+          ),
+      );
+      if (!next) {
+        throw new BadRequestException(
+          `Dependencias circulares entre ${names.filter((service) => !order.includes(service)).join(', ')}`,
+        );
+      }
+      order.push(next);
+    }
+    return order;
+  }
+
+  private toDeploySpec(
+    definition: StackDefinition,
+    service: string,
+  ): DeploySpec {
+    // dependsOn sólo ordena el arranque: no forma parte de la especificación del despliegue
+    const spec: StackServiceSpec = { ...definition.services[service] };
+    delete spec.dependsOn;
+    const exposed = service === definition.expose;
+
+    return {
+      ...spec,
+      subdomain: this.getSubdomain(definition, service),
+      // Red privada propia del stack: los servicios se ven entre sí por su nombre
+      network: definition.name,
+      public: exposed,
+      stack: { name: definition.name, service, exposed },
+    };
+  }
+
+  private getSubdomain(
+    definition: Pick<StackDefinition, 'name' | 'expose'>,
+    service: string,
+  ) {
+    return service === definition.expose
+      ? definition.name
+      : `${definition.name}-${service}`;
+  }
+
+  /**
+   * Ejecuta un trabajo del stack y deja el error en el registro si falla
+   */
+  private async runStackJob<T>(
+    record: StackRecord,
+    job: JobContext,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      this.logger.error(
+        `Falló el trabajo ${job.id} del stack ${record.name}: ${(error as Error).message}`,
+      );
+      this.saveRecord({
+        ...record,
+        status: 'failed',
+        error: (error as Error).message,
+        updatedAt: new Date().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  private getRecord(name: string): StackRecord {
+    const record = this.store.read<StackMap>(STACKS, {})[name];
+    if (!record) {
+      throw new NotFoundException(`No se encontró el stack ${name}`);
+    }
+    return record;
+  }
+
+  private saveRecord(record: StackRecord) {
+    this.store.update<StackMap>(STACKS, {}, (stacks) => {
+      stacks[record.name] = record;
+    });
+  }
+
+  /**
+   * Registro del stack con el estado del despliegue de cada servicio
+   */
+  private describe(record: StackRecord) {
+    return {
+      ...record,
+      url: `https://${record.name}.boogiepop.cloud`,
+      children: record.order.map((service) => {
+        const subdomain = this.getSubdomain(record, service);
+        const deployment = this.deploymentStore.getDeployment(subdomain);
+        return {
+          service,
+          subdomain,
+          exposed: service === record.expose,
+          dependsOn: record.services[service].dependsOn ?? [],
+          imageName: deployment?.imageName ?? null,
+          deploymentStatus: deployment?.status ?? 'missing',
+          revision: deployment?.revision ?? null,
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import type { DeploySpec } from '../deploy/deploy.types';
+import type { JobReference } from '../jobs/jobs.types';
+
+/**
+ * Tipos de los stacks (varios contenedores desplegados como una unidad)
+ */
+
+/**
+ * Servicio de un stack: los mismos campos que un despliegue salvo el subdominio,
+ * la red y la publicación, que dependen del stack
+ */
+export type StackServiceSpec = Omit<
+  DeploySpec,
+  'subdomain' | 'network' | 'public' | 'stack'
+> & {
+  // Servicios que deben estar listos antes de arrancar este
+  dependsOn?: string[];
+};
+
+/**
+ * Definición al estilo compose: servicios por nombre y el que se publica con Nginx
+ */
+export interface StackDefinition {
+  name: string;
+  expose: string;
+  services: Record<string, StackServiceSpec>;
+}
+
+export type StackStatus = 'deploying' | 'running' | 'failed' | 'removing';
+
+export interface StackRecord extends StackDefinition {
+  // Orden de arranque (las dependencias primero)
+  order: string[];
+  status: StackStatus;
+  error: string | null;
+  deployedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Acción sobre cada servicio al aplicar una definición
+ */
+export interface StackServiceAction {
+  service: string;
+  subdomain: string;
+  action: 'create' | 'update' | 'unchanged' | 'delete';
+}
+
+export interface StackApplyResult {
+  stack: string;
+  order: string[];
+  actions: StackServiceAction[];
+  job: JobReference;
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoreService } from './store.service';
+import { DeploymentStoreService } from './deployment-store.service';
+import { BuildRecord, DeploymentRevision } from './store.types';
+
+describe('DeploymentStoreService', () => {
+  let service: DeploymentStoreService;
+  let dataDir: string;
+
+  const revision = (
+    imageName: string,
+  ): Omit<DeploymentRevision, 'revision' | 'subdomain'> => ({
+    spec: { imageName, subdomain: 'cliente1', internalPort: 3000 },
+    imageName,
+    imageDigest: null,
+    imageId: null,
+    status: 'active',
+    containerId: null,
+    hostPort: null,
+    deployedBy: 'test',
+    deployedAt: new Date().toISOString(),
+  });
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-store-'));
+    const config: Record<string, string> = {
+      ORCHESTRATOR_DATA_DIR: dataDir,
+      DEPLOY_REVISION_HISTORY: '3',
+      DEPLOY_BUILD_HISTORY: '2',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StoreService,
+        DeploymentStoreService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DeploymentStoreService>(DeploymentStoreService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should number revisions and keep only the configured history', () => {
+    for (const tag of ['v1', 'v2', 'v3', 'v4']) {
+      service.addRevision('cliente1', revision(`app:${tag}`));
+    }
+
+    const revisions = service.listRevisions('cliente1');
+    expect(revisions.map((item) => item.revision)).toEqual([4, 3, 2]);
+    expect(revisions[0].imageName).toBe('app:v4');
+  });
+
+  it('should update builds in place and keep only the configured history', () => {
+    const build = (id: string): BuildRecord => ({
+      id,
+      subdomain: 'cliente1',
+      status: 'running',
+      source: 'https://github.com/org/app.git@main',
+      dockerfile: 'Dockerfile',
+      buildArgs: [],
+      imageName: `orchestrator.local/cliente1:${id}`,
+      imageId: null,
+      jobId: `job-${id}`,
+      requestedBy: 'test',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+      logTail: [],
+    });
+
+    service.saveBuild(build('build-1'));
+    service.saveBuild(build('build-2'));
+    service.saveBuild({ ...build('build-2'), status: 'succeeded' });
+    service.saveBuild(build('build-3'));
+
+    expect(
+      service.listBuilds('cliente1').map(({ id, status }) => [id, status]),
+    ).toEqual([
+      ['build-3', 'running'],
+      ['build-2', 'succeeded'],
+    ]);
+  });
+
+  it('should persist data across instances', () => {
+    service.saveProxyRoute({
+      subdomain: 'cliente1',
+      port: 3005,
+      filePath: '/etc/nginx/conf.d/cliente1.conf',
+      updatedAt: new Date().toISOString(),
+    });
+
+    const other = new StoreService({
+      get: () => dataDir,
+    } as unknown as ConfigService);
+    expect(other.read('proxy-routes', {})).toHaveProperty(
+      'cliente1.port',
+      3005,
+    );
+  });
+
+  it('should drop the revision history when a deployment is removed', () => {
+    service.addRevision('cliente1', revision('app:v1'));
+    service.removeDeployment('cliente1');
+
+    expect(service.listRevisions('cliente1')).toEqual([]);
+    expect(service.getDeployment('cliente1')).toBeNull();
+  });
+});
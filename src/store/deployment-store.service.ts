@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StoreService } from './store.service';
+import {
+  BuildRecord,
+  DeploymentRecord,
+  DeploymentRevision,
+  ProxyRouteRecord,
+} from './store.types';
+
+const DEPLOYMENTS = 'deployments';
+const REVISIONS = 'revisions';
+const PROXY_ROUTES = 'proxy-routes';
+const BUILDS = 'builds';
+
+type DeploymentMap = Record<string, DeploymentRecord>;
+type RevisionMap = Record<string, DeploymentRevision[]>;
+type ProxyRouteMap = Record<string, ProxyRouteRecord>;
+type BuildMap = Record<string, BuildRecord[]>;
+
+/**
+ * Registro persistente de despliegues, su historial de revisiones y de builds
+ * y las configuraciones de proxy de Nginx
+ */
+@Injectable()
+export class DeploymentStoreService {
+  private readonly revisionHistoryLimit: number;
+  private readonly buildHistoryLimit: number;
+
+  constructor(
+    private store: StoreService,
+    private configService: ConfigService,
+  ) {
+    this.revisionHistoryLimit = Number(
+      this.configService.get('DEPLOY_REVISION_HISTORY') || 20,
+    );
+    this.buildHistoryLimit = Number(
+      this.configService.get('DEPLOY_BUILD_HISTORY') || 20,
+    );
+  }
+
+  // --- Despliegues ---
+
+  getDeployment(subdomain: string): DeploymentRecord | null {
+    return this.store.read<DeploymentMap>(DEPLOYMENTS, {})[subdomain] ?? null;
+  }
+
+  listDeployments(): DeploymentRecord[] {
+    return Object.values(this.store.read<DeploymentMap>(DEPLOYMENTS, {})).sort(
+      (a, b) => a.subdomain.localeCompare(b.subdomain),
+    );
+  }
+
+  saveDeployment(record: DeploymentRecord): DeploymentRecord {
+    this.store.update<DeploymentMap>(DEPLOYMENTS, {}, (deployments) => {
+      deployments[record.subdomain] = record;
+    });
+    return record;
+  }
+
+  /**
+   * Elimina el despliegue junto con su historial de revisiones y de builds
+   */
+  removeDeployment(subdomain: string): void {
+    this.store.update<DeploymentMap>(DEPLOYMENTS, {}, (deployments) => {
+      delete deployments[subdomain];
+    });
+    this.store.update<RevisionMap>(REVISIONS, {}, (revisions) => {
+      delete revisions[subdomain];
+    });
+    this.store.update<BuildMap>(BUILDS, {}, (builds) => {
+      delete builds[subdomain];
+    });
+  }
+
+  // --- Revisiones ---
+
+  /**
+   * Lista las revisiones de un subdominio, de la más reciente a la más antigua
+   */
+  listRevisions(subdomain: string): DeploymentRevision[] {
+    const revisions =
+      this.store.read<RevisionMap>(REVISIONS, {})[subdomain] ?? [];
+    return [...revisions].sort((a, b) => b.revision - a.revision);
+  }
+
+  getRevision(subdomain: string, revision: number): DeploymentRevision | null {
+    return (
+      this.listRevisions(subdomain).find(
+        (item) => item.revision === revision,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Registra una nueva revisión con el siguiente número disponible
+   * Sólo se conservan las últimas DEPLOY_REVISION_HISTORY revisiones
+   */
+  addRevision(
+    subdomain: string,
+    data: Omit<DeploymentRevision, 'revision' | 'subdomain'>,
+  ): DeploymentRevision {
+    let created!: DeploymentRevision;
+
+    this.store.update<RevisionMap>(REVISIONS, {}, (revisions) => {
+      const history = revisions[subdomain] ?? [];
+      const last = history.reduce(
+        (max, item) => Math.max(max, item.revision),
+        0,
+      );
+
+      created = { ...data, revision: last + 1, subdomain };
+      revisions[subdomain] = [...history, created].slice(
+        -this.revisionHistoryLimit,
+      );
+    });
+
+    return created;
+  }
+
+  updateRevision(
+    subdomain: string,
+    revision: number,
+    patch: Partial<Omit<DeploymentRevision, 'revision' | 'subdomain'>>,
+  ): void {
+    this.store.update<RevisionMap>(REVISIONS, {}, (revisions) => {
+      revisions[subdomain] = (revisions[subdomain] ?? []).map((item) =>
+        item.revision === revision ? { ...item, ...patch } : item,
+      );
+    });
+  }
+
+  // --- Builds ---
+
+  /**
+   * Lista las builds de un subdominio, de la más reciente a la más antigua
+   */
+  listBuilds(subdomain: string): BuildRecord[] {
+    const builds = this.store.read<BuildMap>(BUILDS, {})[subdomain] ?? [];
+    return [...builds].reverse();
+  }
+
+  /**
+   * Crea o actualiza una build
+   * Sólo se conservan las últimas DEPLOY_BUILD_HISTORY builds de cada subdominio
+   */
+  saveBuild(record: BuildRecord): BuildRecord {
+    this.store.update<BuildMap>(BUILDS, {}, (builds) => {
+      const history = builds[record.subdomain] ?? [];
+      builds[record.subdomain] = history.some((item) => item.id === record.id)
+        ? history.map((item) => (item.id === record.id ? record : item))
+        : [...history, record].slice(-this.buildHistoryLimit);
+    });
+    return record;
+  }
+
+  // --- Rutas de proxy ---
+
+  getProxyRoute(subdomain: string): ProxyRouteRecord | null {
+    return this.store.read<ProxyRouteMap>(PROXY_ROUTES, {})[subdomain] ?? null;
+  }
+
+  listProxyRoutes(): ProxyRouteRecord[] {
+    return Object.values(this.store.read<ProxyRouteMap>(PROXY_ROUTES, {})).sort(
+      (a, b) => a.subdomain.localeCompare(b.subdomain),
+    );
+  }
+
+  saveProxyRoute(route: ProxyRouteRecord): void {
+    this.store.update<ProxyRouteMap>(PROXY_ROUTES, {}, (routes) => {
+      routes[route.subdomain] = route;
+    });
+  }
+
+  removeProxyRoute(subdomain: string): void {
+    this.store.update<ProxyRouteMap>(PROXY_ROUTES, {}, (routes) => {
+      delete routes[subdomain];
+    });
+  }
+}
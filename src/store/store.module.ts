@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { StoreService } from './store.service';
+import { DeploymentStoreService } from './deployment-store.service';
+
+@Module({
+  providers: [StoreService, DeploymentStoreService],
+  exports: [StoreService, DeploymentStoreService], // Compartido por los módulos de deploy y nginx
+})
+export class StoreModule {}
@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Almacenamiento embebido basado en archivos JSON
+ * Cada colección se guarda en `<ORCHESTRATOR_DATA_DIR>/<colección>.json`.
+ * Las escrituras son atómicas (archivo temporal + rename) y síncronas, por lo que
+ * una lectura-modificación-escritura dentro del proceso no se intercala con otra.
+ */
+@Injectable()
+export class StoreService {
+  private readonly logger = new Logger(StoreService.name);
+  private readonly dataDir: string;
+
+  constructor(private configService: ConfigService) {
+    // Por defecto ./data junto al proceso; en producción conviene montarlo como volumen
+    this.dataDir =
+      this.configService.get('ORCHESTRATOR_DATA_DIR') ||
+      path.join(process.cwd(), 'data');
+
+    if (!fs.existsSync(this.dataDir)) {
+      this.logger.log(`Creando directorio de datos: ${this.dataDir}`);
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Lee una colección completa
+   * @param collection - Nombre de la colección
+   * @param fallback - Valor inicial si la colección todavía no existe
+   */
+  read<T>(collection: string, fallback: T): T {
+    const filePath = this.getFilePath(collection);
+
+    if (!fs.existsSync(filePath)) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+      this.logger.error(
+        `No se pudo leer la colección ${collection}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reemplaza una colección completa
+   */
+  write<T>(collection: string, data: T): void {
+    const filePath = this.getFilePath(collection);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  /**
+   * Lee, modifica y guarda una colección en un único paso
+   * @param mutate - Modifica la colección recibida (o devuelve una nueva)
+   * @returns La colección guardada
+   */
+  update<T>(collection: string, fallback: T, mutate: (data: T) => T | void): T {
+    const current = this.read(collection, fallback);
+    const next = mutate(current) ?? current;
+    this.write(collection, next);
+    return next;
+  }
+
+  private getFilePath(collection: string) {
+    if (!/^[a-z0-9-]+$/.test(collection)) {
+      throw new Error(`Nombre de colección inválido: ${collection}`);
+    }
+    return path.join(this.dataDir, `${collection}.json`);
+  }
+}
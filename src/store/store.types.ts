@@ -0,0 +1,144 @@
+import type { DeploySpec } from '../deploy/deploy.types';
+import type { LoadBalancingMethod } from '../nginx/nginx-template';
+
+/**
+ * Estado de un despliegue según el orquestador
+ * `stopped` y `paused` son detenciones pedidas por el operador: Nginx sirve la página de mantenimiento
+ */
+export type DeploymentStatus = 'running' | 'failed' | 'stopped' | 'paused';
+
+/**
+ * Registro persistente de un despliegue (uno por subdominio)
+ */
+export interface DeploymentRecord {
+  subdomain: string;
+  spec: DeploySpec;
+  imageName: string;
+  imageDigest: string | null;
+  imageId: string | null;
+  // null en los workers sin puerto
+  internalPort: number | null;
+  hostPort: number | null;
+  // Primera réplica (se conserva por compatibilidad con los registros de una sola réplica)
+  containerId: string;
+  containerName: string;
+  // Ausente en los registros anteriores a las réplicas: equivale a una réplica con los campos de arriba
+  replicas?: ReplicaRecord[];
+  // Versión en prueba que recibe una parte del tráfico junto a las réplicas estables
+  canary?: CanaryRecord;
+  status: DeploymentStatus;
+  revision: number;
+  deployedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Contenedor de una réplica del despliegue activo
+ */
+export interface ReplicaRecord {
+  index: number;
+  containerId: string;
+  containerName: string;
+  // null en los workers: no publican puerto
+  hostPort: number | null;
+}
+
+/**
+ * Canary activo de un despliegue
+ * No genera revisión hasta que se promueve; al abortarlo se descarta sin dejar rastro en el historial
+ */
+export interface CanaryRecord {
+  spec: DeploySpec;
+  imageName: string;
+  imageDigest: string | null;
+  imageId: string | null;
+  // Porcentaje del tráfico que recibe el canary (1-99)
+  weight: number;
+  replicas: ReplicaRecord[];
+  deployedBy: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type RevisionStatus = 'active' | 'superseded' | 'failed';
+
+/**
+ * Revisión de un despliegue: cada intento de despliegue genera una
+ */
+export interface DeploymentRevision {
+  revision: number;
+  subdomain: string;
+  spec: DeploySpec;
+  imageName: string;
+  imageDigest: string | null;
+  imageId: string | null;
+  status: RevisionStatus;
+  containerId: string | null;
+  hostPort: number | null;
+  deployedBy: string;
+  deployedAt: string;
+  rollbackOf?: number;
+  error?: string;
+}
+
+export type BuildStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * Construcción de una imagen en el host
+ * Los valores de los build args no se guardan (pueden contener credenciales), sólo sus nombres
+ */
+export interface BuildRecord {
+  id: string;
+  subdomain: string;
+  status: BuildStatus;
+  // Repositorio y ref, o el contexto subido (`upload:<id>`)
+  source: string;
+  dockerfile: string;
+  buildArgs: string[];
+  imageName: string;
+  imageId: string | null;
+  jobId: string;
+  requestedBy: string;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  // Últimas líneas del log de la build
+  logTail: string[];
+}
+
+/**
+ * Modo de la configuración de Nginx: proxy al contenedor o página de mantenimiento
+ */
+export type ProxyRouteMode = 'proxy' | 'maintenance';
+
+/**
+ * Configuración de proxy de Nginx registrada para un subdominio
+ * En modo mantenimiento se conserva el último puerto para poder restaurar el proxy
+ */
+export interface ProxyRouteRecord {
+  subdomain: string;
+  // Primer puerto del upstream (compatibilidad con los registros de una sola réplica)
+  port: number;
+  ports?: number[];
+  // Peso de cada puerto (mismo orden que `ports`); ausente si todos pesan lo mismo
+  weights?: number[];
+  loadBalancing?: LoadBalancingMethod;
+  // Ausente en los registros anteriores al modo mantenimiento (equivale a `proxy`)
+  mode?: ProxyRouteMode;
+  filePath: string;
+  updatedAt: string;
+}
+
+/**
+ * Puerto del host reservado para un subdominio
+ * Cada subdominio tiene una reserva por slot (color blue/green), de modo que los dos
+ * contenedores de un redespliegue conviven y cada slot conserva su puerto entre despliegues
+ */
+export interface PortLease {
+  subdomain: string;
+  slot: string;
+  port: number;
+  createdAt: string;
+  updatedAt: string;
+}